@@ -13,7 +13,9 @@ export default {
       },
     ],
   },
+  roots: ['<rootDir>/src', '<rootDir>/../shared'], // Modules shared with the client are tested here
+  setupFiles: ['<rootDir>/jest.setup.js'],
   testMatch: ['**/__tests__/**/*.test.ts', '**/?(*.)+(spec|test).ts'],
-  collectCoverageFrom: ['src/**/*.ts', '!src/**/*.d.ts'],
+  collectCoverageFrom: ['src/**/*.ts', '../shared/**/*.ts', '!**/*.d.ts'],
 };
 
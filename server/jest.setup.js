@@ -3,3 +3,5 @@ import { jest } from '@jest/globals';
 
 global.jest = jest;
 
+// Run the suite against the offline LLM provider (no network access needed)
+process.env.LLM_PROVIDER = process.env.LLM_PROVIDER || 'mock';
@@ -5,12 +5,13 @@ import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import { randomUUID } from 'node:crypto';
 import { logger } from './utils/logger.js';
-import { validateASCIIPayload } from './utils/security.js';
-import { testOpenAIKey } from './lib/openaiClient.js';
+import { preparePayload } from './utils/security.js';
+import { getProvider } from './lib/llmProvider.js';
 import interpretRoute from './routes/interpret.js';
 import explainRoute from './routes/explain.js';
 import practiceRoute from './routes/practice.js';
 import checkRoute from './routes/check.js';
+import sessionsRoute from './routes/sessions.js';
 
 // Extend Express Request type to include request ID
 declare global {
@@ -107,26 +108,29 @@ app.use(
 // Body parser with size limit: 1MB
 app.use(express.json({ limit: '1mb' }));
 
-// ASCII payload validation middleware (14-line allowlist) - must be after body parser
+// Payload normalization and validation middleware - must be after body parser
 app.use((req: Request, res: Response, next: NextFunction) => {
-  // Only validate JSON bodies (skip GET requests, health checks, etc.)
-  if (req.method === 'POST' && req.body && typeof req.body === 'object') {
-    const validation = validateASCIIPayload(req.body);
-    if (!validation.valid) {
+  // Only validate POST bodies and their Authorization header (skip GET requests, health checks, etc.).
+  // The GET stream endpoint runs its query through the same preparePayload itself.
+  if (req.method === 'POST') {
+    // NFKC plus math symbols ("x²", "π") to mathjs text in math fields, before any Zod schema runs
+    const prepared = preparePayload(req.body, req.headers.authorization);
+    if (!prepared.valid) {
       logger.warn(
         {
           requestId: req.id,
           path: req.path,
-          error: validation.error,
+          error: prepared.error,
         },
-        'Rejected non-ASCII payload'
+        'Rejected unsafe payload'
       );
       return res.status(400).json({
         error: 'Invalid payload',
-        detail: validation.error,
+        detail: prepared.error,
         requestId: req.id,
       });
     }
+    req.body = prepared.payload;
   }
   next();
 });
@@ -136,6 +140,7 @@ app.use('/api/interpret', interpretRoute);
 app.use('/api/explain', explainRoute);
 app.use('/api/practice', practiceRoute);
 app.use('/api/check', checkRoute);
+app.use('/api/sessions', sessionsRoute);
 
 // Health check endpoint (excluded from rate limiting)
 app.get('/health', (req: Request, res: Response) => {
@@ -148,31 +153,45 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
-// Readiness check endpoint - verifies OpenAI key reachability
+// Readiness check endpoint - verifies the LLM provider is reachable
 app.get('/ready', async (req: Request, res: Response) => {
   const testApiKey = process.env.OPENAI_API_KEY;
-  
-  if (!testApiKey) {
+
+  let provider;
+  try {
+    provider = getProvider();
+  } catch (error: any) {
+    return res.status(503).json({
+      status: 'not ready',
+      message: error.message,
+      requestId: req.id,
+    });
+  }
+
+  if (provider.requiresApiKey && !testApiKey) {
     return res.status(503).json({
       status: 'not ready',
       message: 'OpenAI API key not configured',
+      provider: provider.name,
       requestId: req.id,
     });
   }
 
   try {
-    const isReachable = await testOpenAIKey(testApiKey);
+    const isReachable = await provider.checkReady(testApiKey);
     if (isReachable) {
       res.json({
         status: 'ready',
-        message: 'OpenAI API is reachable',
+        message: `LLM provider "${provider.name}" is reachable`,
+        provider: provider.name,
         timestamp: new Date().toISOString(),
         requestId: req.id,
       });
     } else {
       res.status(503).json({
         status: 'not ready',
-        message: 'OpenAI API is not reachable',
+        message: `LLM provider "${provider.name}" is not reachable`,
+        provider: provider.name,
         requestId: req.id,
       });
     }
@@ -180,7 +199,8 @@ app.get('/ready', async (req: Request, res: Response) => {
     logger.error({ requestId: req.id, error: error.message }, 'Readiness check failed');
     res.status(503).json({
       status: 'not ready',
-      message: 'OpenAI API check failed',
+      message: 'LLM provider check failed',
+      provider: provider.name,
       error: error.message,
       requestId: req.id,
     });
@@ -200,6 +220,9 @@ app.get('/', (req: Request, res: Response) => {
       explain: '/api/explain',
       practice: '/api/practice',
       check: '/api/check',
+      session: 'GET /api/sessions/:id',
+      deleteSession: 'DELETE /api/sessions/:id',
+      exportSession: 'GET /api/sessions/:id/export?format=json|markdown',
     },
     requestId: req.id,
   });
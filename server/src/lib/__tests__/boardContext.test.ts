@@ -0,0 +1,90 @@
+import { describeBoard } from '../boardContext.js';
+
+describe('describeBoard', () => {
+  it('lists objects with their ids, content, colors and placement', () => {
+    const description = describeBoard({
+      objects: [
+        { id: 'g1', type: 'graph', expression: 'x^2', color: 'blue', domain: [-5, 5] },
+        { id: 'a2', type: 'annotation', text: 'Vertex', color: 'black', position: { x: 0, y: 0 } },
+      ],
+    });
+
+    expect(description).toContain('- g1: graph, y = x^2, blue, domain [-5, 5]');
+    expect(description).toContain('- a2: annotation, "Vertex", black, at (0, 0)');
+    expect(description).toContain('erase action');
+  });
+
+  it('describes curves by kind, and regions by their inequalities', () => {
+    const description = describeBoard({
+      objects: [
+        { id: 'g1', type: 'graph', expression: '3cos(t), 3sin(t)', kind: 'parametric' },
+        { id: 'g2', type: 'graph', expression: '1 + cos(theta)', kind: 'polar' },
+        { id: 'g3', type: 'graph', expression: 'x^2 + y^2 = 9', kind: 'implicit' },
+        { id: 'g4', type: 'graph', expression: 'x*y - 1', kind: 'implicit' },
+        { id: 'r5', type: 'region', expression: 'y > x^2 - 4', color: 'green' },
+      ],
+    });
+
+    expect(description).toContain('- g1: graph, parametric (x, y) = (3cos(t), 3sin(t))');
+    expect(description).toContain('- g2: graph, polar r = 1 + cos(theta)');
+    expect(description).toContain('- g3: graph, implicit x^2 + y^2 = 9');
+    expect(description).toContain('- g4: graph, implicit x*y - 1 = 0');
+    expect(description).toContain('- r5: region, where y > x^2 - 4, green');
+  });
+
+  it('describes Riemann sums by rule, with n as a parameter', () => {
+    const description = describeBoard({
+      objects: [
+        {
+          id: 'r1',
+          type: 'riemann',
+          expression: 'x^2',
+          rule: 'midpoint',
+          parameters: [{ name: 'n', value: 10, min: 1, max: 100 }],
+          domain: [0, 2],
+        },
+      ],
+    });
+
+    expect(description).toContain(
+      '- r1: riemann, midpoint sum of y = x^2, parameters n = 10 in [1, 100], domain [0, 2]'
+    );
+  });
+
+  it('lists graph parameters with their slider ranges', () => {
+    const description = describeBoard({
+      objects: [
+        {
+          id: 'g1',
+          type: 'graph',
+          expression: 'a*sin(b*x)',
+          parameters: [
+            { name: 'a', value: 2, min: -5, max: 5 },
+            { name: 'b', value: 1, min: 0, max: 10 },
+          ],
+        },
+      ],
+    });
+
+    expect(description).toContain('- g1: graph, y = a*sin(b*x), parameters a = 2 in [-5, 5], b = 1 in [0, 10]');
+    expect(description).toContain('adjust action');
+  });
+
+  it('reports undo and clear events on an empty board', () => {
+    const description = describeBoard({ objects: [], events: ['undo', 'clear'] });
+
+    expect(description).toContain('pressed: undo, clear');
+    expect(description).toContain('currently empty');
+  });
+
+  it('describes the visible area', () => {
+    const description = describeBoard({ objects: [], viewport: { x: [0, 50], y: [-2, 2] } });
+
+    expect(description).toContain('Visible area: x from 0 to 50, y from -2 to 2.');
+  });
+
+  it('returns null when there is nothing to describe', () => {
+    expect(describeBoard(undefined)).toBeNull();
+    expect(describeBoard({ objects: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,266 @@
+import {
+  checkCalculusAction,
+  checkGraphAction,
+  checkGraphExpression,
+  checkImplicitCurve,
+  checkParametricCurve,
+  checkRegion,
+  ensurePlottable,
+} from '../graphRepair.js';
+import { mockProvider } from '../mockProvider.js';
+import { TutorActionItem } from '../../types/tutorActions.js';
+
+const graph = (content: string, domain?: [number, number]): TutorActionItem => ({
+  action: 'draw',
+  subject: 'math',
+  content,
+  visual_type: 'graph',
+  ...(domain ? { meta: { domain } } : {}),
+});
+
+const calculus = (content: string, meta: TutorActionItem['meta']): TutorActionItem => ({
+  action: 'calculus',
+  subject: 'math',
+  content,
+  meta,
+});
+
+const toolCall = (actions: TutorActionItem[]) => ({
+  name: 'tutor_action',
+  arguments: JSON.stringify({ actions }),
+});
+
+const context = { transcript: 'Graph it', apiKey: '', requestId: 'req-1' };
+
+describe('checkGraphExpression', () => {
+  it.each(['x^2 + 2x + 1', '3*cos(x)', 'sqrt(x)', 'exp(x) - 5', '1/x', 'log(x)', '2pi x'])(
+    'accepts %j',
+    (expression) => {
+      expect(checkGraphExpression(expression)).toBeNull();
+    }
+  );
+
+  it.each([
+    ['', 'Expression is empty'],
+    ['x^^2', 'Could not parse expression'],
+    ['y + 1', 'Unknown symbol "y"'],
+    ['sqrt(-x^2 - 1)', 'No real values for x in [-10, 10]'],
+    ['x + 1000', 'outside the visible range'],
+    ['f(x) = x^2', 'Function definitions are not allowed'],
+  ])('rejects %j', (expression, reason) => {
+    expect(checkGraphExpression(expression)).toContain(reason);
+  });
+
+  it('samples parameters at their given values', () => {
+    expect(checkGraphExpression('a*sin(b*x)')).toContain('Unknown symbol "a"');
+    expect(checkGraphExpression('a*sin(b*x)', undefined, undefined, { a: 2, b: 1 })).toBeNull();
+    expect(checkGraphExpression('x + c', undefined, undefined, { c: 1000 })).toContain('outside the visible range');
+  });
+
+  it('samples over the given domain', () => {
+    expect(checkGraphExpression('sqrt(x - 50)')).toContain('No real values');
+    expect(checkGraphExpression('sqrt(x - 50)', [50, 60])).toBeNull();
+  });
+
+  it('checks visibility against the given y range, or not at all', () => {
+    expect(checkGraphExpression('x + 1000', [-10, 10], [900, 1100])).toBeNull();
+    expect(checkGraphExpression('x + 1000', [-10, 10], null)).toBeNull();
+  });
+
+  it('blocks parser functions in model output', () => {
+    expect(checkGraphExpression('evaluate("x")')).toBe('Function "evaluate" is not allowed');
+  });
+});
+
+describe('checkParametricCurve', () => {
+  it('accepts curves with real points in view', () => {
+    expect(checkParametricCurve('parametric', '3cos(t), 3sin(t)')).toBeNull();
+    expect(checkParametricCurve('polar', '1 + cos(theta)')).toBeNull();
+  });
+
+  it('samples over the parameter range', () => {
+    expect(checkParametricCurve('polar', 'sqrt(-1 - theta)')).toContain('No real points for theta in [0, ');
+    expect(checkParametricCurve('polar', 'sqrt(-1 - theta)', [-3, 0])).toBeNull();
+  });
+
+  it('checks both axes against the visible range', () => {
+    expect(checkParametricCurve('parametric', 't + 100, t')).toContain('outside the visible range');
+    expect(checkParametricCurve('parametric', 't + 100, t', [0, 1], [90, 110])).toBeNull();
+  });
+});
+
+describe('checkImplicitCurve', () => {
+  it('accepts equations with solutions in the area', () => {
+    expect(checkImplicitCurve('x^2 + y^2 = 9')).toBeNull();
+    expect(checkImplicitCurve('y^2 = x^3 - x')).toBeNull();
+  });
+
+  it('rejects equations without solutions or real values', () => {
+    expect(checkImplicitCurve('x^2 + y^2 = 900')).toContain('no solutions');
+    expect(checkImplicitCurve('x^2 + y^2 = 900', [-40, 40], [-40, 40])).toBeNull();
+    expect(checkImplicitCurve('sqrt(-1 - x^2) = y')).toContain('No real values');
+  });
+});
+
+describe('checkRegion', () => {
+  it('accepts regions with points in the area', () => {
+    expect(checkRegion('y > x^2 - 4')).toBeNull();
+    expect(checkRegion('x + y <= 4, x >= 0, y >= 0')).toBeNull();
+  });
+
+  it('rejects empty or unparseable regions', () => {
+    expect(checkRegion('y > x^2 + 100')).toContain('No points satisfy every inequality');
+    expect(checkRegion('y > x^2 + 100', [-10, 10], [0, 500])).toBeNull();
+    expect(checkRegion('y = x')).toContain('need inequalities');
+  });
+});
+
+describe('checkGraphAction', () => {
+  it('checks curves by their meta.curve kind and ranges', () => {
+    const circle = { ...graph('2cos(t), 2sin(t)'), meta: { curve: 'parametric' as const } };
+
+    expect(checkGraphAction(circle)).toBeNull();
+    expect(checkGraphAction(graph('2cos(t), 2sin(t)'))).toContain('Could not parse expression');
+    expect(
+      checkGraphAction({ ...circle, meta: { curve: 'parametric', t_range: [0, 1] } }, {
+        x: [100, 110],
+        y: [100, 110],
+      })
+    ).toContain('outside the visible range');
+    expect(
+      checkGraphAction({ ...graph('x^2 + y^2 = 4'), meta: { curve: 'implicit', domain: [5, 10] } })
+    ).toContain('no solutions');
+  });
+
+  it('checks curves with the parameter values declared in meta', () => {
+    const circle = (radius: number): TutorActionItem => ({
+      ...graph('r*cos(t), r*sin(t)'),
+      meta: { curve: 'parametric', parameters: [{ name: 'r', value: radius }] },
+    });
+    const implicit: TutorActionItem = {
+      ...graph('x^2 + y^2 = k'),
+      meta: { curve: 'implicit', parameters: [{ name: 'k', value: 4 }] },
+    };
+
+    expect(checkGraphAction(circle(3))).toBeNull();
+    expect(checkGraphAction(circle(100))).toContain('outside the visible range');
+    expect(checkGraphAction(implicit)).toBeNull();
+  });
+
+  it('checks regions over their domain', () => {
+    const region: TutorActionItem = { action: 'draw', content: 'y < -x', visual_type: 'region' };
+
+    expect(checkGraphAction(region)).toBeNull();
+    expect(checkGraphAction({ ...region, meta: { domain: [20, 30] } })).toContain('No points satisfy');
+  });
+});
+
+describe('checkCalculusAction', () => {
+  it('accepts overlays it can compute', () => {
+    expect(checkCalculusAction(calculus('tangent', { target: 'x^2', at: 1 }))).toBeNull();
+    expect(checkCalculusAction(calculus('derivative', { target: 'sin(x)' }))).toBeNull();
+    expect(checkCalculusAction(calculus('integral', { target: 'x^2', domain: [0, 3] }))).toBeNull();
+    expect(checkCalculusAction(calculus('riemann', { target: '1/x', domain: [0, 1], rule: 'right' }))).toBeNull();
+  });
+
+  it('explains why an overlay cannot be drawn', () => {
+    expect(checkCalculusAction(calculus('tangent', { target: 'x^2' }))).toBe('Tangent needs meta.at');
+    expect(checkCalculusAction(calculus('tangent', { target: 'abs(x)', at: 0 }))).toBe(
+      'f is not differentiable at x = 0'
+    );
+    expect(checkCalculusAction(calculus('integral', { target: '1/x', domain: [-1, 1] }))).toBe(
+      'f is not defined everywhere on [-1, 1]'
+    );
+    expect(checkCalculusAction(calculus('riemann', { target: '1/x', domain: [0, 1] }))).toMatch(/not defined/);
+    expect(checkCalculusAction(calculus('limit', { target: 'x' }))).toBe('Unknown calculus operation "limit"');
+  });
+
+  it('ignores other actions', () => {
+    expect(checkCalculusAction(graph('q'))).toBeNull();
+  });
+});
+
+describe('ensurePlottable', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leaves plottable responses alone without a repair request', async () => {
+    const spy = jest.spyOn(mockProvider, 'interpret');
+    const actions = [graph('x^2'), { action: 'explain' as const, content: 'A parabola' }];
+
+    const result = await ensurePlottable(actions, context);
+
+    expect(result).toEqual({ actions, dropped: [] });
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('accepts graphs the client can frame: a domain, or values inside the board viewport', async () => {
+    const spy = jest.spyOn(mockProvider, 'interpret');
+    const actions = [graph('0.5x', [1980, 2000]), graph('x + 1000')];
+
+    const result = await ensurePlottable(actions, {
+      ...context,
+      board: { objects: [], viewport: { x: [-10, 10], y: [990, 1010] } },
+    });
+
+    expect(result).toEqual({ actions, dropped: [] });
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('repairs broken graphs in place with one request', async () => {
+    const spy = jest
+      .spyOn(mockProvider, 'interpret')
+      .mockResolvedValueOnce(toolCall([graph('x^2'), graph('sqrt(x)', [0, 10])]));
+
+    const result = await ensurePlottable(
+      [graph('y = x^^2'), { action: 'explain', content: 'Two curves' }, graph('sqrt(-x - 100)')],
+      context
+    );
+
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy.mock.calls[0][0]).toContain('"y = x^^2"');
+    expect(spy.mock.calls[0][0]).toContain('"sqrt(-x - 100)"');
+    expect(result.actions.map((action) => action.content)).toEqual(['x^2', 'Two curves', 'sqrt(x)']);
+    expect(result.actions[2].meta?.domain).toEqual([0, 10]);
+    expect(result.dropped).toEqual([]);
+  });
+
+  it('drops graphs the repair does not fix, with a reason', async () => {
+    jest.spyOn(mockProvider, 'interpret').mockResolvedValueOnce(toolCall([graph('x + 1000')]));
+
+    const result = await ensurePlottable([graph('q')], context);
+
+    expect(result.actions).toEqual([]);
+    expect(result.dropped).toEqual([
+      {
+        content: 'q',
+        reason: expect.stringMatching(/Unknown symbol "q"; repair also failed: .*outside the visible range/),
+      },
+    ]);
+  });
+
+  it('drops calculus overlays it cannot compute without a repair request', async () => {
+    const spy = jest.spyOn(mockProvider, 'interpret');
+    const tangent = calculus('tangent', { target: 'x^2', at: 1 });
+
+    const result = await ensurePlottable([tangent, calculus('derivative', { target: 'q' })], context);
+
+    expect(result).toEqual({
+      actions: [tangent],
+      dropped: [{ content: 'derivative of q', reason: 'Unknown symbol "q"' }],
+    });
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('drops broken graphs when the repair request fails', async () => {
+    jest.spyOn(mockProvider, 'interpret').mockRejectedValueOnce(new Error('Request timeout'));
+
+    const result = await ensurePlottable([graph('x^2'), graph('sqrt(-1 - x^2)')], context);
+
+    expect(result.actions.map((action) => action.content)).toEqual(['x^2']);
+    expect(result.dropped).toEqual([
+      { content: 'sqrt(-1 - x^2)', reason: 'Repair request failed: Request timeout' },
+    ]);
+  });
+});
@@ -0,0 +1,25 @@
+import { languageInstruction, localizePrompt } from '../language.js';
+
+describe('languageInstruction', () => {
+  it('names the language and keeps math in mathjs syntax', () => {
+    const instruction = languageInstruction('es-ES');
+
+    expect(instruction).toContain('in Spanish');
+    expect(instruction).toContain('mathjs syntax');
+  });
+
+  it('returns null for English or no language', () => {
+    expect(languageInstruction('en-US')).toBeNull();
+    expect(languageInstruction(undefined)).toBeNull();
+  });
+});
+
+describe('localizePrompt', () => {
+  it('appends the instruction to the system prompt', () => {
+    expect(localizePrompt('You are a tutor.', 'ja-JP')).toMatch(/^You are a tutor\. .*in Japanese/);
+  });
+
+  it('leaves English prompts unchanged', () => {
+    expect(localizePrompt('You are a tutor.')).toBe('You are a tutor.');
+  });
+});
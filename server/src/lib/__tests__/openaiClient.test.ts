@@ -0,0 +1,42 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { completeChat } from '../openaiClient.js';
+
+// Local stand-in for the OpenAI API answering every request with one status
+describe('completeChat errors', () => {
+  let status = 401;
+  const server = http.createServer((_req, res) => {
+    res.writeHead(status, { 'content-type': 'application/json', 'x-should-retry': 'false' });
+    res.end(JSON.stringify({ error: { message: 'Rejected by the test server' } }));
+  });
+  const previousBaseUrl = process.env.OPENAI_BASE_URL;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    process.env.OPENAI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    process.env.OPENAI_BASE_URL = previousBaseUrl;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const complete = () =>
+    completeChat('sk-test12345678901234567890', { task: 'explain', messages: [{ role: 'user', content: 'Explain: x' }] });
+
+  it('describes an invalid key the same way interpret does', async () => {
+    status = 401;
+    await expect(complete()).rejects.toMatchObject({
+      message: 'Invalid API key. Please check your OpenAI API key.',
+      status: 401,
+    });
+  });
+
+  it('describes rate limiting the same way interpret does', async () => {
+    status = 429;
+    await expect(complete()).rejects.toMatchObject({
+      message: 'OpenAI rate limit exceeded. Please try again later.',
+      status: 429,
+    });
+  });
+});
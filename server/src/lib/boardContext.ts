@@ -0,0 +1,72 @@
+import { BoardObject, BoardSnapshot } from '../schema/boardSchema';
+
+function describeExpression(expression: string, kind: BoardObject['kind']): string {
+  switch (kind) {
+    case 'parametric':
+      return `parametric (x, y) = (${expression})`;
+    case 'polar':
+      return `polar r = ${expression}`;
+    case 'implicit':
+      return `implicit ${expression.includes('=') ? expression : `${expression} = 0`}`;
+    default:
+      return `y = ${expression}`;
+  }
+}
+
+function describeObject(object: BoardObject): string {
+  const parts = [`${object.id}: ${object.type}`];
+  if (object.expression) {
+    parts.push(
+      object.type === 'region'
+        ? `where ${object.expression}`
+        : object.type === 'riemann'
+          ? `${object.rule ?? 'left'} sum of y = ${object.expression}`
+          : describeExpression(object.expression, object.kind)
+    );
+  }
+  if (object.parameters?.length) {
+    const parameters = object.parameters.map(({ name, value, min, max }) => `${name} = ${value} in [${min}, ${max}]`);
+    parts.push(`parameters ${parameters.join(', ')}`);
+  }
+  if (object.text) parts.push(`"${object.text}"`);
+  if (object.color) parts.push(object.color);
+  if (object.domain) parts.push(`domain [${object.domain[0]}, ${object.domain[1]}]`);
+  if (object.position) parts.push(`at (${object.position.x}, ${object.position.y})`);
+  return `- ${parts.join(', ')}`;
+}
+
+/**
+ * Render a board snapshot as a system message body for the interpret prompt.
+ * Returns null when there is nothing worth telling the model.
+ */
+export function describeBoard(board?: BoardSnapshot): string | null {
+  if (!board) {
+    return null;
+  }
+
+  const events = board.events ?? [];
+  if (board.objects.length === 0 && events.length === 0 && !board.viewport) {
+    return null;
+  }
+
+  const lines: string[] = [];
+  if (board.viewport) {
+    const { x, y } = board.viewport;
+    lines.push(`Visible area: x from ${x[0]} to ${x[1]}, y from ${y[0]} to ${y[1]}.`);
+  }
+  if (events.length > 0) {
+    lines.push(`Since the last command the user pressed: ${events.join(', ')}.`);
+  }
+
+  if (board.objects.length === 0) {
+    lines.push('The board is currently empty.');
+  } else {
+    lines.push('Objects currently on the board (id: type, content, color, placement):');
+    lines.push(...board.objects.map(describeObject));
+    lines.push(
+      'When the user refers to something already drawn ("the red one", "where they cross"), resolve it against these objects. To remove one, return an erase action with meta.target set to its id; to recolor one, a restyle action; to change the parameters of a graph, an adjust action.'
+    );
+  }
+
+  return lines.join('\n');
+}
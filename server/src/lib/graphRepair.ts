@@ -0,0 +1,446 @@
+import { getProvider, ChatMessage } from './llmProvider';
+import { parseModelResponse } from '../schema/interpretSchema';
+import { BoardSnapshot, BoardViewport } from '../schema/boardSchema';
+import { LanguageTag } from '../schema/languageSchema';
+import { CurveKind, TutorActionItem } from '../types/tutorActions';
+import { logger } from '../utils/logger';
+import { compileCurve, compileExpression, compileRegion } from '../../../shared/mathParser';
+import { differentiate, integrate, riemannSum, tangentAt } from '../../../shared/mathUtils';
+
+/**
+ * Server-side plot check for model-produced graphs: every `draw`/`graph`
+ * (and `draw`/`region`) action is compiled with the restricted evaluator and sampled over its
+ * domain (or parameter range) before it reaches the client. Broken expressions get one targeted
+ * repair request; anything still unplottable is dropped with a reason. Calculus overlays are
+ * computed the way the client will, and dropped without a repair when that fails.
+ */
+
+// Matches the client canvas: the default view is ±10 on both axes, and points
+// more than half a view above or below it are clipped
+const COORDINATE_RANGE = 10;
+const DEFAULT_VIEWPORT: BoardViewport = {
+  x: [-COORDINATE_RANGE, COORDINATE_RANGE],
+  y: [-COORDINATE_RANGE, COORDINATE_RANGE],
+};
+const SAMPLE_COUNT = 200;
+const GRID_SIZE = 100; // Cells per side when looking for an implicit curve
+const DEFAULT_T_RANGE: [number, number] = [0, 2 * Math.PI];
+
+// Values the client draws along one axis of a viewport before clipping
+function drawnRange([min, max]: [number, number]): [number, number] {
+  const margin = (max - min) / 2;
+  return [min - margin, max + margin];
+}
+
+function drawnYRange(viewport: BoardViewport): [number, number] {
+  return drawnRange(viewport.y);
+}
+
+const inRange = (value: number, range: [number, number] | null) =>
+  !range || (value >= range[0] && value <= range[1]);
+
+// Parameter values by name, e.g. { a: 2, b: 1 } for "a*sin(b*x)"
+export type ParameterValues = Record<string, number>;
+
+/**
+ * Reason a graph expression cannot be plotted over the domain, or null if it
+ * can. Pass null for yRange to skip the visibility check. Parameters are
+ * sampled at their given values.
+ */
+export function checkGraphExpression(
+  expression: string,
+  domain: [number, number] = DEFAULT_VIEWPORT.x,
+  yRange: [number, number] | null = drawnYRange(DEFAULT_VIEWPORT),
+  parameters: ParameterValues = {}
+): string | null {
+  const compiled = compileExpression(expression, ['x', ...Object.keys(parameters)]);
+  if (!compiled.success) {
+    return compiled.error;
+  }
+  const values = Object.values(parameters);
+
+  const [minX, maxX] = domain;
+  const step = (maxX - minX) / SAMPLE_COUNT;
+  let realValues = 0;
+  let visibleValues = 0;
+  for (let i = 0; i <= SAMPLE_COUNT; i++) {
+    const y = compiled.evaluate(minX + i * step, ...values); // NaN for complex results
+    if (Number.isFinite(y)) {
+      realValues++;
+      if (inRange(y, yRange)) visibleValues++;
+    }
+  }
+
+  if (realValues === 0) {
+    return `No real values for x in [${minX}, ${maxX}]`;
+  }
+  if (visibleValues === 0) {
+    return `All values for x in [${minX}, ${maxX}] are outside the visible range`;
+  }
+  return null;
+}
+
+// Graphs and shaded regions: everything the server can check by sampling
+function isPlot(action: TutorActionItem): boolean {
+  return action.action === 'draw' && (action.visual_type === 'graph' || action.visual_type === 'region');
+}
+
+/**
+ * Reason a parametric or polar curve cannot be plotted, or null if it can.
+ * The curve is sampled over tRange; pass null for a range to skip the
+ * visibility check along that axis.
+ */
+export function checkParametricCurve(
+  kind: 'parametric' | 'polar',
+  content: string,
+  tRange: [number, number] = DEFAULT_T_RANGE,
+  xRange: [number, number] | null = drawnRange(DEFAULT_VIEWPORT.x),
+  yRange: [number, number] | null = drawnYRange(DEFAULT_VIEWPORT),
+  parameters: ParameterValues = {}
+): string | null {
+  const compiled = compileCurve(kind, content, Object.keys(parameters));
+  if (!compiled.success) {
+    return compiled.error;
+  }
+  const { curve } = compiled;
+  const values = Object.values(parameters);
+  let point: (t: number) => [number, number];
+  if (curve.kind === 'polar') {
+    point = (theta) => {
+      const r = curve.r(theta, ...values);
+      return [r * Math.cos(theta), r * Math.sin(theta)];
+    };
+  } else if (curve.kind === 'parametric') {
+    point = (t) => [curve.x(t, ...values), curve.y(t, ...values)];
+  } else {
+    return null;
+  }
+
+  const [minT, maxT] = tRange;
+  const step = (maxT - minT) / SAMPLE_COUNT;
+  const name = kind === 'polar' ? 'theta' : 't';
+  let realPoints = 0;
+  let visiblePoints = 0;
+  for (let i = 0; i <= SAMPLE_COUNT; i++) {
+    const [x, y] = point(minT + i * step);
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      realPoints++;
+      if (inRange(x, xRange) && inRange(y, yRange)) visiblePoints++;
+    }
+  }
+
+  if (realPoints === 0) {
+    return `No real points for ${name} in [${minT}, ${maxT}]`;
+  }
+  if (visiblePoints === 0) {
+    return `All points for ${name} in [${minT}, ${maxT}] are outside the visible range`;
+  }
+  return null;
+}
+
+/**
+ * Reason an implicit curve f(x, y) = 0 cannot be plotted in the given area,
+ * or null if f changes sign (or is zero) somewhere on a grid over it
+ */
+export function checkImplicitCurve(
+  content: string,
+  xRange: [number, number] = DEFAULT_VIEWPORT.x,
+  yRange: [number, number] = DEFAULT_VIEWPORT.y,
+  parameters: ParameterValues = {}
+): string | null {
+  const compiled = compileCurve('implicit', content, Object.keys(parameters));
+  if (!compiled.success) {
+    return compiled.error;
+  }
+  if (compiled.curve.kind !== 'implicit') {
+    return null;
+  }
+  const { f } = compiled.curve;
+  const values = Object.values(parameters);
+
+  const [minX, maxX] = xRange;
+  const [minY, maxY] = yRange;
+  let positive = false;
+  let negative = false;
+  for (let i = 0; i <= GRID_SIZE; i++) {
+    for (let j = 0; j <= GRID_SIZE; j++) {
+      const value = f(minX + ((maxX - minX) * i) / GRID_SIZE, minY + ((maxY - minY) * j) / GRID_SIZE, ...values);
+      if (value === 0) return null;
+      if (value > 0) positive = true;
+      if (value < 0) negative = true;
+      if (positive && negative) return null;
+    }
+  }
+
+  return positive || negative
+    ? `The equation has no solutions for x in [${minX}, ${maxX}], y in [${minY}, ${maxY}]`
+    : `No real values for x in [${minX}, ${maxX}], y in [${minY}, ${maxY}]`;
+}
+
+/**
+ * Reason a region cannot be shaded in the given area, or null if its
+ * inequalities all hold somewhere on a grid over it
+ */
+export function checkRegion(
+  content: string,
+  xRange: [number, number] = DEFAULT_VIEWPORT.x,
+  yRange: [number, number] = DEFAULT_VIEWPORT.y
+): string | null {
+  const compiled = compileRegion(content);
+  if (!compiled.success) {
+    return compiled.error;
+  }
+
+  const [minX, maxX] = xRange;
+  const [minY, maxY] = yRange;
+  for (let i = 0; i <= GRID_SIZE; i++) {
+    for (let j = 0; j <= GRID_SIZE; j++) {
+      const x = minX + ((maxX - minX) * i) / GRID_SIZE;
+      const y = minY + ((maxY - minY) * j) / GRID_SIZE;
+      const holds = compiled.inequalities.every(({ f, strict }) => {
+        const value = f(x, y);
+        return strict ? value > 0 : value >= 0;
+      });
+      if (holds) return null;
+    }
+  }
+  return `No points satisfy every inequality for x in [${minX}, ${maxX}], y in [${minY}, ${maxY}]`;
+}
+
+function curveKind(action: TutorActionItem): CurveKind {
+  return action.meta?.curve ?? 'function';
+}
+
+function parameterValues(action: TutorActionItem): ParameterValues {
+  return Object.fromEntries((action.meta?.parameters ?? []).map(({ name, value }) => [name, value]));
+}
+
+/**
+ * Reason a graph action cannot be plotted, or null (also for non-graph actions).
+ * A graph with a domain but no y_range is never off screen: the client zooms
+ * to fit it. Otherwise it must show up in its y_range or the current view.
+ */
+export function checkGraphAction(action: TutorActionItem, viewport = DEFAULT_VIEWPORT): string | null {
+  if (!isPlot(action)) {
+    return null;
+  }
+  const kind = curveKind(action);
+  const domain = action.meta?.domain ?? undefined;
+  const yRange = action.meta?.y_range ?? undefined;
+  if (action.visual_type === 'region') {
+    return checkRegion(action.content, domain ?? viewport.x, yRange ?? viewport.y);
+  }
+  const parameters = parameterValues(action);
+
+  switch (kind) {
+    case 'function':
+      return checkGraphExpression(
+        action.content,
+        domain ?? viewport.x,
+        yRange ?? (domain ? null : drawnYRange(viewport)),
+        parameters
+      );
+    case 'parametric':
+    case 'polar':
+      return checkParametricCurve(
+        kind,
+        action.content,
+        action.meta?.t_range ?? DEFAULT_T_RANGE,
+        domain ?? drawnRange(viewport.x),
+        yRange ?? (domain ? null : drawnYRange(viewport)),
+        parameters
+      );
+    case 'implicit':
+      return checkImplicitCurve(action.content, domain ?? viewport.x, yRange ?? viewport.y, parameters);
+  }
+}
+
+const CALCULUS_OPERATIONS = ['tangent', 'derivative', 'integral', 'riemann'];
+const DEFAULT_RIEMANN_N = 10;
+
+/**
+ * Reason a calculus action cannot be drawn, or null if it can (also for
+ * other actions). The client recomputes the overlay, so this only checks
+ * that the computation succeeds.
+ */
+export function checkCalculusAction(action: TutorActionItem): string | null {
+  if (action.action !== 'calculus') {
+    return null;
+  }
+  const operation = action.content.trim().toLowerCase();
+  const expression = action.meta?.target;
+  if (!CALCULUS_OPERATIONS.includes(operation)) {
+    return `Unknown calculus operation "${action.content}"`;
+  }
+  if (!expression) {
+    return 'No function given in meta.target';
+  }
+
+  switch (operation) {
+    case 'tangent': {
+      if (action.meta?.at == null) return 'Tangent needs meta.at';
+      const tangent = tangentAt(expression, action.meta.at);
+      return tangent.success ? null : tangent.error;
+    }
+    case 'derivative': {
+      const derived = differentiate(expression);
+      return derived.success ? null : derived.error;
+    }
+    case 'integral': {
+      if (!action.meta?.domain) return 'Integral needs bounds in meta.domain';
+      const integral = integrate(expression, action.meta.domain);
+      return integral.success ? null : integral.error;
+    }
+    default: {
+      const domain = action.meta?.domain;
+      if (!domain) return 'Riemann sum needs bounds in meta.domain';
+      const compiled = compileExpression(expression);
+      if (!compiled.success) return compiled.error;
+      const f = (x: number) => compiled.evaluate(x);
+      const { sum } = riemannSum(f, domain, action.meta?.n ?? DEFAULT_RIEMANN_N, action.meta?.rule ?? 'left');
+      return Number.isFinite(sum) ? null : `f is not defined at every sample point on [${domain[0]}, ${domain[1]}]`;
+    }
+  }
+}
+
+// What a dropped calculus action was about, e.g. "tangent of x^2"
+export function describeCalculusAction(action: TutorActionItem): string {
+  return action.meta?.target ? `${action.content} of ${action.meta.target}` : action.content;
+}
+
+export interface BrokenGraph {
+  action: TutorActionItem;
+  reason: string;
+}
+
+export interface DroppedAction {
+  content: string;
+  reason: string;
+}
+
+export interface RepairContext {
+  transcript: string;
+  apiKey: string;
+  requestId: string;
+  history?: ChatMessage[];
+  board?: BoardSnapshot;
+  language?: LanguageTag;
+}
+
+function buildRepairPrompt(transcript: string, broken: BrokenGraph[]): string {
+  const lines = broken.map(({ action, reason }, i) => {
+    const kind = action.visual_type === 'region' ? 'region' : curveKind(action);
+    const curve = kind === 'function' ? '' : kind === 'region' ? 'region ' : `${kind} curve `;
+    const domain = action.meta?.domain ? ` over [${action.meta.domain.join(', ')}]` : '';
+    return `${i + 1}. ${curve}"${action.content}"${domain}: ${reason}`;
+  });
+  return [
+    `For the command "${transcript}" you returned graph expressions that cannot be plotted:`,
+    ...lines,
+    `Return exactly ${broken.length} draw action(s), in the same order, each keeping its visual_type and meta.curve kind. A function is a single mathjs expression in x (no "y =", no prose) that has real values inside its domain; use meta.domain to pick a range where it is defined. Parametric and polar curves need real points inside meta.t_range; implicit curves need solutions inside the visible area. Regions need points inside the visible area where all their inequalities hold. Declare free constants (a, b, ...) in meta.parameters with their values.`,
+  ].join('\n');
+}
+
+/**
+ * One repair request for all broken graphs. Returns a replacement (or null
+ * when it is still unplottable) for each broken graph, plus drop reasons.
+ */
+export async function repairGraphs(
+  broken: BrokenGraph[],
+  context: RepairContext
+): Promise<{ replacements: (TutorActionItem | null)[]; dropped: DroppedAction[] }> {
+  const { requestId } = context;
+  logger.info(
+    {
+      requestId,
+      graphs: broken.map(({ action, reason }) => ({ expression: action.content, reason })),
+    },
+    'Requesting graph expression repair'
+  );
+
+  let candidates: TutorActionItem[] = [];
+  let failure: string | null = null;
+  try {
+    const call = await getProvider().interpret(
+      buildRepairPrompt(context.transcript, broken),
+      context.apiKey,
+      requestId,
+      context.history,
+      context.board,
+      context.language
+    );
+    const result = parseModelResponse(JSON.parse(call?.arguments || '{}'));
+    if (result.success) {
+      candidates = (result.data.actions as TutorActionItem[]).filter(isPlot);
+    } else {
+      failure = 'Repair response failed validation';
+    }
+  } catch (error: any) {
+    failure = `Repair request failed: ${error.message}`;
+  }
+
+  const replacements: (TutorActionItem | null)[] = [];
+  const dropped: DroppedAction[] = [];
+  broken.forEach(({ action, reason }, i) => {
+    const candidate = candidates[i];
+    const candidateReason = candidate ? checkGraphAction(candidate, context.board?.viewport) : null;
+    if (candidate && !candidateReason) {
+      replacements.push({ ...action, content: candidate.content, meta: { ...action.meta, ...candidate.meta } });
+      return;
+    }
+    replacements.push(null);
+    dropped.push({
+      content: action.content,
+      reason: failure ?? (candidateReason ? `${reason}; repair also failed: ${candidateReason}` : reason),
+    });
+  });
+
+  logger.info(
+    {
+      requestId,
+      repaired: replacements.filter(Boolean).length,
+      dropped: dropped.length,
+      repairedExpressions: replacements.filter(Boolean).map((action) => action!.content),
+      failure,
+    },
+    'Graph expression repair finished'
+  );
+
+  return { replacements, dropped };
+}
+
+/**
+ * Make every graph in a model response plottable: broken ones are repaired
+ * in place with one request, or dropped with a reason
+ */
+export async function ensurePlottable(
+  actions: TutorActionItem[],
+  context: RepairContext
+): Promise<{ actions: TutorActionItem[]; dropped: DroppedAction[] }> {
+  // Calculus overlays the client could not compute are dropped outright
+  const uncomputable: DroppedAction[] = [];
+  const computable = actions.filter((action) => {
+    const reason = checkCalculusAction(action);
+    if (reason) uncomputable.push({ content: describeCalculusAction(action), reason });
+    return !reason;
+  });
+
+  const broken: (BrokenGraph & { index: number })[] = [];
+  computable.forEach((action, index) => {
+    const reason = checkGraphAction(action, context.board?.viewport);
+    if (reason) broken.push({ action, reason, index });
+  });
+  if (broken.length === 0) {
+    return { actions: computable, dropped: uncomputable };
+  }
+
+  const { replacements, dropped } = await repairGraphs(broken, context);
+  const fixed = computable.slice() as (TutorActionItem | null)[];
+  broken.forEach(({ index }, i) => {
+    fixed[index] = replacements[i];
+  });
+  return {
+    actions: fixed.filter((action): action is TutorActionItem => action !== null),
+    dropped: [...uncomputable, ...dropped],
+  };
+}
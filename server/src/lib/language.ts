@@ -0,0 +1,25 @@
+import { LanguageTag, SUPPORTED_LANGUAGES } from '../../../shared/languages';
+
+/**
+ * System prompt addition asking for replies in the session language, or null
+ * for English. Math stays in mathjs syntax so the canvas can still plot it.
+ */
+export function languageInstruction(language?: LanguageTag): string | null {
+  if (!language || language === 'en-US') {
+    return null;
+  }
+  const { name } = SUPPORTED_LANGUAGES[language];
+  return (
+    `The student is working in ${name}. Write all explanations, problems, feedback and labels in ${name}. ` +
+    'Keep every mathematical expression in plain mathjs syntax with ASCII operators (e.g. "x^2 + 2*x + 1", "sin(x)"), ' +
+    'and keep JSON keys, action names and other schema values in English.'
+  );
+}
+
+/**
+ * Append the language instruction (if any) to a system prompt
+ */
+export function localizePrompt(prompt: string, language?: LanguageTag): string {
+  const instruction = languageInstruction(language);
+  return instruction ? `${prompt} ${instruction}` : prompt;
+}
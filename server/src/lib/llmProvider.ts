@@ -0,0 +1,74 @@
+import { openaiProvider } from './openaiClient';
+import { mockProvider } from './mockProvider';
+import { BoardSnapshot } from '../schema/boardSchema';
+import { LanguageTag } from '../schema/languageSchema';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+/**
+ * Plain chat completion request used by the explain, practice and check routes.
+ * `task` lets offline providers pick a canned reply without inspecting prompts.
+ */
+export interface ChatCompletionRequest {
+  task: 'explain' | 'practice' | 'check';
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask the model for a JSON object response
+  requestId?: string;
+}
+
+/**
+ * Structured action output: the raw `tutor_action` call produced by the model.
+ * Arguments are left as a JSON string so routes can report parse failures.
+ */
+export interface ActionCall {
+  name: string; // Empty when the model answered without calling a function
+  arguments: string;
+  content?: string | null; // Free text the model returned instead of a call
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly requiresApiKey: boolean;
+  complete(apiKey: string, request: ChatCompletionRequest): Promise<string>;
+  interpret(
+    prompt: string,
+    apiKey: string,
+    requestId?: string,
+    conversationHistory?: ChatMessage[],
+    board?: BoardSnapshot,
+    language?: LanguageTag
+  ): Promise<ActionCall | null>;
+  /** Same request as `interpret`, yielding `tutor_action` argument fragments as they arrive */
+  interpretStream(
+    prompt: string,
+    apiKey: string,
+    requestId?: string,
+    conversationHistory?: ChatMessage[],
+    board?: BoardSnapshot,
+    language?: LanguageTag
+  ): AsyncIterable<string>;
+  checkReady(apiKey?: string): Promise<boolean>;
+}
+
+const providers: Record<string, LLMProvider> = {
+  openai: openaiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Resolve the active provider from LLM_PROVIDER (defaults to OpenAI).
+ * Read per call so tests and scripts can switch providers at runtime.
+ */
+export function getProvider(): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${name}`);
+  }
+  return provider;
+}
@@ -0,0 +1,140 @@
+import { ActionCall, ChatCompletionRequest, ChatMessage, LLMProvider } from './llmProvider';
+import { TutorActionItem } from '../types/tutorActions';
+import { logger } from '../utils/logger';
+import { BoardSnapshot } from '../schema/boardSchema';
+
+/**
+ * Deterministic offline provider. Returns scripted `tutor_action` payloads so
+ * the server, /ready and the test suite work without network access.
+ * Enable with LLM_PROVIDER=mock.
+ */
+
+interface ScriptEntry {
+  pattern: RegExp;
+  actions: (match: RegExpMatchArray, board?: BoardSnapshot) => TutorActionItem[];
+}
+
+// Resolve "the red one", "g2" or "x^2" against the board snapshot
+function findBoardObject(board: BoardSnapshot | undefined, reference: string) {
+  const ref = reference.toLowerCase();
+  return board?.objects.find(
+    (object) =>
+      object.id.toLowerCase() === ref ||
+      object.color === ref ||
+      object.expression?.toLowerCase() === ref ||
+      object.text?.toLowerCase() === ref
+  );
+}
+
+// Checked in order; the first matching pattern wins
+const SCRIPT: ScriptEntry[] = [
+  {
+    pattern: /^(?:graph|plot|draw)\s+(?:y\s*=\s*)?(.+?)\s+and\s+label\s+(?:the\s+)?(.+)$/i,
+    actions: (m) => [
+      { action: 'draw', subject: 'math', content: m[1], visual_type: 'graph' },
+      { action: 'annotate', subject: 'math', content: m[2], visual_type: 'label' },
+    ],
+  },
+  {
+    pattern: /^(?:graph|plot|draw)\s+(?:y\s*=\s*)?(.+)$/i,
+    actions: (m) => [{ action: 'draw', subject: 'math', content: m[1], visual_type: 'graph' }],
+  },
+  {
+    pattern: /^label\s+(?:the\s+)?(.+)$/i,
+    actions: (m) => [{ action: 'annotate', subject: 'math', content: m[1], visual_type: 'label' }],
+  },
+  {
+    pattern: /^(?:erase|remove|delete)\s+(?:the\s+)?(.+?)(?:\s+(?:one|graph|curve|label))?$/i,
+    actions: (m, board) => {
+      const target = findBoardObject(board, m[1]);
+      if (!target) {
+        return [{ action: 'explain', subject: 'general', content: `Nothing on the board matches "${m[1]}".` }];
+      }
+      return [{ action: 'erase', content: target.id, meta: { target: target.id } }];
+    },
+  },
+  {
+    pattern: /^(?:make|color|colour|turn)\s+(?:the\s+)?(.+?)(?:\s+(?:one|graph|curve|label))?\s+(blue|red|green|orange|purple|pink)$/i,
+    actions: (m, board) => {
+      const target = findBoardObject(board, m[1]);
+      if (!target) {
+        return [{ action: 'explain', subject: 'general', content: `Nothing on the board matches "${m[1]}".` }];
+      }
+      return [{ action: 'restyle', content: m[2].toLowerCase(), meta: { target: target.id } }];
+    },
+  },
+  {
+    pattern: /\b(?:sample|practice)\s+problems?\b/i,
+    actions: () => [{ action: 'quiz', subject: 'math', content: 'Solve for x: 2x + 5 = 15' }],
+  },
+];
+
+function scriptedActions(prompt: string, board?: BoardSnapshot): TutorActionItem[] {
+  const trimmed = prompt.trim().replace(/[.!?]+$/, '');
+  for (const entry of SCRIPT) {
+    const match = trimmed.match(entry.pattern);
+    if (match) {
+      return entry.actions(match, board);
+    }
+  }
+  return [{ action: 'explain', subject: 'general', content: `This is a scripted explanation of: ${trimmed}` }];
+}
+
+// Canned replies for plain completions, shaped like the real model output
+const CANNED_REPLIES: Record<ChatCompletionRequest['task'], string> = {
+  explain: 'This is a scripted explanation from the offline provider.',
+  practice: JSON.stringify({
+    problems: ['Solve for x: 2x + 5 = 15', 'Find the vertex of y = x^2 - 4x + 3'],
+  }),
+  check: JSON.stringify({
+    correct: true,
+    feedback: 'Scripted feedback from the offline provider.',
+    rubric: ['Answer provided'],
+  }),
+};
+
+const STREAM_FRAGMENT_SIZE = 12;
+
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+  requiresApiKey: false,
+
+  async complete(_apiKey: string, request: ChatCompletionRequest): Promise<string> {
+    logger.debug({ requestId: request.requestId, task: request.task }, 'Mock chat completion');
+    return CANNED_REPLIES[request.task];
+  },
+
+  async interpret(
+    prompt: string,
+    _apiKey: string,
+    requestId?: string,
+    _conversationHistory?: ChatMessage[],
+    board?: BoardSnapshot
+  ): Promise<ActionCall | null> {
+    const actions = scriptedActions(prompt, board);
+    logger.debug({ requestId, actionCount: actions.length }, 'Mock interpret');
+    return {
+      name: 'tutor_action',
+      arguments: JSON.stringify({ actions }),
+    };
+  },
+
+  async *interpretStream(
+    prompt: string,
+    _apiKey: string,
+    requestId?: string,
+    _conversationHistory?: ChatMessage[],
+    board?: BoardSnapshot
+  ): AsyncGenerator<string> {
+    const payload = JSON.stringify({ actions: scriptedActions(prompt, board) });
+    logger.debug({ requestId, payloadLength: payload.length }, 'Mock interpret stream');
+    // Split into small fragments like a real token stream
+    for (let i = 0; i < payload.length; i += STREAM_FRAGMENT_SIZE) {
+      yield payload.slice(i, i + STREAM_FRAGMENT_SIZE);
+    }
+  },
+
+  async checkReady(): Promise<boolean> {
+    return true;
+  },
+};
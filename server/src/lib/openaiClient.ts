@@ -1,119 +1,130 @@
 import OpenAI from 'openai';
+import { zodFunction } from 'openai/helpers/zod';
 import { interpretResponseSchema } from '../schema/interpretSchema';
 import { callWithRetry } from '../utils/timeout';
+import { toStrictSchema } from '../utils/strictSchema';
 import { logger } from '../utils/logger';
+import { ActionCall, ChatCompletionRequest, ChatMessage, LLMProvider } from './llmProvider';
+import { describeBoard } from './boardContext';
+import { BoardSnapshot } from '../schema/boardSchema';
+import { LanguageTag } from '../schema/languageSchema';
+import { languageInstruction } from './language';
 
-// JSON Schema for function calling (matches Zod schema)
-const tutorActionFunctionSchema = {
+// Strict tool schema generated from the Zod response schema, so the model
+// can only produce payloads of the shape the routes validate
+export const tutorActionTool = zodFunction({
   name: 'tutor_action',
   description:
     'Determine the action(s) to take based on the user voice command. Extract and prioritize the main command, but can return multiple actions if the user requests multiple things.',
-  parameters: {
-    type: 'object',
-    properties: {
-      actions: {
-        type: 'array',
-        description:
-          'Array of actions to execute. Can contain multiple actions if user requests multiple things (e.g., "draw x² and label the vertex").',
-        items: {
-          type: 'object',
-          properties: {
-            action: {
-              type: 'string',
-              enum: ['draw', 'annotate', 'explain', 'quiz'],
-              description:
-                'The type of action: draw (plot graph/diagram), annotate (add labels), explain (provide explanation), quiz (generate practice problem)',
-            },
-            subject: {
-              type: 'string',
-              enum: ['math', 'physics', 'chemistry', 'general'],
-              description: 'The subject area of the command',
-            },
-            content: {
-              type: 'string',
-              description:
-                'The content to draw/annotate/explain. For graphs, this should be the mathematical expression (e.g., "x^2 + 2x + 1", "3*cos(x)"). For annotations, this is the label text. For explanations, this is the explanation text.',
-            },
-            visual_type: {
-              type: 'string',
-              enum: ['graph', 'diagram', 'label'],
-              description:
-                'The type of visual: graph (mathematical function), diagram (general diagram), label (text annotation)',
-            },
-          },
-          required: ['action', 'content'],
-          additionalProperties: false,
-        },
-      },
-    },
-    required: ['actions'],
-    additionalProperties: false,
-  },
+  parameters: toStrictSchema(interpretResponseSchema),
+});
+
+const TUTOR_ACTION_CHOICE = {
+  type: 'function',
+  function: { name: 'tutor_action' },
 } as const;
 
+const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o';
+
+/**
+ * Map OpenAI SDK errors to messages the routes know how to classify,
+ * keeping the HTTP status for routes that check it
+ */
+function describeOpenAIError(error: any): Error {
+  const withStatus = (message: string) => Object.assign(new Error(message), { status: error.status });
+  if (error.status === 401) {
+    return withStatus('Invalid API key. Please check your OpenAI API key.');
+  } else if (error.status === 429) {
+    return withStatus('OpenAI rate limit exceeded. Please try again later.');
+  } else if (error.message) {
+    return withStatus(`OpenAI API error: ${error.message}`);
+  }
+  return error;
+}
+
+/**
+ * Build messages array with system prompt, language, board state, conversation history, and current prompt
+ */
+function buildInterpretMessages(
+  prompt: string,
+  conversationHistory?: ChatMessage[],
+  board?: BoardSnapshot,
+  language?: LanguageTag
+): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+    {
+      role: 'system',
+      content:
+        'You are the reasoning engine for a voice-driven whiteboard tutor. When users speak commands like "Graph 3cos(x)" or "Label the vertex of x² + 2x + 1", extract the mathematical expressions and determine the appropriate actions. Use meta to say where things go: a domain for graphs, and computed anchor points with matching labels for annotations. You can return multiple actions if the user requests multiple things in one command. Always return valid JSON matching the function schema exactly. You can use conversation history to understand follow-up questions and context.',
+    },
+  ];
+
+  // Explanations and labels in the student's language; expressions stay plottable
+  const instruction = languageInstruction(language);
+  if (instruction) {
+    messages.push({ role: 'system', content: instruction });
+  }
+
+  // Describe what is on the canvas so references to drawn objects can be resolved
+  const boardDescription = describeBoard(board);
+  if (boardDescription) {
+    messages.push({ role: 'system', content: boardDescription });
+  }
+
+  // Add conversation history (last 10 messages to keep context manageable)
+  if (conversationHistory && conversationHistory.length > 0) {
+    const recentHistory = conversationHistory.slice(-10);
+    for (const msg of recentHistory) {
+      messages.push({
+        role: msg.role === 'assistant' ? 'assistant' : 'user',
+        content: msg.content,
+      });
+    }
+  }
+
+  // Add current prompt
+  messages.push({ role: 'user', content: prompt });
+
+  return messages;
+}
+
 export async function interpretPrompt(
   prompt: string,
   apiKey: string,
   requestId?: string,
-  conversationHistory?: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>
-): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+  conversationHistory?: ChatMessage[],
+  board?: BoardSnapshot,
+  language?: LanguageTag
+): Promise<ActionCall | null> {
   const openai = new OpenAI({ apiKey });
 
   const makeRequest = async () => {
     try {
-      // Build messages array with system prompt, conversation history, and current prompt
-      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-        {
-          role: 'system',
-          content:
-            'You are the reasoning engine for a voice-driven whiteboard tutor. When users speak commands like "Graph 3cos(x)" or "Label the vertex of x² + 2x + 1", extract the mathematical expressions and determine the appropriate actions. You can return multiple actions if the user requests multiple things in one command. Always return valid JSON matching the function schema exactly. You can use conversation history to understand follow-up questions and context.',
-        },
-      ];
-
-      // Add conversation history (last 10 messages to keep context manageable)
-      if (conversationHistory && conversationHistory.length > 0) {
-        const recentHistory = conversationHistory.slice(-10);
-        for (const msg of recentHistory) {
-          messages.push({
-            role: msg.role === 'assistant' ? 'assistant' : 'user',
-            content: msg.content,
-          });
-        }
-      }
-
-      // Add current prompt
-      messages.push({ role: 'user', content: prompt });
+      const messages = buildInterpretMessages(prompt, conversationHistory, board, language);
 
       const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
+        model: OPENAI_MODEL,
         temperature: 0.3,
         messages,
-        functions: [tutorActionFunctionSchema],
-        function_call: { name: 'tutor_action' },
+        tools: [tutorActionTool],
+        tool_choice: TUTOR_ACTION_CHOICE,
       });
 
       return response;
     } catch (error: any) {
       // Re-throw with more context
-      if (error.status === 401) {
-        throw new Error('Invalid API key. Please check your OpenAI API key.');
-      } else if (error.status === 429) {
-        throw new Error('OpenAI rate limit exceeded. Please try again later.');
-      } else if (error.message) {
-        throw new Error(`OpenAI API error: ${error.message}`);
-      }
-      throw error;
+      throw describeOpenAIError(error);
     }
   };
 
   // Call with retry and timeout
+  let response: OpenAI.Chat.Completions.ChatCompletion;
   try {
-    const response = await callWithRetry(makeRequest, 3, 20_000);
+    response = await callWithRetry(makeRequest, 3, 20_000);
     logger.info(
       { requestId, promptLength: prompt.length },
       'OpenAI request successful'
     );
-    return response;
   } catch (error: any) {
     logger.error(
       { requestId, error: error.message, promptLength: prompt.length },
@@ -121,6 +132,109 @@ export async function interpretPrompt(
     );
     throw error;
   }
+
+  const message = response.choices[0]?.message;
+  if (!message) {
+    return null;
+  }
+
+  const toolCall = message.tool_calls?.find((call) => call.type === 'function');
+  return {
+    name: toolCall?.function.name ?? '',
+    arguments: toolCall?.function.arguments ?? '',
+    content: message.content,
+  };
+}
+
+/**
+ * Streaming variant of interpretPrompt. Yields tool call argument
+ * fragments; only opening the stream is retried, not a partial response.
+ */
+export async function* interpretPromptStream(
+  prompt: string,
+  apiKey: string,
+  requestId?: string,
+  conversationHistory?: ChatMessage[],
+  board?: BoardSnapshot,
+  language?: LanguageTag
+): AsyncGenerator<string> {
+  const openai = new OpenAI({ apiKey });
+  const messages = buildInterpretMessages(prompt, conversationHistory, board, language);
+
+  const openStream = async () => {
+    try {
+      return await openai.chat.completions.create({
+        model: OPENAI_MODEL,
+        temperature: 0.3,
+        messages,
+        tools: [tutorActionTool],
+        tool_choice: TUTOR_ACTION_CHOICE,
+        stream: true,
+      });
+    } catch (error: any) {
+      throw describeOpenAIError(error);
+    }
+  };
+
+  let stream;
+  try {
+    stream = await callWithRetry(openStream, 3, 20_000);
+  } catch (error: any) {
+    logger.error(
+      { requestId, error: error.message, promptLength: prompt.length },
+      'OpenAI stream failed to open after retries'
+    );
+    throw error;
+  }
+
+  let fragments = 0;
+  try {
+    for await (const chunk of stream) {
+      const fragment = chunk.choices[0]?.delta?.tool_calls?.[0]?.function?.arguments;
+      if (fragment) {
+        fragments++;
+        yield fragment;
+      }
+    }
+  } catch (error: any) {
+    throw describeOpenAIError(error);
+  }
+
+  logger.info(
+    { requestId, promptLength: prompt.length, fragments },
+    'OpenAI stream completed'
+  );
+}
+
+/**
+ * Plain chat completion (explain, practice, check)
+ */
+export async function completeChat(
+  apiKey: string,
+  request: ChatCompletionRequest
+): Promise<string> {
+  const openai = new OpenAI({ apiKey });
+
+  const makeRequest = async () => {
+    try {
+      return await openai.chat.completions.create({
+        model: OPENAI_MODEL,
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens,
+        messages: request.messages,
+        response_format: request.json ? { type: 'json_object' } : undefined,
+      });
+    } catch (error: any) {
+      throw describeOpenAIError(error);
+    }
+  };
+
+  const response = await callWithRetry(makeRequest, 3, 20_000);
+  logger.debug(
+    { requestId: request.requestId, task: request.task },
+    'OpenAI chat completion successful'
+  );
+  return response.choices[0]?.message?.content || '';
 }
 
 /**
@@ -145,16 +259,11 @@ export async function testOpenAIKey(apiKey: string): Promise<boolean> {
   }
 }
 
-/**
- * Validates the parsed response using Zod schema
- * Returns empty actions array if validation fails
- */
-export function validateTutorResponse(data: unknown): { actions: any[] } {
-  try {
-    const validated = interpretResponseSchema.parse(data);
-    return validated;
-  } catch (error) {
-    logger.warn({ error }, 'Zod validation failed, returning empty actions');
-    return { actions: [] };
-  }
-}
+export const openaiProvider: LLMProvider = {
+  name: 'openai',
+  requiresApiKey: true,
+  complete: completeChat,
+  interpret: interpretPrompt,
+  interpretStream: interpretPromptStream,
+  checkReady: async (apiKey?: string) => (apiKey ? testOpenAIKey(apiKey) : false),
+};
@@ -1,8 +1,10 @@
 import express, { Request, Response } from 'express';
-import OpenAI from 'openai';
 import { checkRequestSchema } from '../schema/checkSchema';
 import { logger } from '../utils/logger';
-import { callWithRetry } from '../utils/timeout';
+import { getProvider } from '../lib/llmProvider';
+import { resolveApiKey } from '../utils/security';
+import { addMessage } from '../utils/sessionStore';
+import { localizePrompt } from '../lib/language';
 
 const router = express.Router();
 
@@ -10,7 +12,7 @@ router.post('/', async (req: Request, res: Response) => {
   const requestId = req.id;
 
   // Validate input
-  const parsed = checkRequestSchema.safeParse(req.body);
+  const parsed = checkRequestSchema.safeParse({ ...req.body, apiKey: resolveApiKey(req) });
   if (!parsed.success) {
     logger.warn(
       { requestId, validationErrors: parsed.error.issues },
@@ -23,44 +25,40 @@ router.post('/', async (req: Request, res: Response) => {
     });
   }
 
-  const { prompt, studentAnswer, apiKey } = parsed.data;
+  const { prompt, studentAnswer, apiKey, language } = parsed.data;
+  const sessionId = parsed.data.sessionId || requestId; // Use provided sessionId or fallback to requestId
 
   logger.info(
     {
       requestId,
       promptLength: prompt.length,
       answerLength: studentAnswer.length,
+      language,
     },
     'Received answer check request'
   );
 
   try {
-    const openai = new OpenAI({ apiKey });
-
-    const makeRequest = async () => {
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        temperature: 0.3,
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a helpful math tutor grading student answers. Analyze the student\'s answer and provide constructive feedback. Return a JSON object with: { "correct": boolean, "feedback": string, "rubric": string[] (optional) }. Be encouraging but accurate.',
-          },
-          {
-            role: 'user',
-            content: `Problem: ${prompt}\n\nStudent Answer: ${studentAnswer}\n\nGrade this answer and provide feedback.`,
-          },
-        ],
-        response_format: { type: 'json_object' },
-      });
-
-      return response;
-    };
-
-    const gptResponse = await callWithRetry(makeRequest, 3, 20_000);
+    const content = await getProvider().complete(apiKey, {
+      task: 'check',
+      temperature: 0.3,
+      json: true,
+      requestId,
+      messages: [
+        {
+          role: 'system',
+          content: localizePrompt(
+            'You are a helpful math tutor grading student answers. Analyze the student\'s answer and provide constructive feedback. Return a JSON object with: { "correct": boolean, "feedback": string, "rubric": string[] (optional) }. Be encouraging but accurate.',
+            language
+          ),
+        },
+        {
+          role: 'user',
+          content: `Problem: ${prompt}\n\nStudent Answer: ${studentAnswer}\n\nGrade this answer and provide feedback.`,
+        },
+      ],
+    });
 
-    const content = gptResponse.choices[0]?.message?.content;
     if (!content) {
       throw new Error('No response from GPT');
     }
@@ -82,6 +80,7 @@ router.post('/', async (req: Request, res: Response) => {
       feedback: parsedResponse.feedback || 'No feedback provided',
       rubric: parsedResponse.rubric,
       requestId,
+      sessionId,
     };
 
     logger.info(
@@ -92,6 +91,10 @@ router.post('/', async (req: Request, res: Response) => {
       'Checked answer'
     );
 
+    // Record the exchange so follow-up commands have context
+    await addMessage(sessionId, 'user', `check: ${prompt} -> ${studentAnswer}`);
+    await addMessage(sessionId, 'assistant', `feedback: ${result.feedback}`);
+
     res.json(result);
   } catch (err: any) {
     logger.error(
@@ -109,7 +112,7 @@ router.post('/', async (req: Request, res: Response) => {
     if (err.message?.includes('API key') || err.status === 401) {
       errorMessage = 'Invalid API key';
       statusCode = 401;
-    } else if (err.status === 429) {
+    } else if (err.message?.includes('rate limit') || err.status === 429) {
       errorMessage = 'OpenAI rate limit exceeded. Please try again later.';
       statusCode = 429;
     }
@@ -118,6 +121,7 @@ router.post('/', async (req: Request, res: Response) => {
       error: errorMessage,
       detail: err.message || 'Unknown error occurred',
       requestId,
+      sessionId,
     });
   }
 });
@@ -1,12 +1,15 @@
 import express, { Request, Response } from 'express';
-import OpenAI from 'openai';
 import { explainRequestSchema } from '../schema/explainSchema';
+import { getProvider } from '../lib/llmProvider';
+import { resolveApiKey } from '../utils/security';
+import { addMessage } from '../utils/sessionStore';
+import { localizePrompt } from '../lib/language';
 
 const router = express.Router();
 
 router.post('/', async (req: Request, res: Response) => {
   // Validate input
-  const parsed = explainRequestSchema.safeParse(req.body);
+  const parsed = explainRequestSchema.safeParse({ ...req.body, apiKey: resolveApiKey(req) });
   if (!parsed.success) {
     console.warn('[API] Invalid explain request:', parsed.error.issues);
     return res.status(400).json({
@@ -15,26 +18,28 @@ router.post('/', async (req: Request, res: Response) => {
     });
   }
 
-  const { concept, apiKey } = parsed.data;
+  const { concept, apiKey, language } = parsed.data;
+  const sessionId = parsed.data.sessionId || req.id; // Use provided sessionId or fallback to requestId
 
   // Log incoming request
   console.log('[API] Received explain request:', {
     concept: concept.substring(0, 100) + (concept.length > 100 ? '...' : ''),
+    language,
     timestamp: new Date().toISOString(),
   });
 
   try {
-    const openai = new OpenAI({ apiKey });
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const explanation = await getProvider().complete(apiKey, {
+      task: 'explain',
       temperature: 0.7,
-      max_tokens: 150, // Limit to ~80 words
+      maxTokens: 150, // Limit to ~80 words
       messages: [
         {
           role: 'system',
-          content:
+          content: localizePrompt(
             'You are a helpful tutoring assistant. Provide clear, concise explanations in 80 words or less. Use simple language that students can understand.',
+            language
+          ),
         },
         {
           role: 'user',
@@ -43,8 +48,6 @@ router.post('/', async (req: Request, res: Response) => {
       ],
     });
 
-    const explanation = response.choices[0]?.message?.content || '';
-
     if (!explanation) {
       throw new Error('No explanation generated');
     }
@@ -54,8 +57,13 @@ router.post('/', async (req: Request, res: Response) => {
       preview: explanation.substring(0, 50) + '...',
     });
 
+    // Record the exchange so follow-up commands have context
+    await addMessage(sessionId, 'user', `explain: ${concept}`);
+    await addMessage(sessionId, 'assistant', `explain: ${explanation.trim()}`);
+
     res.json({
       explanation: explanation.trim(),
+      sessionId,
     });
   } catch (err: any) {
     console.error('[API] Error generating explanation:', {
@@ -69,7 +77,7 @@ router.post('/', async (req: Request, res: Response) => {
     if (err.message?.includes('API key') || err.status === 401) {
       errorMessage = 'Invalid API key';
       statusCode = 401;
-    } else if (err.status === 429) {
+    } else if (err.message?.includes('rate limit') || err.status === 429) {
       errorMessage = 'OpenAI rate limit exceeded. Please try again later.';
       statusCode = 429;
     }
@@ -77,6 +85,7 @@ router.post('/', async (req: Request, res: Response) => {
     res.status(statusCode).json({
       error: errorMessage,
       detail: err.message || 'Unknown error occurred',
+      sessionId,
     });
   }
 });
@@ -1,8 +1,25 @@
 import express, { Request, Response } from 'express';
-import { interpretRequestSchema } from '../schema/interpretSchema';
-import { interpretPrompt, validateTutorResponse } from '../lib/openaiClient';
+import {
+  interpretRequestSchema,
+  parseModelAction,
+  parseModelResponse,
+  ValidationIssue,
+} from '../schema/interpretSchema';
+import { getProvider } from '../lib/llmProvider';
 import { logger } from '../utils/logger';
 import { getSession, addMessage, getHistory } from '../utils/sessionStore';
+import { createActionStreamParser } from '../utils/actionStreamParser';
+import { ModelOutputErrorCode, TutorActionItem, TutorResponse } from '../types/tutorActions';
+import { interpretLocally } from '../../../shared/ruleInterpreter';
+import {
+  BrokenGraph,
+  checkCalculusAction,
+  checkGraphAction,
+  describeCalculusAction,
+  ensurePlottable,
+  repairGraphs,
+} from '../lib/graphRepair';
+import { preparePayload, resolveApiKey } from '../utils/security';
 
 const router = express.Router();
 
@@ -13,42 +30,102 @@ function sendSSE(res: Response, event: string, data: any) {
   res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
 }
 
+/**
+ * Flush if available (for immediate delivery through compression middleware)
+ */
+function flushSSE(res: Response) {
+  if (typeof (res as any).flush === 'function') {
+    (res as any).flush();
+  }
+}
+
+/**
+ * Body for a model response that could not be used. Distinct from a valid
+ * empty `actions` list, which means the model found nothing to do.
+ */
+function modelOutputError(code: ModelOutputErrorCode, detail: string, issues?: ValidationIssue[]) {
+  return { error: 'Invalid model response', code, detail, issues };
+}
+
+/**
+ * The model could not be reached (network failure, timeout or an outage), as
+ * opposed to refusing the request (invalid key, quota). Only the former falls
+ * back to the offline rules; the latter must reach the user.
+ */
+function isModelUnreachable(err: any): boolean {
+  if (typeof err.status === 'number') {
+    return err.status >= 500;
+  }
+  return /timeout|timed out|connection|network|ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|fetch failed/i.test(
+    err.message ?? ''
+  );
+}
+
 /**
  * GET /api/interpret - Returns endpoint information
  */
 router.get('/', (req: Request, res: Response) => {
   res.json({
     endpoint: '/api/interpret',
-    methods: ['POST', 'GET /stream'],
+    methods: ['POST', 'POST /stream', 'GET /stream'],
     description: 'Voice command interpretation endpoint',
     usage: {
       POST: {
         url: '/api/interpret',
+        headers: { Authorization: 'Bearer <apiKey> (or apiKey in body)' },
         body: {
           transcript: 'string (required, max 500 chars)',
-          apiKey: 'string (required, min 20 chars)',
+          apiKey: 'string (min 20 chars, if no Authorization header; optional for offline-rule commands)',
           sessionId: 'string (optional)',
+          board: 'object (optional): { objects: [{ id, type, expression?, text?, color?, domain?, position? }], events?: ["undo" | "clear"] }',
+          language: 'string (optional): BCP 47 tag such as "es-ES"; explanations and labels come back in that language',
         },
         response: {
-          actions: 'array of tutor actions',
+          actions: 'array of tutor actions (empty when there is nothing to do)',
+          dropped: 'array of { content, reason }: graphs that could not be plotted even after one repair request',
+          source: '"model" or "rules" (offline interpreter)',
           requestId: 'string',
           sessionId: 'string',
         },
+        errors: {
+          502: '{ error: "Invalid model response", code: "no_tool_call" | "invalid_json" | "invalid_actions", detail, issues?: [{ path, message }] }',
+        },
+      },
+      'POST /stream': {
+        url: '/api/interpret/stream',
+        headers: { Authorization: 'Bearer <apiKey> (optional for offline-rule commands)' },
+        body: {
+          transcript: 'string (required, max 500 chars)',
+          sessionId: 'string (optional)',
+          board: 'object (optional, same as POST)',
+          language: 'string (optional, same as POST)',
+        },
+        response:
+          'Server-Sent Events (SSE) stream: status (parsing, drawing), action (one per validated action), actions (full list), error (invalid actions carry code and issues like POST), dropped (an unplottable graph with its reason), end',
       },
       'GET /stream': {
-        url: '/api/interpret/stream?transcript=...&apiKey=...&sessionId=...',
-        response: 'Server-Sent Events (SSE) stream',
+        deprecated: 'Sends the API key in the query string; use POST /stream',
+        url: '/api/interpret/stream?transcript=...&apiKey=...&sessionId=...&language=...',
+        response:
+          'Server-Sent Events (SSE) stream: status (parsing, drawing), action (one per validated action), actions (full list), error, end',
       },
     },
     requestId: req.id,
   });
 });
 
+interface StreamInput {
+  transcript?: unknown;
+  apiKey?: unknown;
+  sessionId?: unknown;
+  board?: unknown;
+  language?: unknown;
+}
+
 /**
- * Streaming endpoint for Server-Sent Events
- * GET /api/interpret/stream?transcript=...&apiKey=...
+ * Shared Server-Sent Events handler for the GET and POST stream routes
  */
-router.get('/stream', async (req: Request, res: Response) => {
+async function streamInterpret(req: Request, res: Response, input: StreamInput) {
   const requestId = req.id;
 
   // Set SSE headers
@@ -58,12 +135,12 @@ router.get('/stream', async (req: Request, res: Response) => {
   res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
   res.flushHeaders();
 
-  // Validate query parameters
-  const { transcript, apiKey } = req.query;
+  // Validate parameters
+  const { transcript, apiKey } = input;
 
-  if (!transcript || !apiKey) {
+  if (!transcript) {
     sendSSE(res, 'error', {
-      error: 'Missing required parameters: transcript and apiKey',
+      error: 'Missing required parameter: transcript',
       requestId,
     });
     sendSSE(res, 'end', {});
@@ -73,7 +150,10 @@ router.get('/stream', async (req: Request, res: Response) => {
 
   const parsed = interpretRequestSchema.safeParse({
     transcript: String(transcript),
-    apiKey: String(apiKey),
+    apiKey: apiKey === undefined ? undefined : String(apiKey),
+    sessionId: input.sessionId === undefined ? undefined : String(input.sessionId),
+    board: input.board,
+    language: input.language === undefined ? undefined : String(input.language),
   });
 
   if (!parsed.success) {
@@ -91,25 +171,53 @@ router.get('/stream', async (req: Request, res: Response) => {
     return;
   }
 
-  const { transcript: validatedTranscript, apiKey: validatedApiKey } = parsed.data;
-  const sessionId = (req.query.sessionId as string) || requestId; // Use provided sessionId or fallback to requestId
+  const { transcript: validatedTranscript, apiKey: validatedApiKey, board, language } = parsed.data;
+  const sessionId = parsed.data.sessionId || requestId; // Use provided sessionId or fallback to requestId
 
   // Get session history for context
-  const sessionHistory = getHistory(sessionId);
+  const sessionHistory = await getHistory(sessionId);
   
   // Add user message to session
-  addMessage(sessionId, 'user', validatedTranscript);
+  await addMessage(sessionId, 'user', validatedTranscript);
 
   logger.info(
     {
       requestId,
       sessionId,
       transcriptLength: validatedTranscript.length,
+      boardObjects: board?.objects.length ?? 0,
+      language,
       transcriptPreview: validatedTranscript.substring(0, 100) + (validatedTranscript.length > 100 ? '...' : ''),
     },
     'Received streaming interpret request'
   );
 
+  // No key: common phrasings still work through the offline rules, as on POST
+  if (!validatedApiKey && getProvider().requiresApiKey) {
+    const local = interpretLocally(validatedTranscript, board);
+    if (local) {
+      logger.info({ requestId, actionCount: local.actions.length }, 'Answered from offline rules (stream)');
+      await streamRuleResponse(res, local, requestId, sessionId);
+    } else {
+      sendSSE(res, 'error', {
+        error: 'API key required',
+        detail: 'No offline rule matches this command',
+        requestId,
+        sessionId,
+      });
+    }
+    sendSSE(res, 'end', {});
+    res.end();
+    return;
+  }
+
+  // Stop reading from the model if the client goes away
+  let clientClosed = false;
+  res.on('close', () => {
+    clientClosed = true;
+  });
+
+  const actions: TutorActionItem[] = [];
   try {
     // Send initial status
     sendSSE(res, 'status', {
@@ -117,78 +225,149 @@ router.get('/stream', async (req: Request, res: Response) => {
       requestId,
       sessionId,
     });
-    // Flush if available (for immediate delivery)
-    if (typeof (res as any).flush === 'function') {
-      (res as any).flush();
-    }
+    flushSSE(res);
+
+    // Stream the function call arguments and emit each action as soon as it validates
+    const parser = createActionStreamParser();
+    const broken: BrokenGraph[] = [];
+    let candidateIndex = 0;
+    const fragments = getProvider().interpretStream(
+      validatedTranscript,
+      validatedApiKey ?? '',
+      requestId,
+      sessionHistory,
+      board,
+      language
+    );
 
-    // Call OpenAI with retry and timeout, including conversation history
-    const gptResponse = await interpretPrompt(validatedTranscript, validatedApiKey, requestId, sessionHistory);
-    const functionCall = gptResponse.choices[0]?.message?.function_call;
+    for await (const fragment of fragments) {
+      if (clientClosed) {
+        logger.info({ requestId, actionCount: actions.length }, 'Client closed stream early');
+        break;
+      }
+
+      for (const candidate of parser.push(fragment)) {
+        const result = parseModelAction(candidate, candidateIndex++);
+        if (!result.success) {
+          logger.warn(
+            { requestId, validationErrors: result.issues },
+            'Dropped invalid streamed action'
+          );
+          sendSSE(res, 'error', {
+            ...modelOutputError('invalid_actions', 'An action failed validation and was skipped', result.issues),
+            requestId,
+            sessionId,
+          });
+          flushSSE(res);
+          continue;
+        }
+
+        const action = result.data as TutorActionItem;
+
+        // Calculus overlays that cannot be computed are not worth a repair
+        const calculusReason = checkCalculusAction(action);
+        if (calculusReason) {
+          sendSSE(res, 'dropped', {
+            content: describeCalculusAction(action),
+            reason: calculusReason,
+            requestId,
+            sessionId,
+          });
+          flushSSE(res);
+          continue;
+        }
+
+        // Hold unplottable graphs back for one repair request after the stream
+        const reason = checkGraphAction(action);
+        if (reason) {
+          broken.push({ action, reason });
+          continue;
+        }
+        actions.push(action);
+
+        // First action: tell the client drawing can start
+        if (actions.length === 1) {
+          sendSSE(res, 'status', { message: 'drawing', requestId, sessionId });
+        }
+        sendSSE(res, 'action', { action, index: actions.length - 1, requestId, sessionId });
+        flushSSE(res);
+      }
+    }
 
-    if (!functionCall || functionCall.name !== 'tutor_action') {
-      logger.error(
-        {
+    const rawArguments = parser.text();
+    if (!rawArguments) {
+      logger.error({ requestId }, 'No structured response from GPT (stream)');
+      if (!clientClosed) {
+        sendSSE(res, 'error', {
+          ...modelOutputError('no_tool_call', 'The model answered without calling tutor_action'),
           requestId,
-          hasFunctionCall: !!functionCall,
-          functionCallName: functionCall?.name,
-          message: gptResponse.choices[0]?.message?.content,
-        },
-        'No structured response from GPT (stream)'
-      );
-      sendSSE(res, 'actions', { actions: [], requestId });
-      sendSSE(res, 'end', {});
-      res.end();
-      return;
+          sessionId,
+        });
+      }
+    } else {
+      try {
+        JSON.parse(rawArguments);
+      } catch (parseError: any) {
+        // Actions already sent stay on the board; the rest of the payload is lost
+        logger.warn(
+          {
+            requestId,
+            error: parseError.message,
+            rawArgumentsPreview: rawArguments.substring(0, 200),
+          },
+          'Streamed tool call arguments were incomplete'
+        );
+        if (!clientClosed) {
+          sendSSE(res, 'error', {
+            ...modelOutputError('invalid_json', `Tool call arguments were not valid JSON: ${parseError.message}`),
+            requestId,
+            sessionId,
+          });
+        }
+      }
     }
 
-    // Parse the function call arguments
-    let data;
-    try {
-      const rawArguments = functionCall.arguments || '{}';
-      data = JSON.parse(rawArguments);
-    } catch (parseError: any) {
-      logger.error(
-        {
-          requestId,
-          error: parseError.message,
-          rawArgumentsPreview: functionCall.arguments?.substring(0, 200),
-        },
-        'Failed to parse GPT function call arguments (stream)'
-      );
-      sendSSE(res, 'error', {
-        error: 'OpenAI response parsing failed',
-        detail: parseError.message,
+    if (broken.length > 0 && !clientClosed) {
+      const { replacements, dropped } = await repairGraphs(broken, {
+        transcript: validatedTranscript,
+        apiKey: validatedApiKey ?? '',
         requestId,
+        history: sessionHistory,
+        board,
+        language,
       });
-      sendSSE(res, 'end', {});
-      res.end();
-      return;
+      for (const action of replacements) {
+        if (!action) continue;
+        actions.push(action);
+        if (actions.length === 1) {
+          sendSSE(res, 'status', { message: 'drawing', requestId, sessionId });
+        }
+        sendSSE(res, 'action', { action, index: actions.length - 1, requestId, sessionId });
+      }
+      for (const item of dropped) {
+        sendSSE(res, 'dropped', { ...item, requestId, sessionId });
+      }
+      flushSSE(res);
     }
 
-    // Validate response with Zod schema
-    const validated = validateTutorResponse(data);
-
     logger.info(
       {
         requestId,
-        actionCount: validated.actions.length,
+        actionCount: actions.length,
+        brokenGraphs: broken.length,
       },
       'Validated GPT response (stream)'
     );
 
     // Add assistant response to session
-    const responseText = validated.actions
+    const responseText = actions
       .map((a) => `${a.action}: ${a.content}`)
       .join('; ');
-    addMessage(sessionId, 'assistant', responseText);
+    await addMessage(sessionId, 'assistant', responseText);
 
-    // Send actions
-    sendSSE(res, 'actions', { ...validated, requestId, sessionId });
-    // Flush if available (for immediate delivery)
-    if (typeof (res as any).flush === 'function') {
-      (res as any).flush();
-    }
+    // Send the full list once the stream completes
+    sendSSE(res, 'actions', { actions, requestId, sessionId });
+    flushSSE(res);
   } catch (err: any) {
     logger.error(
       {
@@ -200,6 +379,16 @@ router.get('/stream', async (req: Request, res: Response) => {
       'Error interpreting prompt (stream)'
     );
 
+    // The model is unreachable and nothing was drawn yet: answer from the offline rules
+    const fallback = !clientClosed && actions.length === 0 && isModelUnreachable(err)
+      ? interpretLocally(validatedTranscript, board)
+      : null;
+    if (fallback) {
+      logger.warn({ requestId, error: err.message }, 'Answered from offline rules after model error (stream)');
+      await streamRuleResponse(res, fallback, requestId, sessionId);
+      return;
+    }
+
     // Provide meaningful error messages
     let errorMessage = 'Could not interpret request';
 
@@ -217,14 +406,91 @@ router.get('/stream', async (req: Request, res: Response) => {
       error: errorMessage,
       detail: err.message || 'Unknown error occurred',
       requestId,
+      sessionId,
     });
   } finally {
     // Always send end event
     sendSSE(res, 'end', {});
     res.end();
   }
+}
+
+/**
+ * Streaming endpoint for Server-Sent Events (deprecated: the key travels in the URL)
+ * GET /api/interpret/stream?transcript=...&apiKey=...
+ */
+router.get('/stream', async (req: Request, res: Response) => {
+  // The query gets the same normalization and text checks as a POST body
+  const prepared = preparePayload(
+    {
+      transcript: req.query.transcript,
+      apiKey: req.query.apiKey,
+      sessionId: req.query.sessionId,
+      language: req.query.language,
+    },
+    req.headers.authorization
+  );
+  if (!prepared.valid) {
+    logger.warn({ requestId: req.id, path: req.path, error: prepared.error }, 'Rejected unsafe payload');
+    return res.status(400).json({
+      error: 'Invalid payload',
+      detail: prepared.error,
+      requestId: req.id,
+    });
+  }
+  await streamInterpret(req, res, prepared.payload);
 });
 
+/**
+ * Streaming endpoint for Server-Sent Events
+ * POST /api/interpret/stream with Authorization: Bearer <apiKey>
+ */
+router.post('/stream', async (req: Request, res: Response) => {
+  await streamInterpret(req, res, { ...req.body, apiKey: resolveApiKey(req) });
+});
+
+/**
+ * Answer from the offline rule interpreter and record it in the session
+ */
+async function sendRuleResponse(
+  res: Response,
+  response: TutorResponse,
+  requestId: string,
+  sessionId: string
+) {
+  await addMessage(
+    sessionId,
+    'assistant',
+    response.actions.map((a) => `${a.action}: ${a.content}`).join('; ')
+  );
+  res.json({ ...response, source: 'rules', requestId, sessionId });
+}
+
+/**
+ * Stream an offline rule answer like a model one (the caller sends `end`)
+ * and record it in the session
+ */
+async function streamRuleResponse(
+  res: Response,
+  response: TutorResponse,
+  requestId: string,
+  sessionId: string
+) {
+  await addMessage(
+    sessionId,
+    'assistant',
+    response.actions.map((a) => `${a.action}: ${a.content}`).join('; ')
+  );
+  if (response.actions.length > 0) {
+    sendSSE(res, 'status', { message: 'drawing', requestId, sessionId });
+  }
+  response.actions.forEach((action, index) => {
+    sendSSE(res, 'action', { action, index, requestId, sessionId });
+  });
+  sendSSE(res, 'actions', { actions: response.actions, source: 'rules', requestId, sessionId });
+  flushSSE(res);
+}
+
 /**
  * Standard POST endpoint (fallback)
  */
@@ -232,7 +498,7 @@ router.post('/', async (req: Request, res: Response) => {
   const requestId = req.id;
 
   // Validate input
-  const parsed = interpretRequestSchema.safeParse(req.body);
+  const parsed = interpretRequestSchema.safeParse({ ...req.body, apiKey: resolveApiKey(req) });
   if (!parsed.success) {
     logger.warn(
       { requestId, validationErrors: parsed.error.issues },
@@ -245,45 +511,71 @@ router.post('/', async (req: Request, res: Response) => {
     });
   }
 
-  const { transcript, apiKey } = parsed.data;
-  const sessionId = (req.body.sessionId as string) || requestId; // Use provided sessionId or fallback to requestId
+  const { transcript, apiKey, board, language } = parsed.data;
+  const sessionId = parsed.data.sessionId || requestId; // Use provided sessionId or fallback to requestId
 
   // Get session history for context
-  const sessionHistory = getHistory(sessionId);
+  const sessionHistory = await getHistory(sessionId);
   
   // Add user message to session
-  addMessage(sessionId, 'user', transcript);
+  await addMessage(sessionId, 'user', transcript);
 
   // Log incoming request (without API key for security)
   logger.info(
     {
       requestId,
       transcriptLength: transcript.length,
+      boardObjects: board?.objects.length ?? 0,
+      language,
       transcriptPreview: transcript.substring(0, 100) + (transcript.length > 100 ? '...' : ''),
     },
     'Received interpret request'
   );
 
+  // No key: common phrasings still work through the offline rules
+  if (!apiKey && getProvider().requiresApiKey) {
+    const local = interpretLocally(transcript, board);
+    if (!local) {
+      return res.status(401).json({
+        error: 'API key required',
+        detail: 'No offline rule matches this command',
+        requestId,
+        sessionId,
+      });
+    }
+    logger.info({ requestId, actionCount: local.actions.length }, 'Answered from offline rules');
+    return sendRuleResponse(res, local, requestId, sessionId);
+  }
+
   try {
-    // Call OpenAI with retry and timeout, including conversation history
-    const gptResponse = await interpretPrompt(transcript, apiKey, requestId, sessionHistory);
-    const functionCall = gptResponse.choices[0]?.message?.function_call;
+    // Call the LLM provider with retry and timeout, including conversation history
+    const functionCall = await getProvider().interpret(
+      transcript,
+      apiKey ?? '',
+      requestId,
+      sessionHistory,
+      board,
+      language
+    );
 
     if (!functionCall || functionCall.name !== 'tutor_action') {
       logger.error(
         {
           requestId,
-          hasFunctionCall: !!functionCall,
+          hasFunctionCall: !!functionCall?.name,
           functionCallName: functionCall?.name,
-          message: gptResponse.choices[0]?.message?.content,
+          message: functionCall?.content,
         },
         'No structured response from GPT'
       );
-      // Return empty actions instead of error for better UX
-      return res.status(200).json({ actions: [], requestId });
+      return res.status(502).json({
+        ...modelOutputError('no_tool_call', 'The model answered without calling tutor_action'),
+        requestId,
+        sessionId,
+      });
     }
 
-    // Parse the function call arguments with comprehensive error handling
+    // Parse the tool call arguments with comprehensive error handling
     let data;
     try {
       const rawArguments = functionCall.arguments || '{}';
@@ -295,7 +587,7 @@ router.post('/', async (req: Request, res: Response) => {
           argumentsLength: rawArguments.length,
           rawArgumentsPreview: rawArguments.substring(0, 500),
         },
-        'GPT function call arguments'
+        'GPT tool call arguments'
       );
 
       data = JSON.parse(rawArguments);
@@ -307,28 +599,46 @@ router.post('/', async (req: Request, res: Response) => {
           rawArgumentsPreview: functionCall.arguments?.substring(0, 200),
           stack: parseError.stack,
         },
-        'Failed to parse GPT function call arguments'
+        'Failed to parse GPT tool call arguments'
       );
-      // Return empty actions instead of error for better UX (as per requirement)
-      return res.status(200).json({
-        actions: [],
+      return res.status(502).json({
+        ...modelOutputError('invalid_json', `Tool call arguments were not valid JSON: ${parseError.message}`),
         requestId,
         sessionId,
       });
     }
 
-    // Validate response with Zod schema (bulletproof validation)
-    const validated = validateTutorResponse(data);
+    // Validate response with Zod schema, reporting the offending fields
+    const result = parseModelResponse(data);
+    if (!result.success) {
+      logger.error({ requestId, validationErrors: result.issues }, 'GPT response failed validation');
+      return res.status(502).json({
+        ...modelOutputError('invalid_actions', 'The model response failed validation', result.issues),
+        requestId,
+        sessionId,
+      });
+    }
+    // Every graph that reaches the client must be plottable: repair once or drop
+    const { actions, dropped } = await ensurePlottable(result.data.actions as TutorActionItem[], {
+      transcript,
+      apiKey: apiKey ?? '',
+      requestId,
+      history: sessionHistory,
+      board,
+      language,
+    });
 
     // Log validated response for debugging
     logger.info(
       {
         requestId,
-        actionCount: validated.actions.length,
-        actions: validated.actions.map((a: any) => ({
+        actionCount: actions.length,
+        droppedCount: dropped.length,
+        actions: actions.map((a) => ({
           action: a.action,
           subject: a.subject,
           visual_type: a.visual_type,
+          hasMeta: !!a.meta,
           contentPreview: a.content?.substring(0, 50) + (a.content?.length > 50 ? '...' : ''),
         })),
       },
@@ -336,13 +646,13 @@ router.post('/', async (req: Request, res: Response) => {
     );
 
     // Add assistant response to session
-    const responseText = validated.actions
+    const responseText = actions
       .map((a) => `${a.action}: ${a.content}`)
       .join('; ');
-    addMessage(sessionId, 'assistant', responseText);
+    await addMessage(sessionId, 'assistant', responseText);
 
-    // Return the validated actions (empty array if validation failed)
-    res.json({ ...validated, requestId, sessionId });
+    // An empty list here means the model found nothing to do (or every graph was dropped)
+    res.json({ actions, dropped, source: 'model', requestId, sessionId });
   } catch (err: any) {
     // Comprehensive error logging
     logger.error(
@@ -356,6 +666,14 @@ router.post('/', async (req: Request, res: Response) => {
       'Error interpreting prompt'
     );
 
+    // The model is unreachable: answer common phrasings from the offline rules.
+    // Refusals (invalid key, quota) are reported instead, so the user can fix them.
+    const fallback = isModelUnreachable(err) ? interpretLocally(transcript, board) : null;
+    if (fallback) {
+      logger.warn({ requestId, error: err.message }, 'Answered from offline rules after model error');
+      return sendRuleResponse(res, fallback, requestId, sessionId);
+    }
+
     // Provide meaningful error messages based on error type
     let errorMessage = 'Could not interpret request';
     let statusCode = 500;
@@ -381,6 +699,7 @@ router.post('/', async (req: Request, res: Response) => {
       error: errorMessage,
       detail: err.message || 'Unknown error occurred',
       requestId,
+      sessionId,
     });
   }
 });
@@ -1,8 +1,10 @@
 import express, { Request, Response } from 'express';
-import OpenAI from 'openai';
 import { practiceRequestSchema } from '../schema/practiceSchema';
 import { logger } from '../utils/logger';
-import { callWithRetry } from '../utils/timeout';
+import { getProvider } from '../lib/llmProvider';
+import { resolveApiKey } from '../utils/security';
+import { addMessage } from '../utils/sessionStore';
+import { localizePrompt } from '../lib/language';
 
 const router = express.Router();
 
@@ -10,7 +12,7 @@ router.post('/', async (req: Request, res: Response) => {
   const requestId = req.id;
 
   // Validate input
-  const parsed = practiceRequestSchema.safeParse(req.body);
+  const parsed = practiceRequestSchema.safeParse({ ...req.body, apiKey: resolveApiKey(req) });
   if (!parsed.success) {
     logger.warn(
       { requestId, validationErrors: parsed.error.issues },
@@ -23,43 +25,39 @@ router.post('/', async (req: Request, res: Response) => {
     });
   }
 
-  const { topic, apiKey } = parsed.data;
+  const { topic, apiKey, language } = parsed.data;
+  const sessionId = parsed.data.sessionId || requestId; // Use provided sessionId or fallback to requestId
 
   logger.info(
     {
       requestId,
       topic: topic.substring(0, 100),
+      language,
     },
     'Received practice problems request'
   );
 
   try {
-    const openai = new OpenAI({ apiKey });
-
-    const makeRequest = async () => {
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        temperature: 0.7,
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a helpful math tutor. Generate 2-3 practice problems on the given topic. Return them as a JSON array of strings. Each problem should be clear, concise, and appropriate for students learning the topic.',
-          },
-          {
-            role: 'user',
-            content: `Generate 2-3 practice problems about: ${topic}`,
-          },
-        ],
-        response_format: { type: 'json_object' },
-      });
-
-      return response;
-    };
-
-    const gptResponse = await callWithRetry(makeRequest, 3, 20_000);
-
-    const content = gptResponse.choices[0]?.message?.content;
+    const content = await getProvider().complete(apiKey, {
+      task: 'practice',
+      temperature: 0.7,
+      json: true,
+      requestId,
+      messages: [
+        {
+          role: 'system',
+          content: localizePrompt(
+            'You are a helpful math tutor. Generate 2-3 practice problems on the given topic. Return them as a JSON array of strings. Each problem should be clear, concise, and appropriate for students learning the topic.',
+            language
+          ),
+        },
+        {
+          role: 'user',
+          content: `Generate 2-3 practice problems about: ${topic}`,
+        },
+      ],
+    });
+
     if (!content) {
       throw new Error('No response from GPT');
     }
@@ -92,9 +90,14 @@ router.post('/', async (req: Request, res: Response) => {
       'Generated practice problems'
     );
 
+    // Record the exchange so follow-up commands have context
+    await addMessage(sessionId, 'user', `practice: ${topic}`);
+    await addMessage(sessionId, 'assistant', `quiz: ${problems.join(' | ')}`);
+
     res.json({
       problems,
       requestId,
+      sessionId,
     });
   } catch (err: any) {
     logger.error(
@@ -112,7 +115,7 @@ router.post('/', async (req: Request, res: Response) => {
     if (err.message?.includes('API key') || err.status === 401) {
       errorMessage = 'Invalid API key';
       statusCode = 401;
-    } else if (err.status === 429) {
+    } else if (err.message?.includes('rate limit') || err.status === 429) {
       errorMessage = 'OpenAI rate limit exceeded. Please try again later.';
       statusCode = 429;
     }
@@ -121,6 +124,7 @@ router.post('/', async (req: Request, res: Response) => {
       error: errorMessage,
       detail: err.message || 'Unknown error occurred',
       requestId,
+      sessionId,
     });
   }
 });
@@ -0,0 +1,165 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { sessionParamsSchema, sessionExportQuerySchema } from '../schema/sessionSchema';
+import { logger } from '../utils/logger';
+import { isStaffAuthorization } from '../utils/security';
+import { findSession, clearSession, Message, Session } from '../utils/sessionStore';
+
+const router = express.Router();
+
+const ROLE_NAMES: Record<Message['role'], string> = {
+  user: 'Student',
+  assistant: 'Tutor',
+  system: 'System',
+};
+
+/**
+ * Escape message text so it renders as plain text inside its line: inline
+ * markup is backslash-escaped, block markers at the start of a line lose
+ * their meaning, and line breaks stay within the message
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<>&|~]/g, '\\$&')
+    .split(/\r?\n/)
+    .map((line) =>
+      line
+        .trimStart()
+        .replace(/^[#>+=-]/, '\\$&')
+        .replace(/^(\d+)([.)])/, '$1\\$2')
+    )
+    .join('  \n');
+}
+
+function toMarkdown(session: Session, exportedAt: string): string {
+  const lines = [
+    `# VoiceBoard session ${session.sessionId}`,
+    '',
+    `- Exported: ${exportedAt}`,
+    `- Last activity: ${new Date(session.ts).toISOString()}`,
+    `- Messages: ${session.history.length}`,
+    '',
+  ];
+  for (const message of session.history) {
+    lines.push(`**${ROLE_NAMES[message.role]}:** ${escapeMarkdown(message.content)}`, '');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Session transcripts belong to students: every route needs a teacher or
+ * admin token
+ */
+router.use((req: Request, res: Response, next: NextFunction) => {
+  if (!isStaffAuthorization(req.headers.authorization)) {
+    logger.warn({ requestId: req.id, path: req.path }, 'Rejected session request without a staff token');
+    return res.status(401).json({
+      error: 'Teacher or admin token required',
+      requestId: req.id,
+    });
+  }
+  next();
+});
+
+/**
+ * Validate the :id param, responding 400/404 and returning null on failure
+ */
+async function loadSession(req: Request, res: Response): Promise<Session | null> {
+  const requestId = req.id;
+  const parsed = sessionParamsSchema.safeParse(req.params);
+  if (!parsed.success) {
+    logger.warn(
+      { requestId, validationErrors: parsed.error.issues },
+      'Invalid session id'
+    );
+    res.status(400).json({
+      error: 'Invalid input',
+      details: parsed.error.issues,
+      requestId,
+    });
+    return null;
+  }
+
+  const session = await findSession(parsed.data.id);
+  if (!session) {
+    res.status(404).json({
+      error: 'Session not found',
+      sessionId: parsed.data.id,
+      requestId,
+    });
+    return null;
+  }
+  return session;
+}
+
+/**
+ * GET /api/sessions/:id - History plus metadata
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  const session = await loadSession(req, res);
+  if (!session) return;
+
+  res.json({
+    sessionId: session.sessionId,
+    lastActivity: new Date(session.ts).toISOString(),
+    messageCount: session.history.length,
+    history: session.history,
+    requestId: req.id,
+  });
+});
+
+/**
+ * GET /api/sessions/:id/export?format=json|markdown - Transcript download
+ */
+router.get('/:id/export', async (req: Request, res: Response) => {
+  const query = sessionExportQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({
+      error: 'Invalid input',
+      details: query.error.issues,
+      requestId: req.id,
+    });
+  }
+
+  const session = await loadSession(req, res);
+  if (!session) return;
+
+  const exportedAt = new Date().toISOString();
+  logger.info(
+    { requestId: req.id, sessionId: session.sessionId, format: query.data.format },
+    'Exported session'
+  );
+
+  if (query.data.format === 'markdown') {
+    res
+      .type('text/markdown')
+      .attachment(`voiceboard-session-${session.sessionId}.md`)
+      .send(toMarkdown(session, exportedAt));
+    return;
+  }
+
+  res.attachment(`voiceboard-session-${session.sessionId}.json`).json({
+    sessionId: session.sessionId,
+    exportedAt,
+    lastActivity: new Date(session.ts).toISOString(),
+    messages: session.history,
+  });
+});
+
+/**
+ * DELETE /api/sessions/:id - Wipe a session
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  const session = await loadSession(req, res);
+  if (!session) return;
+
+  await clearSession(session.sessionId);
+  logger.info({ requestId: req.id, sessionId: session.sessionId }, 'Deleted session');
+
+  res.json({
+    deleted: true,
+    sessionId: session.sessionId,
+    requestId: req.id,
+  });
+});
+
+export default router;
@@ -0,0 +1,158 @@
+import {
+  interpretResponseSchema,
+  parseModelAction,
+  parseModelResponse,
+} from '../interpretSchema.js';
+
+describe('interpretResponseSchema', () => {
+  it('keeps placement meta on actions', () => {
+    const parsed = interpretResponseSchema.parse({
+      actions: [
+        {
+          action: 'draw',
+          content: 'x^2 + 2*x + 1',
+          visual_type: 'graph',
+          meta: { domain: [-5, 5], y_range: [-1, 10] },
+        },
+        {
+          action: 'annotate',
+          content: 'Vertex',
+          visual_type: 'label',
+          meta: {
+            points: [{ x: -1, y: 0 }],
+            labels: ['Vertex'],
+            target: 'x^2 + 2*x + 1',
+          },
+        },
+      ],
+    });
+
+    expect(parsed.actions[0].meta?.domain).toEqual([-5, 5]);
+    expect(parsed.actions[0].meta?.y_range).toEqual([-1, 10]);
+    expect(parsed.actions[1].meta?.points).toEqual([{ x: -1, y: 0 }]);
+    expect(parsed.actions[1].meta?.labels).toEqual(['Vertex']);
+    expect(parsed.actions[1].meta?.target).toBe('x^2 + 2*x + 1');
+  });
+
+  it('accepts null meta fields', () => {
+    const parsed = interpretResponseSchema.parse({
+      actions: [
+        { action: 'draw', content: 'sin(x)', meta: { domain: null, points: null, labels: null } },
+      ],
+    });
+
+    expect(parsed.actions[0].meta?.domain).toBeNull();
+  });
+
+  it('rejects an inverted domain', () => {
+    const result = interpretResponseSchema.safeParse({
+      actions: [{ action: 'draw', content: 'x', meta: { domain: [5, -5] } }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('keeps graph parameters and adjust actions', () => {
+    const parsed = interpretResponseSchema.parse({
+      actions: [
+        {
+          action: 'draw',
+          content: 'a*sin(b*x)',
+          visual_type: 'graph',
+          meta: { parameters: [{ name: 'a', value: 2, min: -5, max: 5 }, { name: 'b', value: 1 }] },
+        },
+        {
+          action: 'adjust',
+          content: 'animate',
+          meta: { parameters: [{ name: 'b', value: 5, from: 1 }], target: 'g1' },
+        },
+      ],
+    });
+
+    expect(parsed.actions[0].meta?.parameters?.[1]).toEqual({ name: 'b', value: 1 });
+    expect(parsed.actions[1].meta?.parameters?.[0].from).toBe(1);
+  });
+
+  it('keeps calculus meta', () => {
+    const parsed = interpretResponseSchema.parse({
+      actions: [
+        { action: 'calculus', content: 'tangent', meta: { target: 'x^2', at: 1 } },
+        { action: 'calculus', content: 'riemann', meta: { target: 'x^2', domain: [0, 2], rule: 'midpoint', n: 8 } },
+      ],
+    });
+
+    expect(parsed.actions[0].meta?.at).toBe(1);
+    expect(parsed.actions[1].meta).toMatchObject({ rule: 'midpoint', n: 8 });
+  });
+
+  it('rejects Riemann sums with too many rectangles', () => {
+    const result = interpretResponseSchema.safeParse({
+      actions: [{ action: 'calculus', content: 'riemann', meta: { target: 'x', domain: [0, 1], n: 1000 } }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects parameters named like a variable or constant', () => {
+    const result = interpretResponseSchema.safeParse({
+      actions: [{ action: 'draw', content: 'x + 1', meta: { parameters: [{ name: 'x', value: 1 }] } }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects malformed anchor points', () => {
+    const result = interpretResponseSchema.safeParse({
+      actions: [{ action: 'annotate', content: 'A', meta: { points: [{ x: 'one', y: 0 }] } }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('parseModelResponse', () => {
+  it('drops the nulls strict outputs use for omitted fields', () => {
+    const result = parseModelResponse({
+      actions: [{ action: 'explain', content: 'Slope is rise over run', subject: null, visual_type: null, meta: null }],
+    });
+
+    expect(result).toEqual({
+      success: true,
+      data: { actions: [{ action: 'explain', content: 'Slope is rise over run' }] },
+    });
+  });
+
+  it('reports the path of each offending field', () => {
+    const result = parseModelResponse({
+      actions: [
+        { action: 'draw', content: 'x' },
+        { action: 'shout', content: 42 },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues.map((issue) => issue.path)).toEqual(['actions.1.action', 'actions.1.content']);
+    }
+  });
+
+  it('reports a missing actions array at the root', () => {
+    const result = parseModelResponse({});
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues[0].path).toBe('actions');
+    }
+  });
+});
+
+describe('parseModelAction', () => {
+  it('prefixes issues with the action index', () => {
+    const result = parseModelAction({ action: 'draw' }, 3);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues[0].path).toBe('actions.3.content');
+    }
+  });
+});
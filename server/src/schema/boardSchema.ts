@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+const MAX_BOARD_OBJECTS = 50;
+
+const boardRangeSchema = z.tuple([z.number(), z.number()]);
+
+// World ranges currently visible on the canvas (pan and zoom change them)
+export const boardViewportSchema = z.object({
+  x: boardRangeSchema,
+  y: boardRangeSchema,
+});
+
+// One object currently on the client canvas
+export const boardObjectSchema = z.object({
+  id: z.string().min(1).max(32),
+  type: z.enum(['graph', 'annotation', 'diagram', 'region', 'riemann']),
+  expression: z.string().max(200).optional(), // Graphs and Riemann sums; inequalities of regions
+  kind: z.enum(['function', 'parametric', 'polar', 'implicit']).optional(), // Graphs; function when omitted
+  rule: z.enum(['left', 'right', 'midpoint']).optional(), // Riemann sums
+  parameters: z // Graphs: free constants and their slider ranges; Riemann sums: n
+    .array(z.object({ name: z.string().max(8), value: z.number(), min: z.number(), max: z.number() }))
+    .max(10)
+    .optional(),
+  text: z.string().max(200).optional(), // Annotations
+  color: z.string().max(32).optional(), // Palette name, e.g. "red"
+  domain: boardRangeSchema.optional(),
+  position: z.object({ x: z.number(), y: z.number() }).optional(),
+});
+
+/**
+ * Compact description of the canvas sent with interpret requests so the model
+ * can resolve references like "erase the red one". `events` lists board edits
+ * the user made since the previous request.
+ */
+export const boardSnapshotSchema = z.object({
+  objects: z
+    .array(boardObjectSchema)
+    .max(MAX_BOARD_OBJECTS, `Board cannot exceed ${MAX_BOARD_OBJECTS} objects`),
+  events: z.array(z.enum(['undo', 'redo', 'clear'])).max(20).optional(),
+  viewport: boardViewportSchema.optional(),
+});
+
+export type BoardObject = z.infer<typeof boardObjectSchema>;
+export type BoardViewport = z.infer<typeof boardViewportSchema>;
+export type BoardSnapshot = z.infer<typeof boardSnapshotSchema>;
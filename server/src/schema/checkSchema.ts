@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { sanitizeTranscript } from '../utils/security';
+import { sessionIdSchema } from './sessionSchema';
+import { languageSchema } from './languageSchema';
 
 // Use same sanitization for prompt and answer (validate first, then transform)
 const sanitizeStringTransform = z
@@ -12,6 +14,8 @@ export const checkRequestSchema = z.object({
   prompt: sanitizeStringTransform,
   studentAnswer: sanitizeStringTransform,
   apiKey: z.string().min(20, 'API key must be at least 20 characters'),
+  sessionId: sessionIdSchema.optional(),
+  language: languageSchema.optional(), // Reply language; English when omitted
 });
 
 export type CheckRequest = z.infer<typeof checkRequestSchema>;
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { sanitizeTranscript } from '../utils/security';
+import { sessionIdSchema } from './sessionSchema';
+import { languageSchema } from './languageSchema';
 
 // Use same sanitization for concept (validate first, then transform)
 const sanitizeConceptTransform = z
@@ -11,6 +13,8 @@ const sanitizeConceptTransform = z
 export const explainRequestSchema = z.object({
   concept: sanitizeConceptTransform,
   apiKey: z.string().min(20, 'API key must be at least 20 characters'),
+  sessionId: sessionIdSchema.optional(),
+  language: languageSchema.optional(), // Reply language; English when omitted
 });
 
 export type ExplainRequest = z.infer<typeof explainRequestSchema>;
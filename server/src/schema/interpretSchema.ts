@@ -1,29 +1,195 @@
 import { z } from 'zod';
 import { sanitizeTranscript } from '../utils/security';
+import { normalizeSpokenMath } from '../../../shared/spokenMath';
+import { sessionIdSchema } from './sessionSchema';
+import { languageSchema } from './languageSchema';
+import { boardSnapshotSchema } from './boardSchema';
+import { isParameterName } from '../../../shared/mathParser';
 
-// Custom transformer to sanitize transcript (validate first, then transform)
+// Sanitize first (trim, cap at 500 chars), then require something to be left.
+// Normalization can lengthen text ("x²" -> "x^2"), so the cap is applied, not enforced.
 const sanitizeTranscriptTransform = z
   .string()
-  .min(1, 'Transcript cannot be empty')
-  .max(500, 'Transcript cannot exceed 500 characters')
-  .transform((val) => sanitizeTranscript(val));
+  .transform((val) => sanitizeTranscript(val))
+  .pipe(z.string().min(1, 'Transcript cannot be empty'));
 
 export const interpretRequestSchema = z.object({
-  transcript: sanitizeTranscriptTransform,
-  apiKey: z.string().min(20, 'API key must be at least 20 characters'),
+  // Spoken math ("sign of x") is rewritten for clients that send raw speech
+  transcript: sanitizeTranscriptTransform.transform((val) => normalizeSpokenMath(val)),
+  apiKey: z.string().min(20, 'API key must be at least 20 characters').optional(), // Offline rules need none
+  sessionId: sessionIdSchema.optional(),
+  language: languageSchema.optional(), // Reply language; English when omitted
+  board: boardSnapshotSchema.optional(),
 });
 
+const rangeSchema = z
+  .tuple([z.number(), z.number()])
+  .refine(([min, max]) => min < max, 'Range minimum must be less than maximum');
+
+const parameterSchema = z.object({
+  name: z.string().refine(isParameterName, 'Parameter names are single letters other than x, y, t, e and i'),
+  value: z.number().describe('Current (or, for adjust actions, new) value'),
+  min: z.number().nullable().optional().describe('Slider minimum; defaults to -10'),
+  max: z.number().nullable().optional().describe('Slider maximum; defaults to 10'),
+  from: z.number().nullable().optional().describe('Start value when animating; defaults to the current value'),
+});
+
+// Placement metadata for drawing and annotating on the canvas.
+// Descriptions are sent to the model as part of the tool schema.
+export const tutorActionMetaSchema = z
+  .object({
+    domain: rangeSchema
+      .nullable()
+      .optional()
+      .describe(
+        'x-range [min, max] to plot a graph over (the board zooms to fit it), or the new visible x-range for a zoom'
+      ),
+    y_range: rangeSchema
+      .nullable()
+      .optional()
+      .describe('y-range [min, max] that should be visible for a graph, or the new visible y-range for a zoom'),
+    curve: z
+      .enum(['function', 'parametric', 'polar', 'implicit'])
+      .nullable()
+      .optional()
+      .describe(
+        'Kind of graph (default function): function (content is y in terms of x, e.g. "x^2"), parametric (content is x(t) and y(t) separated by a comma, e.g. "3cos(t), 3sin(t)" for a circle of radius 3), polar (content is r in terms of theta, e.g. "1 + cos(theta)"), implicit (content is an equation in x and y, e.g. "x^2 + y^2 = 9")'
+      ),
+    t_range: rangeSchema
+      .nullable()
+      .optional()
+      .describe('Parameter range [min, max] for parametric t or polar theta; defaults to [0, 2pi]'),
+    parameters: z
+      .array(parameterSchema)
+      .max(10)
+      .nullable()
+      .optional()
+      .describe(
+        'Free constants of a graph, e.g. [{ "name": "a", "value": 2, "min": -5, "max": 5 }] for "a*sin(b*x)" (every single-letter symbol other than the curve variables must be declared; the board shows a slider for each). For adjust actions, the parameters to change and their new values'
+      ),
+    at: z.number().nullable().optional().describe('x value of the point a tangent line touches'),
+    rule: z
+      .enum(['left', 'right', 'midpoint'])
+      .nullable()
+      .optional()
+      .describe('Sample point of each Riemann sum rectangle'),
+    n: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .nullable()
+      .optional()
+      .describe('Number of Riemann sum rectangles; defaults to 10 (the board shows a slider for it)'),
+    points: z
+      .array(z.object({ x: z.number(), y: z.number() }))
+      .nullable()
+      .optional()
+      .describe(
+        'Anchor points for annotations, e.g. the vertex of x^2 + 2x + 1 is [{ "x": -1, "y": 0 }]'
+      ),
+    labels: z
+      .array(z.string())
+      .nullable()
+      .optional()
+      .describe('Label text for each anchor point, in the same order as points'),
+    target: z
+      .string()
+      .nullable()
+      .optional()
+      .describe(
+        'The expression or board object the action refers to, e.g. "x^2 + 2x + 1". For erase actions, the board object id (e.g. "g2")'
+      ),
+  })
+  .describe(
+    'Placement data for the canvas (world coordinates; the visible area is -10..10 on both axes unless the board says otherwise). Always include points and labels for annotate actions.'
+  );
+
 export const tutorActionSchema = z.object({
-  action: z.enum(['draw', 'annotate', 'explain', 'quiz']),
-  subject: z.string().optional(),
-  content: z.string(),
-  visual_type: z.enum(['graph', 'diagram', 'label']).optional(),
+  action: z
+    .enum(['draw', 'annotate', 'explain', 'quiz', 'erase', 'restyle', 'clear', 'zoom', 'adjust', 'calculus'])
+    .describe(
+      'The type of action: draw (plot graph/diagram), annotate (add labels), explain (provide explanation), quiz (generate practice problem), erase (remove the board object whose id is in meta.target), restyle (recolor the board object whose id is in meta.target; content is the color: blue, red, green, orange, purple or pink), clear (wipe the whole board), zoom (content "in" or "out", "reset" for the default view, "fit" to frame the graphs on the board, or "range" with meta.domain and/or meta.y_range, e.g. "show x from 0 to 50"), adjust (change parameters of a graph on the board: content "set" to jump to the values in meta.parameters or "animate" to sweep to them from meta.parameters[].from; meta.target is the graph id), calculus (overlay on the function in meta.target, an expression in x; the board computes it: content "tangent" draws the tangent at x = meta.at with its slope, "derivative" graphs f\'(x), "integral" shades the area between f and the x-axis over meta.domain with its value, "riemann" animates meta.n rectangles over meta.domain using meta.rule)'
+    ),
+  subject: z
+    .enum(['math', 'physics', 'chemistry', 'general'])
+    .optional()
+    .describe('The subject area of the command'),
+  content: z
+    .string()
+    .describe(
+      'The content to draw/annotate/explain. For graphs, this should be the mathematical expression (e.g., "x^2 + 2x + 1", "3*cos(x)"), in the format meta.curve asks for. For regions, inequalities in x and y separated by commas (e.g., "y > x^2 - 4", "cos(x) < y < sin(x)", "x + y <= 4, x >= 0, y >= 0"). For annotations, this is the label text. For explanations, this is the explanation text.'
+    ),
+  visual_type: z
+    .enum(['graph', 'diagram', 'label', 'region'])
+    .optional()
+    .describe(
+      'The type of visual: graph (mathematical function), diagram (general diagram), label (text annotation), region (shaded area where all inequalities hold; strict inequalities get dashed boundaries; meta.domain limits it to an x-range)'
+    ),
+  meta: tutorActionMetaSchema.optional(),
 });
 
 export const interpretResponseSchema = z.object({
-  actions: z.array(tutorActionSchema),
+  actions: z
+    .array(tutorActionSchema)
+    .describe(
+      'Array of actions to execute. Can contain multiple actions if user requests multiple things (e.g., "draw x² and label the vertex").'
+    ),
 });
 
+// Strict structured outputs have no optional properties, so the model sends
+// null for fields it leaves out; drop them before validating
+function withoutNulls(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== null));
+}
+
+const modelActionSchema = z.preprocess(withoutNulls, tutorActionSchema);
+
+const modelResponseSchema = z.object({
+  actions: z.array(modelActionSchema),
+});
+
+export interface ValidationIssue {
+  path: string; // Offending field, e.g. "actions.0.meta.domain"
+  message: string;
+}
+
+function toValidationIssues(error: z.ZodError, prefix: PropertyKey[] = []): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: [...prefix, ...issue.path].map(String).join('.') || '(root)',
+    message: issue.message,
+  }));
+}
+
+export type ModelOutputResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * Validate one streamed action from the model, reporting the offending fields on failure
+ */
+export function parseModelAction(candidate: unknown, index: number): ModelOutputResult<TutorActionOutput> {
+  const result = modelActionSchema.safeParse(candidate);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: toValidationIssues(result.error, ['actions', index]) };
+}
+
+/**
+ * Validate a full `tutor_action` payload from the model
+ */
+export function parseModelResponse(data: unknown): ModelOutputResult<InterpretResponse> {
+  const result = modelResponseSchema.safeParse(data);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: toValidationIssues(result.error) };
+}
+
 export type InterpretRequest = z.infer<typeof interpretRequestSchema>;
 export type InterpretResponse = z.infer<typeof interpretResponseSchema>;
+export type TutorActionMeta = z.infer<typeof tutorActionMetaSchema>;
+export type TutorActionOutput = z.infer<typeof tutorActionSchema>;
 
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { LanguageTag, SUPPORTED_LANGUAGES } from '../../../shared/languages';
+
+export type { LanguageTag } from '../../../shared/languages';
+
+export const languageSchema = z.enum(
+  Object.keys(SUPPORTED_LANGUAGES) as [LanguageTag, ...LanguageTag[]],
+  { message: `Language must be one of: ${Object.keys(SUPPORTED_LANGUAGES).join(', ')}` }
+);
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { sanitizeTranscript } from '../utils/security';
+import { sessionIdSchema } from './sessionSchema';
+import { languageSchema } from './languageSchema';
 
 // Use same sanitization for topic (validate first, then transform)
 const sanitizeTopicTransform = z
@@ -11,6 +13,8 @@ const sanitizeTopicTransform = z
 export const practiceRequestSchema = z.object({
   topic: sanitizeTopicTransform,
   apiKey: z.string().min(20, 'API key must be at least 20 characters'),
+  sessionId: sessionIdSchema.optional(),
+  language: languageSchema.optional(), // Reply language; English when omitted
 });
 
 export type PracticeRequest = z.infer<typeof practiceRequestSchema>;
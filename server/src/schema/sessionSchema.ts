@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+// Client-generated session identity (UUID or similar opaque token)
+export const sessionIdSchema = z
+  .string()
+  .min(8, 'Session ID must be at least 8 characters')
+  .max(64, 'Session ID cannot exceed 64 characters')
+  .regex(/^[A-Za-z0-9_-]+$/, 'Session ID may only contain letters, digits, "-" and "_"');
+
+export type SessionId = z.infer<typeof sessionIdSchema>;
+
+export const sessionParamsSchema = z.object({
+  id: sessionIdSchema,
+});
+
+export const sessionExportQuerySchema = z.object({
+  format: z.enum(['json', 'markdown']).default('json'),
+});
+
+export type SessionExportQuery = z.infer<typeof sessionExportQuerySchema>;
@@ -1,15 +1,56 @@
-export type TutorAction = 'draw' | 'annotate' | 'explain' | 'quiz';
+export type TutorAction =
+  | 'draw'
+  | 'annotate'
+  | 'explain'
+  | 'quiz'
+  | 'erase'
+  | 'restyle'
+  | 'clear'
+  | 'zoom'
+  | 'adjust'
+  | 'calculus';
 export type Subject = 'math' | 'physics' | 'chemistry' | 'general';
-export type VisualType = 'graph' | 'diagram' | 'label';
+export type VisualType = 'graph' | 'diagram' | 'label' | 'region';
+export type CurveKind = 'function' | 'parametric' | 'polar' | 'implicit';
+
+export type CalculusOperation = 'tangent' | 'derivative' | 'integral' | 'riemann';
+export type RiemannRule = 'left' | 'right' | 'midpoint';
+
+export interface GraphParameter {
+  name: string;
+  value: number;
+  min?: number | null;
+  max?: number | null;
+  from?: number | null; // adjust/animate: start value
+}
+
+export interface TutorActionMeta {
+  domain?: [number, number] | null;
+  y_range?: [number, number] | null;
+  curve?: CurveKind | null;
+  t_range?: [number, number] | null;
+  parameters?: GraphParameter[] | null;
+  at?: number | null; // calculus/tangent: x of the point of tangency
+  rule?: RiemannRule | null; // calculus/riemann
+  n?: number | null; // calculus/riemann: rectangle count
+  points?: { x: number; y: number }[] | null;
+  labels?: string[] | null;
+  target?: string | null;
+}
 
 export interface TutorActionItem {
   action: TutorAction;
   subject?: Subject;
   content: string;
   visual_type?: VisualType;
+  meta?: TutorActionMeta;
 }
 
 export interface TutorResponse {
   actions: TutorActionItem[];
 }
 
+
+// Why a model response could not be used: no tool call, unparseable
+// arguments, or actions that failed schema validation
+export type ModelOutputErrorCode = 'no_tool_call' | 'invalid_json' | 'invalid_actions';
@@ -0,0 +1,47 @@
+import { createActionStreamParser } from '../actionStreamParser.js';
+
+const payload = JSON.stringify({
+  actions: [
+    { action: 'draw', content: 'x^2', visual_type: 'graph', meta: { domain: [-5, 5] } },
+    { action: 'explain', content: 'A "parabola" {opens} up\\n' },
+  ],
+});
+
+describe('actionStreamParser', () => {
+  it('emits each action as soon as its object closes', () => {
+    const parser = createActionStreamParser();
+    const firstEnd = payload.indexOf('}}') + 2;
+
+    expect(parser.push(payload.slice(0, firstEnd - 1))).toEqual([]);
+    expect(parser.push(payload.slice(firstEnd - 1, firstEnd))).toEqual([
+      { action: 'draw', content: 'x^2', visual_type: 'graph', meta: { domain: [-5, 5] } },
+    ]);
+    expect(parser.push(payload.slice(firstEnd))).toEqual([
+      { action: 'explain', content: 'A "parabola" {opens} up\\n' },
+    ]);
+    expect(parser.text()).toBe(payload);
+  });
+
+  it('handles one-character fragments', () => {
+    const parser = createActionStreamParser();
+    const emitted: unknown[] = [];
+    for (const ch of payload) {
+      emitted.push(...parser.push(ch));
+    }
+
+    expect(emitted).toHaveLength(2);
+  });
+
+  it('ignores braces inside strings', () => {
+    const parser = createActionStreamParser();
+    const emitted = parser.push('{"actions":[{"action":"annotate","content":"} ] {"}]}');
+
+    expect(emitted).toEqual([{ action: 'annotate', content: '} ] {' }]);
+  });
+
+  it('does not emit a truncated action', () => {
+    const parser = createActionStreamParser();
+
+    expect(parser.push('{"actions":[{"action":"draw","content":"x')).toEqual([]);
+  });
+});
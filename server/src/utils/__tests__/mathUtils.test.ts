@@ -1,4 +1,4 @@
-import { sampleFunction, findVertex, parseQuadratic } from '../mathUtils.js';
+import { sampleFunction } from '../mathUtils.js';
 
 describe('mathUtils', () => {
   describe('sampleFunction', () => {
@@ -29,62 +29,4 @@ describe('mathUtils', () => {
       expect(points.every((p) => !isNaN(p.y) && isFinite(p.y))).toBe(true);
     });
   });
-
-  describe('findVertex', () => {
-    it('should find vertex of x² + 2x + 1', () => {
-      const vertex = findVertex(1, 2, 1);
-      expect(vertex).not.toBeNull();
-      expect(vertex?.x).toBe(-1);
-      expect(vertex?.y).toBe(0);
-    });
-
-    it('should find vertex of 2x² - 4x + 1', () => {
-      const vertex = findVertex(2, -4, 1);
-      expect(vertex).not.toBeNull();
-      expect(vertex?.x).toBe(1);
-      expect(vertex?.y).toBe(-1);
-    });
-
-    it('should return null for non-quadratic (a=0)', () => {
-      const vertex = findVertex(0, 2, 1);
-      expect(vertex).toBeNull();
-    });
-  });
-
-  describe('parseQuadratic', () => {
-    it('should parse x^2 + 2x + 1', () => {
-      const coeffs = parseQuadratic('x^2 + 2x + 1');
-      expect(coeffs).not.toBeNull();
-      expect(coeffs?.a).toBe(1);
-      expect(coeffs?.b).toBe(2);
-      // Constant term parsing is simplified - may need adjustment
-      expect(coeffs?.c).toBeGreaterThanOrEqual(0);
-    });
-
-    it('should parse 2x^2 - 4x + 1', () => {
-      const coeffs = parseQuadratic('2x^2 - 4x + 1');
-      expect(coeffs).not.toBeNull();
-      expect(coeffs?.a).toBe(2);
-      expect(coeffs?.b).toBe(-4);
-      // Constant term parsing is simplified
-      expect(coeffs?.c).toBeGreaterThanOrEqual(0);
-    });
-
-    it('should handle missing terms', () => {
-      const coeffs = parseQuadratic('x^2 + 1');
-      expect(coeffs).not.toBeNull();
-      expect(coeffs?.a).toBe(1);
-      expect(coeffs?.b).toBe(0);
-      // Constant term should be found
-      expect(coeffs?.c).toBeGreaterThanOrEqual(0);
-    });
-
-    it('should extract coefficients correctly', () => {
-      const coeffs = parseQuadratic('3x^2 + 5x - 2');
-      expect(coeffs).not.toBeNull();
-      expect(coeffs?.a).toBe(3);
-      expect(coeffs?.b).toBe(5);
-    });
-  });
 });
-
@@ -0,0 +1,292 @@
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  createMemorySessionStore,
+  SessionStore,
+  SessionStoreOptions,
+} from '../sessionStore.js';
+import { createFileSessionStore } from '../fileSessionStore.js';
+
+const TTL_MS = 60_000;
+
+function makeClock(start = 1_700_000_000_000) {
+  let current = start;
+  return {
+    now: () => current,
+    advance: (ms: number) => {
+      current += ms;
+    },
+  };
+}
+
+const tmpDirs: string[] = [];
+function makeTmpDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'voiceboard-sessions-'));
+  tmpDirs.push(dir);
+  return dir;
+}
+
+afterAll(() => {
+  for (const dir of tmpDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+const adapters: Array<[string, (options: SessionStoreOptions) => SessionStore]> = [
+  ['memory', (options) => createMemorySessionStore(options)],
+  ['file', (options) => createFileSessionStore(makeTmpDir(), options)],
+];
+
+describe.each(adapters)('%s session store', (_name, createStore) => {
+  it('creates sessions on first use and keeps history in order', async () => {
+    const store = createStore({ ttlMs: TTL_MS, maxMessages: 20 });
+
+    expect(await store.getHistory('s1')).toEqual([]);
+    await store.addMessage('s1', 'user', 'Graph x^2');
+    await store.addMessage('s1', 'assistant', 'draw: x^2');
+
+    expect(await store.getHistory('s1')).toEqual([
+      { role: 'user', content: 'Graph x^2' },
+      { role: 'assistant', content: 'draw: x^2' },
+    ]);
+    expect((await store.getSession('s1')).sessionId).toBe('s1');
+    expect(await store.getHistory('s2')).toEqual([]);
+  });
+
+  it('caps history at maxMessages', async () => {
+    const store = createStore({ ttlMs: TTL_MS, maxMessages: 3 });
+    for (let i = 0; i < 10; i++) {
+      await store.addMessage('s1', 'user', `m${i}`);
+    }
+
+    expect((await store.getHistory('s1')).map((m) => m.content)).toEqual(['m7', 'm8', 'm9']);
+  });
+
+  it('returns a snapshot that later appends do not change', async () => {
+    const store = createStore({ ttlMs: TTL_MS, maxMessages: 20 });
+    await store.addMessage('s1', 'user', 'first');
+    const history = await store.getHistory('s1');
+    await store.addMessage('s1', 'user', 'second');
+
+    expect(history).toHaveLength(1);
+  });
+
+  it('finds sessions without creating or refreshing them', async () => {
+    const clock = makeClock();
+    const store = createStore({ ttlMs: TTL_MS, maxMessages: 20, now: clock.now });
+
+    expect(await store.findSession('missing')).toBeNull();
+    expect(await store.findSession('missing')).toBeNull();
+
+    await store.addMessage('s1', 'user', 'hello');
+    expect((await store.findSession('s1'))?.history).toEqual([{ role: 'user', content: 'hello' }]);
+
+    clock.advance(TTL_MS / 2);
+    await store.findSession('s1');
+    clock.advance(TTL_MS / 2 + 1);
+    expect(await store.findSession('s1')).toBeNull();
+  });
+
+  it('clears a session', async () => {
+    const store = createStore({ ttlMs: TTL_MS, maxMessages: 20 });
+    await store.addMessage('s1', 'user', 'hello');
+    await store.clearSession('s1');
+
+    expect(await store.getHistory('s1')).toEqual([]);
+  });
+
+  it('expires idle sessions after the TTL', async () => {
+    const clock = makeClock();
+    const store = createStore({ ttlMs: TTL_MS, maxMessages: 20, now: clock.now });
+    await store.addMessage('idle', 'user', 'old');
+    await store.addMessage('active', 'user', 'kept');
+
+    clock.advance(TTL_MS / 2);
+    await store.getSession('active'); // Activity refreshes the TTL
+    clock.advance(TTL_MS / 2 + 1);
+
+    expect(await store.prune()).toBe(1);
+    expect(await store.getHistory('idle')).toEqual([]);
+    expect(await store.getHistory('active')).toEqual([{ role: 'user', content: 'kept' }]);
+  });
+
+  it('treats an expired but unpruned session as new', async () => {
+    const clock = makeClock();
+    const store = createStore({ ttlMs: TTL_MS, maxMessages: 20, now: clock.now });
+    await store.addMessage('s1', 'user', 'old');
+    clock.advance(TTL_MS + 1);
+
+    expect(await store.getHistory('s1')).toEqual([]);
+  });
+
+  it('keeps every message from concurrent writers', async () => {
+    const store = createStore({ ttlMs: TTL_MS, maxMessages: 500 });
+    await Promise.all(Array.from({ length: 50 }, (_, i) => store.addMessage('shared', 'user', `m${i}`)));
+
+    const contents = (await store.getHistory('shared')).map((m) => m.content);
+    expect(contents).toHaveLength(50);
+    expect(new Set(contents).size).toBe(50);
+  });
+});
+
+describe('file session store', () => {
+  it('persists across store instances (restart or second server)', async () => {
+    const dir = makeTmpDir();
+    const first = createFileSessionStore(dir, { ttlMs: TTL_MS, maxMessages: 20 });
+    const second = createFileSessionStore(dir, { ttlMs: TTL_MS, maxMessages: 20 });
+
+    await first.addMessage('s1', 'user', 'from first');
+    await second.addMessage('s1', 'assistant', 'from second');
+    await first.addMessage('s1', 'user', 'from first again');
+
+    const restarted = createFileSessionStore(dir, { ttlMs: TTL_MS, maxMessages: 20 });
+    expect((await restarted.getHistory('s1')).map((m) => m.content)).toEqual([
+      'from first',
+      'from second',
+      'from first again',
+    ]);
+  });
+
+  it('compacts the log to the cap', async () => {
+    const dir = makeTmpDir();
+    const store = createFileSessionStore(dir, { ttlMs: TTL_MS, maxMessages: 5 });
+    for (let i = 0; i < 12; i++) {
+      await store.addMessage('s1', 'user', `m${i}`);
+    }
+
+    const lines = fs.readFileSync(path.join(dir, 's1.jsonl'), 'utf8').trim().split('\n');
+    expect(lines.length).toBeLessThan(10);
+    expect((await store.getHistory('s1')).map((m) => m.content)).toEqual(['m7', 'm8', 'm9', 'm10', 'm11']);
+  });
+
+  it('keeps appends from two instances interleaving across compactions', async () => {
+    const dir = makeTmpDir();
+    const options = { ttlMs: TTL_MS, maxMessages: 5 };
+    const [first, second] = [createFileSessionStore(dir, options), createFileSessionStore(dir, options)];
+
+    await Promise.all(
+      Array.from({ length: 30 }, (_, i) => (i % 2 ? second : first).addMessage('shared', 'user', `m${i}`))
+    );
+
+    // 30 appends with a cap of 5 compact to exactly 5 lines; a lost append leaves a different count
+    const lines = fs.readFileSync(path.join(dir, 'shared.jsonl'), 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(5);
+    expect(fs.readdirSync(dir)).toEqual(['shared.jsonl']); // No temp or lock files left behind
+  });
+
+  it('keeps appends from two processes interleaving across compactions', async () => {
+    const dir = makeTmpDir();
+    const storeModule = path.resolve('src/utils/fileSessionStore.ts');
+
+    // Each writer reports "ready" once loaded and waits for "go" on stdin, so
+    // both are writing at the same time however slowly they start
+    const writers = ['a', 'b'].map((name) => {
+      const script = `
+        const { createFileSessionStore } = await import(${JSON.stringify(storeModule)});
+        const store = createFileSessionStore(${JSON.stringify(dir)}, { ttlMs: 60000, maxMessages: 20 });
+        process.stdout.write('ready\\n');
+        await new Promise((resolve) => process.stdin.once('data', resolve));
+        for (let i = 0; i < 200; i++) await store.addMessage('shared', 'user', '${name}-' + i);
+      `;
+      const child = spawn(process.execPath, ['--import', 'tsx', '--input-type=module', '-e', script], {
+        env: { ...process.env, LOG_LEVEL: 'silent' },
+      });
+      const ready = new Promise<void>((resolve, reject) => {
+        child.stdout.once('data', () => resolve());
+        child.once('exit', (code) => reject(new Error(`Writer ${name} exited early (${code})`)));
+      });
+      const done = new Promise<void>((resolve, reject) => {
+        child.once('exit', (code) => (code === 0 ? resolve() : reject(new Error(`Writer ${name} failed (${code})`))));
+      });
+      return { child, ready, done };
+    });
+
+    await Promise.all(writers.map((writer) => writer.ready));
+    for (const { child } of writers) child.stdin.end('go\n');
+    await Promise.all(writers.map((writer) => writer.done));
+
+    // 400 appends with a cap of 20 compact to exactly 20 lines
+    const lines = fs.readFileSync(path.join(dir, 'shared.jsonl'), 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(20);
+    for (const name of ['a', 'b']) {
+      const indexes = lines
+        .map((line) => JSON.parse(line).content as string)
+        .filter((content) => content.startsWith(`${name}-`))
+        .map((content) => Number(content.slice(2)));
+      expect(indexes).toEqual([...indexes].sort((x, y) => x - y));
+    }
+    expect(fs.readdirSync(dir)).toEqual(['shared.jsonl']);
+  }, 60_000);
+
+  it('waits for a held lock without blocking the event loop', async () => {
+    const dir = makeTmpDir();
+    const store = createFileSessionStore(dir, { ttlMs: TTL_MS, maxMessages: 20 });
+    const lock = path.join(dir, 's1.jsonl.lock');
+    fs.writeFileSync(lock, 'other-instance');
+
+    let written = false;
+    const append = store.addMessage('s1', 'user', 'after the lock').then(() => {
+      written = true;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50)); // Timers still run while it waits
+    expect(written).toBe(false);
+
+    fs.rmSync(lock);
+    await append;
+    expect(await store.getHistory('s1')).toEqual([{ role: 'user', content: 'after the lock' }]);
+  });
+
+  it('takes over a stale lock left by a crash', async () => {
+    const dir = makeTmpDir();
+    const store = createFileSessionStore(dir, { ttlMs: TTL_MS, maxMessages: 20 });
+    const lock = path.join(dir, 's1.jsonl.lock');
+    fs.writeFileSync(lock, 'crashed-instance');
+    const longAgo = (Date.now() - 60_000) / 1000;
+    fs.utimesSync(lock, longAgo, longAgo);
+
+    await Promise.all([store.addMessage('s1', 'user', 'first'), store.addMessage('s1', 'user', 'second')]);
+
+    expect((await store.getHistory('s1')).map((m) => m.content).sort()).toEqual(['first', 'second']);
+    expect(fs.readdirSync(dir)).toEqual(['s1.jsonl']);
+  });
+
+  it('prunes under the session lock and sweeps crash leftovers', async () => {
+    const clock = makeClock(Date.now());
+    const dir = makeTmpDir();
+    const store = createFileSessionStore(dir, { ttlMs: TTL_MS, maxMessages: 20, now: clock.now });
+    await store.addMessage('idle', 'user', 'old');
+    clock.advance(TTL_MS + 1);
+
+    const longAgo = (Date.now() - 60_000) / 1000;
+    for (const leftover of ['gone.jsonl.lock', 'gone.jsonl.4242.tmp', 'gone.jsonl.lock.0a1b-2c3d.stale']) {
+      fs.writeFileSync(path.join(dir, leftover), 'crashed-instance');
+      fs.utimesSync(path.join(dir, leftover), longAgo, longAgo);
+    }
+    fs.writeFileSync(path.join(dir, 'busy.jsonl.lock'), 'live-instance'); // Fresh: another instance is writing
+
+    const lock = path.join(dir, 'idle.jsonl.lock');
+    fs.writeFileSync(lock, 'other-instance');
+    let pruned: number | undefined;
+    const pruning = store.prune().then((count) => {
+      pruned = count;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(pruned).toBeUndefined(); // Waiting for the writer on "idle"
+
+    fs.rmSync(lock);
+    await pruning;
+    expect(pruned).toBe(1);
+    expect(fs.readdirSync(dir)).toEqual(['busy.jsonl.lock']);
+  });
+
+  it('skips a torn line left by a crash', async () => {
+    const dir = makeTmpDir();
+    const store = createFileSessionStore(dir, { ttlMs: TTL_MS, maxMessages: 20 });
+    await store.addMessage('s1', 'user', 'ok');
+    fs.appendFileSync(path.join(dir, 's1.jsonl'), '{"role":"user","con');
+
+    expect(await store.getHistory('s1')).toEqual([{ role: 'user', content: 'ok' }]);
+  });
+});
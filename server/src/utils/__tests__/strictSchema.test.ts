@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { zodFunction } from 'openai/helpers/zod';
+import { toStrictSchema } from '../strictSchema.js';
+import { interpretResponseSchema } from '../../schema/interpretSchema.js';
+
+describe('toStrictSchema', () => {
+  it('makes optional fields required and nullable', () => {
+    const strict = toStrictSchema(z.object({ name: z.string(), note: z.string().optional() }));
+
+    expect(z.toJSONSchema(strict)).toMatchObject({
+      required: ['name', 'note'],
+      properties: { note: { anyOf: [{ type: 'string' }, { type: 'null' }] } },
+    });
+  });
+
+  it('does not double-wrap nullable optional fields', () => {
+    const strict = toStrictSchema(z.object({ target: z.string().nullable().optional() }));
+
+    expect(strict.safeParse({ target: null }).success).toBe(true);
+    expect(strict.safeParse({}).success).toBe(false);
+  });
+
+  it('turns tuples into arrays and keeps descriptions', () => {
+    const strict = toStrictSchema(
+      z.object({ domain: z.tuple([z.number(), z.number()]).optional().describe('x-range') })
+    );
+
+    const json = z.toJSONSchema(strict) as any;
+    expect(json.properties.domain.description).toBe('x-range');
+    expect(JSON.stringify(json)).not.toContain('prefixItems');
+  });
+
+  it('produces a tool schema the OpenAI strict mode accepts', () => {
+    const tool = zodFunction({ name: 'tutor_action', parameters: toStrictSchema(interpretResponseSchema) });
+    const action = (tool.function.parameters as any).properties.actions.items;
+
+    expect(tool.function.strict).toBe(true);
+    expect(action.required).toEqual(['action', 'subject', 'content', 'visual_type', 'meta']);
+    expect(action.additionalProperties).toBe(false);
+    expect(action.properties.action.enum).toContain('erase');
+  });
+});
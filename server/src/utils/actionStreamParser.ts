@@ -0,0 +1,69 @@
+/**
+ * Incremental parser for streamed `tutor_action` arguments.
+ *
+ * The model streams `{"actions":[{...},{...}]}` in arbitrary fragments. Each
+ * call to `push` returns the action objects that were completed by that
+ * fragment, so they can be validated and sent before the rest arrives.
+ */
+export interface ActionStreamParser {
+  push(fragment: string): unknown[];
+  /** Full text received so far */
+  text(): string;
+}
+
+const ACTION_DEPTH = 3; // { "actions": [ { ... } ] }
+
+export function createActionStreamParser(): ActionStreamParser {
+  let buffer = '';
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let actionStart = -1;
+
+  const push = (fragment: string): unknown[] => {
+    const completed: unknown[] = [];
+    const offset = buffer.length;
+    buffer += fragment;
+
+    for (let i = offset; i < buffer.length; i++) {
+      const ch = buffer[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (ch === '\\') {
+          escaped = true;
+        } else if (ch === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+        if (ch === '{' && depth === ACTION_DEPTH) {
+          actionStart = i;
+        }
+      } else if (ch === '}' || ch === ']') {
+        if (ch === '}' && depth === ACTION_DEPTH && actionStart !== -1) {
+          try {
+            completed.push(JSON.parse(buffer.slice(actionStart, i + 1)));
+          } catch {
+            // Malformed object - skip it and keep streaming the rest
+          }
+          actionStart = -1;
+        }
+        depth--;
+      }
+    }
+
+    return completed;
+  };
+
+  return {
+    push,
+    text: () => buffer,
+  };
+}
@@ -0,0 +1,259 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { logger } from './logger';
+import { Message, Session, SessionStore, SessionStoreOptions } from './sessionStore';
+
+/**
+ * Append-only JSON Lines session store. Each session is one `<id>.jsonl` file
+ * with a message per line; the file's mtime is the last-activity timestamp.
+ *
+ * Appends are single `appendFile` writes, so several server instances can
+ * share one directory without interleaving partial lines. Files are compacted
+ * to the history cap once they reach twice its size. Writes to a session take
+ * its `<id>.jsonl.lock` file, so no instance appends between another's read
+ * and rename during compaction. Waiting for the lock backs off on a timer, so
+ * it never blocks the event loop.
+ */
+
+// A lock, temp file or moved lock older than this was left by a crashed instance
+const LOCK_STALE_MS = 5_000;
+const LOCK_RETRY_MS = 2; // First back-off, doubled up to LOCK_MAX_RETRY_MS
+const LOCK_MAX_RETRY_MS = 50;
+
+// Leftovers of a crash: `<id>.jsonl.<pid>.tmp` and `<id>.jsonl.lock.<token>.stale`
+const LEFTOVER_PATTERN = /\.jsonl\.(?:\d+\.tmp|lock\.[\w-]+\.stale)$/;
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException).code;
+}
+
+// Read a lock's owner token and age, or null once it is gone
+async function readLock(lock: string): Promise<{ token: string; ageMs: number } | null> {
+  try {
+    const [token, stat] = await Promise.all([fs.promises.readFile(lock, 'utf8'), fs.promises.stat(lock)]);
+    return { token, ageMs: Date.now() - stat.mtimeMs };
+  } catch (error) {
+    if (errorCode(error) === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Remove a lock whose owner crashed. Renaming is atomic, so of two waiters
+ * that saw the same stale lock only one moves it; a waiter that moved a
+ * fresh lock by mistake (taken between its check and its rename) links it
+ * back, which fails rather than replace a lock someone took since.
+ */
+async function takeOverStaleLock(lock: string, staleToken: string): Promise<void> {
+  const moved = `${lock}.${randomUUID()}.stale`;
+  try {
+    await fs.promises.rename(lock, moved);
+  } catch (error) {
+    if (errorCode(error) === 'ENOENT') return; // Another waiter got there first
+    throw error;
+  }
+
+  const token = await fs.promises.readFile(moved, 'utf8').catch(() => staleToken);
+  if (token !== staleToken) {
+    await fs.promises.link(moved, lock).catch(() => undefined);
+  } else {
+    logger.warn({ lock }, 'Took over a stale session lock');
+  }
+  await fs.promises.rm(moved, { force: true });
+}
+
+export function createFileSessionStore(
+  directory: string,
+  options: SessionStoreOptions
+): SessionStore {
+  const now = options.now ?? Date.now;
+  fs.mkdirSync(directory, { recursive: true });
+
+  const fileFor = (sessionId: string) =>
+    path.join(directory, `${encodeURIComponent(sessionId)}.jsonl`);
+
+  const lastActivity = async (file: string): Promise<number | null> => {
+    try {
+      return (await fs.promises.stat(file)).mtimeMs;
+    } catch {
+      return null; // Missing file
+    }
+  };
+
+  const touch = async (file: string) => {
+    const seconds = now() / 1000;
+    await fs.promises.utimes(file, seconds, seconds);
+  };
+
+  const readMessages = async (file: string): Promise<Message[]> => {
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(file, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const messages: Message[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line) continue;
+      try {
+        messages.push(JSON.parse(line));
+      } catch {
+        // Torn or corrupt line (e.g. crash mid-write) - skip it
+        logger.warn({ file }, 'Skipped unreadable session line');
+      }
+    }
+    return messages;
+  };
+
+  // Run fn holding the session's lock file, backing off while another holder has it
+  const lockFile = async <T>(file: string, fn: () => Promise<T>): Promise<T> => {
+    const lock = `${file}.lock`;
+    const token = `${process.pid}-${randomUUID()}`;
+    for (let delay = LOCK_RETRY_MS; ; delay = Math.min(delay * 2, LOCK_MAX_RETRY_MS)) {
+      try {
+        await fs.promises.writeFile(lock, token, { flag: 'wx' });
+        break;
+      } catch (error) {
+        if (errorCode(error) !== 'EEXIST') throw error;
+      }
+      const held = await readLock(lock);
+      if (held && held.ageMs > LOCK_STALE_MS) {
+        await takeOverStaleLock(lock, held.token);
+      } else if (held) {
+        await sleep(delay);
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      // Only remove the lock if it is still ours (a stalled holder's may have been taken over)
+      const held = await readLock(lock).catch(() => null);
+      if (held?.token === token) {
+        await fs.promises.rm(lock, { force: true });
+      }
+    }
+  };
+
+  // Writes to one session from this instance queue up rather than poll the lock file
+  const queues = new Map<string, Promise<void>>();
+  const withLock = <T>(file: string, fn: () => Promise<T>): Promise<T> => {
+    const run = () => lockFile(file, fn);
+    const result = (queues.get(file) ?? Promise.resolve()).then(run);
+    const settled = result.then(
+      () => undefined,
+      () => undefined
+    );
+    queues.set(file, settled);
+    settled.then(() => {
+      if (queues.get(file) === settled) queues.delete(file);
+    });
+    return result;
+  };
+
+  // Ensure the session file exists and is not expired; returns its path. Call holding the lock
+  const openSession = async (sessionId: string): Promise<string> => {
+    const file = fileFor(sessionId);
+    const ts = await lastActivity(file);
+    if (ts === null || now() - ts > options.ttlMs) {
+      await fs.promises.writeFile(file, '');
+      logger.debug({ sessionId }, 'Created new session');
+    }
+    await touch(file);
+    return file;
+  };
+
+  const getSession = async (sessionId: string): Promise<Session> => {
+    const file = await withLock(fileFor(sessionId), () => openSession(sessionId));
+    return {
+      sessionId,
+      ts: now(),
+      history: (await readMessages(file)).slice(-options.maxMessages),
+    };
+  };
+
+  // Remove a crash leftover once it is old enough that no live instance is using it
+  const sweepLeftover = async (file: string) => {
+    const modified = await lastActivity(file);
+    if (modified === null || Date.now() - modified <= LOCK_STALE_MS) return;
+    if (file.endsWith('.lock')) {
+      const held = await readLock(file);
+      if (held && held.ageMs > LOCK_STALE_MS) await takeOverStaleLock(file, held.token);
+    } else {
+      await fs.promises.rm(file, { force: true });
+    }
+  };
+
+  return {
+    getSession,
+
+    async findSession(sessionId) {
+      const file = fileFor(sessionId);
+      const ts = await lastActivity(file);
+      if (ts === null || now() - ts > options.ttlMs) {
+        return null;
+      }
+      return {
+        sessionId,
+        ts,
+        history: (await readMessages(file)).slice(-options.maxMessages),
+      };
+    },
+
+    async addMessage(sessionId, role, content) {
+      await withLock(fileFor(sessionId), async () => {
+        const file = await openSession(sessionId);
+        await fs.promises.appendFile(file, JSON.stringify({ role, content }) + '\n');
+        await touch(file);
+
+        // Compact once the log holds twice the cap (write-then-rename is atomic)
+        const messages = await readMessages(file);
+        if (messages.length >= options.maxMessages * 2) {
+          const tmp = `${file}.${process.pid}.tmp`;
+          const kept = messages.slice(-options.maxMessages);
+          await fs.promises.writeFile(tmp, kept.map((m) => JSON.stringify(m) + '\n').join(''));
+          await fs.promises.rename(tmp, file);
+          await touch(file);
+        }
+      });
+    },
+
+    async getHistory(sessionId) {
+      return (await getSession(sessionId)).history;
+    },
+
+    async clearSession(sessionId) {
+      const file = fileFor(sessionId);
+      await withLock(file, () => fs.promises.rm(file, { force: true }));
+    },
+
+    async prune() {
+      let pruned = 0;
+      for (const name of await fs.promises.readdir(directory)) {
+        const file = path.join(directory, name);
+        if (name.endsWith('.jsonl.lock') || LEFTOVER_PATTERN.test(name)) {
+          await sweepLeftover(file);
+          continue;
+        }
+        if (!name.endsWith('.jsonl')) continue;
+
+        // Checked again under the lock: another instance may have appended since
+        const expired = async () => {
+          const ts = await lastActivity(file);
+          return ts !== null && now() - ts > options.ttlMs;
+        };
+        if (!(await expired())) continue;
+        const removed = await withLock(file, async () => {
+          if (!(await expired())) return false;
+          await fs.promises.rm(file, { force: true });
+          return true;
+        });
+        if (removed) pruned++;
+      }
+      return pruned;
+    },
+  };
+}
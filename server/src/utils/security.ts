@@ -1,3 +1,5 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+
 /**
  * Sanitize and validate input strings
  */
@@ -29,30 +31,173 @@ export function isASCIIPrintable(str: string): boolean {
   return true;
 }
 
+// Control characters (except tab/newline/CR), lone surrogates, unassigned code
+// points, zero-width characters and bidi overrides/isolates. The zero-width
+// non-joiner and joiner (U+200C, U+200D) are allowed: Persian, Indic scripts
+// and emoji sequences need them
+const UNSAFE_CHARACTERS =
+  /(?![\t\n\r])[\p{Cc}\p{Cs}\p{Cn}\u061C\u200B\u200E\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/u;
+
+/**
+ * Check a string is printable Unicode text. Unlike isASCIIPrintable this
+ * accepts any script plus symbols like "x²" and "π", but rejects characters
+ * that are invisible or can reorder how text is displayed
+ */
+export function isSafeText(str: string): boolean {
+  return !UNSAFE_CHARACTERS.test(str);
+}
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4',
+  '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁻': '-',
+};
+
+// Symbols mapped to mathjs-friendly text; a following letter or digit gets a
+// space so "πx" does not become the identifier "pix". π and θ inside a Greek
+// word are letters, not constants, and stay as they are
+const MATH_SYMBOLS: [RegExp, string][] = [
+  [/(?<!\p{Script=Greek})π(?=[\p{L}\d])(?!\p{Script=Greek})/gu, 'pi '],
+  [/(?<!\p{Script=Greek})π(?!\p{Script=Greek})/gu, 'pi'],
+  [/(?<!\p{Script=Greek})θ(?=[\p{L}\d])(?!\p{Script=Greek})/gu, 'theta '],
+  [/(?<!\p{Script=Greek})θ(?!\p{Script=Greek})/gu, 'theta'],
+  [/×|·/g, '*'],
+  [/÷/g, '/'],
+  [/−/g, '-'],
+];
+
+/**
+ * Normalize user text before validation: math symbols to mathjs syntax
+ * ("x²" -> "x^2", "√(x+1)" -> "sqrt(x+1)", "2π" -> "2pi"), then NFKC so
+ * compatibility forms (full-width digits, ligatures) become plain text.
+ * Superscripts are mapped first because NFKC would turn "x²" into "x2".
+ */
+export function normalizeText(str: string): string {
+  let normalized = str.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, (run) => {
+    const exponent = [...run].map((char) => SUPERSCRIPTS[char]).join('');
+    return exponent.startsWith('-') ? `^(${exponent})` : `^${exponent}`;
+  });
+
+  normalized = normalized.replace(/√\s*(\([^()]*\)|[\p{L}\d.]+)?/gu, (_, operand?: string) => {
+    if (!operand) return 'sqrt';
+    return operand.startsWith('(') ? `sqrt${operand}` : `sqrt(${operand})`;
+  });
+
+  for (const [pattern, replacement] of MATH_SYMBOLS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  return normalized.normalize('NFKC');
+}
+
+// Request fields that carry math the student typed or spoke. Ids, colors,
+// labels and other prose are left as sent
+const MATH_FIELDS = new Set(['transcript', 'expression', 'concept', 'topic', 'prompt', 'studentAnswer']);
+
 /**
- * Validate request body contains only ASCII printable strings
+ * Normalize the math-bearing strings in a request body, recursing into nested
+ * objects and arrays (array items count as the field that holds them)
  */
-export function validateASCIIPayload(body: any): { valid: boolean; error?: string } {
+export function normalizePayload<T>(value: T, key?: string): T {
+  if (typeof value === 'string') {
+    return (key !== undefined && MATH_FIELDS.has(key) ? normalizeText(value) : value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizePayload(item, key)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, normalizePayload(v, k)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Extract the API key from an `Authorization: Bearer <key>` header
+ */
+export function extractBearerToken(header: string | undefined): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const match = header.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : undefined;
+}
+
+// Hashed so tokens of different lengths still compare in constant time
+function sameToken(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Check an `Authorization: Bearer <token>` header against the TEACHER_TOKEN
+ * and ADMIN_TOKEN credentials. Nothing is accepted while neither is set
+ */
+export function isStaffAuthorization(
+  header: string | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): boolean {
+  const token = extractBearerToken(header);
+  if (!token) {
+    return false;
+  }
+  return [env.TEACHER_TOKEN, env.ADMIN_TOKEN].some(
+    (credential) => !!credential && sameToken(token, credential)
+  );
+}
+
+/**
+ * Resolve the API key for a request: the Authorization header wins over the
+ * legacy `apiKey` body field, so keys never need to travel in URLs or bodies
+ */
+export function resolveApiKey(req: {
+  headers: { authorization?: string };
+  body?: any;
+}): string | undefined {
+  return extractBearerToken(req.headers.authorization) ?? req.body?.apiKey;
+}
+
+/**
+ * Validate an Authorization header carrying the API key. Held to the same
+ * rule as the `apiKey` body field: skipped by the payload check, but it must
+ * be a single printable ASCII Bearer token
+ */
+export function validateAuthorizationHeader(
+  header: string | undefined
+): { valid: boolean; error?: string } {
+  if (header === undefined) {
+    return { valid: true };
+  }
+  if (!isASCIIPrintable(header) || !extractBearerToken(header)) {
+    return { valid: false, error: 'Authorization header must be "Bearer <apiKey>"' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate request body contains only printable Unicode strings
+ */
+export function validateTextPayload(body: any): { valid: boolean; error?: string } {
   if (typeof body !== 'object' || body === null) {
     return { valid: false, error: 'Invalid payload type' };
   }
 
   for (const [key, value] of Object.entries(body)) {
-    // Skip apiKey field (it's validated separately)
+    // Skip apiKey field (it's validated separately, like the Authorization header)
     if (key === 'apiKey') {
       continue;
     }
 
     if (typeof value === 'string') {
-      if (!isASCIIPrintable(value)) {
+      if (!isSafeText(value)) {
         return {
           valid: false,
-          error: `Field "${key}" contains non-ASCII or binary data`,
+          error: `Field "${key}" contains control, zero-width or bidi-override characters`,
         };
       }
     } else if (typeof value === 'object' && value !== null) {
       // Recursively check nested objects
-      const nested = validateASCIIPayload(value);
+      const nested = validateTextPayload(value);
       if (!nested.valid) {
         return nested;
       }
@@ -62,3 +207,36 @@ export function validateASCIIPayload(body: any): { valid: boolean; error?: strin
   return { valid: true };
 }
 
+
+/**
+ * Validate a POST request: printable Unicode body plus a well-formed Authorization header
+ */
+export function validateRequestPayload(
+  body: any,
+  authorization: string | undefined
+): { valid: boolean; error?: string } {
+  const headerValidation = validateAuthorizationHeader(authorization);
+  if (!headerValidation.valid) {
+    return headerValidation;
+  }
+  if (body && typeof body === 'object') {
+    return validateTextPayload(body);
+  }
+  return { valid: true };
+}
+
+/**
+ * Normalize then validate a request payload: the one path for POST bodies and
+ * the query of the GET stream endpoint
+ */
+export function preparePayload<T>(
+  payload: T,
+  authorization: string | undefined
+): { valid: true; payload: T } | { valid: false; error: string } {
+  const normalized = payload && typeof payload === 'object' ? normalizePayload(payload) : payload;
+  const validation = validateRequestPayload(normalized, authorization);
+  if (!validation.valid) {
+    return { valid: false, error: validation.error ?? 'Invalid payload' };
+  }
+  return { valid: true, payload: normalized };
+}
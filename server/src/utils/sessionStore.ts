@@ -1,96 +1,192 @@
 import { logger } from './logger';
+import { createFileSessionStore } from './fileSessionStore';
 
-interface Message {
+export interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
 }
 
-interface Session {
+export interface Session {
   sessionId: string;
   ts: number; // Last activity timestamp
   history: Message[];
 }
 
-// In-memory session store
-const sessions = new Map<string, Session>();
+export interface SessionStoreOptions {
+  ttlMs: number; // Idle time before a session expires
+  maxMessages: number; // History cap per session
+  now?: () => number; // Clock override for tests
+}
+
+/**
+ * Storage backend for tutoring sessions. Operations return promises so a
+ * shared backend can wait for another instance without blocking requests.
+ */
+export interface SessionStore {
+  getSession(sessionId: string): Promise<Session>;
+  /** Look up a live session without creating it or refreshing its TTL */
+  findSession(sessionId: string): Promise<Session | null>;
+  addMessage(sessionId: string, role: Message['role'], content: string): Promise<void>;
+  getHistory(sessionId: string): Promise<Message[]>;
+  clearSession(sessionId: string): Promise<void>;
+  /** Remove expired sessions, returning how many were pruned */
+  prune(): Promise<number>;
+}
+
+/**
+ * In-process store (default). Lost on restart and not shared between instances.
+ */
+export function createMemorySessionStore(options: SessionStoreOptions): SessionStore {
+  const sessions = new Map<string, Session>();
+  const now = options.now ?? Date.now;
+
+  const isExpired = (session: Session) => now() - session.ts > options.ttlMs;
+
+  const getSession = (sessionId: string): Session => {
+    const existing = sessions.get(sessionId);
+    if (existing && !isExpired(existing)) {
+      existing.ts = now();
+      return existing;
+    }
+
+    const newSession: Session = {
+      sessionId,
+      ts: now(),
+      history: [],
+    };
+    sessions.set(sessionId, newSession);
+    logger.debug({ sessionId }, 'Created new session');
+    return newSession;
+  };
+
+  return {
+    async getSession(sessionId) {
+      return getSession(sessionId);
+    },
+
+    async findSession(sessionId) {
+      const existing = sessions.get(sessionId);
+      if (!existing || isExpired(existing)) {
+        return null;
+      }
+      return { ...existing, history: [...existing.history] };
+    },
+
+    async addMessage(sessionId, role, content) {
+      const session = getSession(sessionId);
+      session.history.push({ role, content });
+
+      // Keep only the last N messages to prevent memory bloat
+      if (session.history.length > options.maxMessages) {
+        session.history = session.history.slice(-options.maxMessages);
+      }
+    },
+
+    async getHistory(sessionId) {
+      // Copy so callers holding the history don't see later appends
+      return [...getSession(sessionId).history];
+    },
+
+    async clearSession(sessionId) {
+      sessions.delete(sessionId);
+    },
+
+    async prune() {
+      let pruned = 0;
+      for (const [sessionId, session] of sessions.entries()) {
+        if (isExpired(session)) {
+          sessions.delete(sessionId);
+          pruned++;
+        }
+      }
+      return pruned;
+    },
+  };
+}
+
+/**
+ * Build the store selected by environment:
+ * SESSION_STORE=memory|file, SESSION_DIR, SESSION_TTL_MS, SESSION_MAX_MESSAGES
+ */
+export function createSessionStoreFromEnv(env: NodeJS.ProcessEnv = process.env): SessionStore {
+  const options: SessionStoreOptions = {
+    ttlMs: Number(env.SESSION_TTL_MS) || 15 * 60 * 1000, // 15 minutes
+    maxMessages: Number(env.SESSION_MAX_MESSAGES) || 20,
+  };
+
+  const kind = (env.SESSION_STORE || 'memory').toLowerCase();
+  if (kind === 'file') {
+    const directory = env.SESSION_DIR || '.sessions';
+    logger.info({ directory, ...options }, 'Using file session store');
+    return createFileSessionStore(directory, options);
+  }
+  if (kind !== 'memory') {
+    logger.warn({ kind }, 'Unknown SESSION_STORE, falling back to memory');
+  }
+  return createMemorySessionStore(options);
+}
+
+const store = createSessionStoreFromEnv();
 
-// Prune sessions older than 15 minutes
 const PRUNE_INTERVAL_MS = 60_000; // Check every minute
-const SESSION_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes
 
 /**
  * Get or create a session
  */
-export function getSession(sessionId: string): Session {
-  const existing = sessions.get(sessionId);
-  if (existing) {
-    existing.ts = Date.now();
-    return existing;
-  }
+export function getSession(sessionId: string): Promise<Session> {
+  return store.getSession(sessionId);
+}
 
-  const newSession: Session = {
-    sessionId,
-    ts: Date.now(),
-    history: [],
-  };
-  sessions.set(sessionId, newSession);
-  logger.debug({ sessionId }, 'Created new session');
-  return newSession;
+/**
+ * Find an existing session without creating it
+ */
+export function findSession(sessionId: string): Promise<Session | null> {
+  return store.findSession(sessionId);
 }
 
 /**
  * Add a message to session history
  */
-export function addMessage(sessionId: string, role: 'user' | 'assistant' | 'system', content: string): void {
-  const session = getSession(sessionId);
-  session.history.push({ role, content });
-  
-  // Keep only last 20 messages to prevent memory bloat
-  if (session.history.length > 20) {
-    session.history = session.history.slice(-20);
-  }
-  
+export async function addMessage(
+  sessionId: string,
+  role: 'user' | 'assistant' | 'system',
+  content: string
+): Promise<void> {
+  await store.addMessage(sessionId, role, content);
   logger.debug({ sessionId, role, contentLength: content.length }, 'Added message to session');
 }
 
 /**
  * Get session history
  */
-export function getHistory(sessionId: string): Message[] {
-  const session = getSession(sessionId);
-  return session.history;
+export function getHistory(sessionId: string): Promise<Message[]> {
+  return store.getHistory(sessionId);
 }
 
 /**
  * Clear a session
  */
-export function clearSession(sessionId: string): void {
-  sessions.delete(sessionId);
+export async function clearSession(sessionId: string): Promise<void> {
+  await store.clearSession(sessionId);
   logger.debug({ sessionId }, 'Cleared session');
 }
 
 /**
- * Prune idle sessions (older than 15 minutes)
+ * Prune idle sessions (older than the configured TTL)
  */
-function pruneSessions(): void {
-  const now = Date.now();
-  let pruned = 0;
-
-  for (const [sessionId, session] of sessions.entries()) {
-    if (now - session.ts > SESSION_TIMEOUT_MS) {
-      sessions.delete(sessionId);
-      pruned++;
+async function pruneSessions(): Promise<void> {
+  try {
+    const pruned = await store.prune();
+    if (pruned > 0) {
+      logger.info({ pruned }, 'Pruned idle sessions');
     }
-  }
-
-  if (pruned > 0) {
-    logger.info({ pruned, totalSessions: sessions.size }, 'Pruned idle sessions');
+  } catch (error: any) {
+    logger.error({ error: error.message }, 'Failed to prune sessions');
   }
 }
 
-// Start pruning interval
-setInterval(pruneSessions, PRUNE_INTERVAL_MS);
+// Start pruning interval (unref so it never keeps the process alive)
+setInterval(pruneSessions, PRUNE_INTERVAL_MS).unref();
 
 // Prune on startup
 pruneSessions();
-
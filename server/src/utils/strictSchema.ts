@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+/**
+ * Rewrite a Zod schema into the subset OpenAI strict structured outputs
+ * accept: every property is required (optional ones become nullable) and
+ * tuples become plain arrays. Refinements are not representable and are
+ * dropped, so validate the model output against the original schema.
+ */
+export function toStrictSchema(schema: z.ZodType): z.ZodType {
+  const strict = convert(schema);
+  return schema.description && strict !== schema ? strict.describe(schema.description) : strict;
+}
+
+function convert(schema: z.ZodType): z.ZodType {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    const inner = toStrictSchema(schema.unwrap() as z.ZodType);
+    return inner instanceof z.ZodNullable ? inner : inner.nullable();
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = Object.fromEntries(
+      Object.entries(schema.shape as Record<string, z.ZodType>).map(([key, field]) => [
+        key,
+        toStrictSchema(field),
+      ])
+    );
+    return z.object(shape);
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return z.array(toStrictSchema(schema.element as z.ZodType));
+  }
+
+  if (schema instanceof z.ZodTuple) {
+    // [min, max] pairs: the length is described rather than enforced
+    const items = schema.def.items as z.ZodType[];
+    return z.array(toStrictSchema(items[0])).describe(`Exactly ${items.length} items`);
+  }
+
+  return schema;
+}
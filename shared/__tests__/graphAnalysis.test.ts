@@ -0,0 +1,117 @@
+import {
+  findAsymptotes,
+  findInflectionPoints,
+  findIntersections,
+  findRoots,
+  findTurningPoints,
+  findYIntercept,
+} from '../graphAnalysis.js';
+
+// x values of a successful result, rounded so refined points compare exactly
+const xsOf = (result: { success: boolean; points?: { x: number }[] }) => {
+  if (!result.success || !result.points) throw new Error('Analysis failed');
+  return result.points.map(({ x }) => Number(x.toFixed(6)) + 0);
+};
+
+describe('findRoots', () => {
+  it.each([
+    ['x^2 - 4', [-2, 2]],
+    ['x^3 - 3x', [-1.732051, 0, 1.732051]],
+    ['x^2 + 2x + 1', [-1]], // Touches the axis without crossing
+    ['abs(x) - 1', [-1, 1]],
+    ['sqrt(x)', [0]],
+    ['x^2 + 1', []],
+    ['1/x', []], // A sign change across a pole is not a root
+  ])('finds the roots of %s', (expression, expected) => {
+    expect(xsOf(findRoots(expression))).toEqual(expected);
+  });
+
+  it('only searches the domain', () => {
+    expect(xsOf(findRoots('sin(x)', [1, 7]))).toEqual([3.141593, 6.283185]);
+    expect(xsOf(findRoots('x - 100'))).toEqual([]);
+  });
+
+  it('reports expressions it cannot compile', () => {
+    expect(findRoots('q')).toEqual({ success: false, error: 'Unknown symbol "q"' });
+  });
+});
+
+describe('findYIntercept', () => {
+  it('evaluates f at 0, when it is defined there', () => {
+    expect(findYIntercept('2x - 3')).toEqual({ success: true, point: { x: 0, y: -3 } });
+    expect(findYIntercept('1/x')).toEqual({ success: true, point: null });
+  });
+});
+
+describe('findTurningPoints', () => {
+  it('finds maxima and minima', () => {
+    const result = findTurningPoints('x^3 - 3x');
+
+    expect(result.success && result.points.map(({ kind }) => kind)).toEqual(['maximum', 'minimum']);
+    expect(xsOf(result)).toEqual([-1, 1]);
+  });
+
+  it('counts corners but not poles', () => {
+    expect(xsOf(findTurningPoints('abs(x)'))).toEqual([0]);
+    expect(xsOf(findTurningPoints('1/x^2'))).toEqual([]);
+    expect(xsOf(findTurningPoints('x^3'))).toEqual([]);
+  });
+});
+
+describe('findInflectionPoints', () => {
+  it('finds where the concavity changes', () => {
+    expect(xsOf(findInflectionPoints('x^3 - 3x'))).toEqual([0]);
+    expect(xsOf(findInflectionPoints('sin(x)', [1, 7]))).toEqual([3.141593, 6.283185]);
+  });
+
+  it('skips poles and curves of one concavity', () => {
+    expect(xsOf(findInflectionPoints('1/x'))).toEqual([]);
+    expect(xsOf(findInflectionPoints('x^2'))).toEqual([]);
+  });
+});
+
+describe('findAsymptotes', () => {
+  const rounded = (expression: string) => {
+    const result = findAsymptotes(expression);
+    if (!result.success) throw new Error(result.error);
+    return result.asymptotes.map((asymptote) =>
+      asymptote.kind === 'vertical'
+        ? { ...asymptote, x: Number(asymptote.x.toFixed(6)) + 0 }
+        : { ...asymptote, y: Number(asymptote.y.toFixed(6)) + 0 }
+    );
+  };
+
+  it('finds poles, with and without a sign change, and limits at infinity', () => {
+    expect(rounded('(x^2 + 1)/(x^2 - 4)')).toEqual([
+      { kind: 'vertical', x: -2 },
+      { kind: 'vertical', x: 2 },
+      { kind: 'horizontal', y: 1, towards: 'both' },
+    ]);
+    expect(rounded('1/(x - 1/3)^2')).toEqual([
+      { kind: 'vertical', x: 0.333333 },
+      { kind: 'horizontal', y: 0, towards: 'both' },
+    ]);
+  });
+
+  it('finds an edge of the domain where f blows up, and one-sided limits', () => {
+    expect(rounded('ln(x)')).toEqual([{ kind: 'vertical', x: 0 }]);
+    expect(rounded('exp(x)')).toEqual([{ kind: 'horizontal', y: 0, towards: 'left' }]);
+  });
+
+  it('finds none for polynomials, sqrt and constants', () => {
+    expect(rounded('x^2')).toEqual([]);
+    expect(rounded('sqrt(x)')).toEqual([]);
+    expect(rounded('3')).toEqual([]);
+  });
+});
+
+describe('findIntersections', () => {
+  it('finds where two graphs cross or touch', () => {
+    const result = findIntersections('x^2', '2x + 3');
+
+    expect(xsOf(result)).toEqual([-1, 3]);
+    expect(result.success && result.points.map(({ y }) => Number(y.toFixed(6)))).toEqual([1, 9]);
+    expect(xsOf(findIntersections('x^2', '2x - 1'))).toEqual([1]);
+    expect(xsOf(findIntersections('x^2', '-1'))).toEqual([]);
+  });
+});
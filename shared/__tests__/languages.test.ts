@@ -0,0 +1,24 @@
+import { isSupportedLanguage, resolveLanguage } from '../languages.js';
+
+describe('isSupportedLanguage', () => {
+  it('accepts supported tags only', () => {
+    expect(isSupportedLanguage('es-ES')).toBe(true);
+    expect(isSupportedLanguage('es-MX')).toBe(false);
+  });
+
+  it('rejects keys inherited from Object.prototype', () => {
+    expect(isSupportedLanguage('constructor')).toBe(false);
+    expect(isSupportedLanguage('toString')).toBe(false);
+    expect(isSupportedLanguage('__proto__')).toBe(false);
+  });
+});
+
+describe('resolveLanguage', () => {
+  it('matches the tag, then its primary language, then falls back to English', () => {
+    expect(resolveLanguage('ja-JP')).toBe('ja-JP');
+    expect(resolveLanguage('es-MX')).toBe('es-ES');
+    expect(resolveLanguage('nl-NL')).toBe('en-US');
+    expect(resolveLanguage('constructor')).toBe('en-US');
+    expect(resolveLanguage(undefined)).toBe('en-US');
+  });
+});
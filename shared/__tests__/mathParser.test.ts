@@ -0,0 +1,170 @@
+import {
+  compileCurve,
+  compileExpression,
+  compileRegion,
+  isParameterName,
+  isValidMathExpression,
+} from '../mathParser.js';
+
+const evaluateAt = (expression: string, x: number) => {
+  const result = compileExpression(expression);
+  if (!result.success) throw new Error(result.error);
+  return result.evaluate(x);
+};
+
+describe('compileExpression', () => {
+  it.each([
+    ['x^2 + 2x + 1', 2, 9],
+    ['exp(x)', 0, 1],
+    ['max(x, 1)', 3, 3],
+    ['max(x, 1)', -3, 1],
+    ['3*cos(x)', 0, 3],
+    ['ln(x)', Math.E, 1],
+    ['x**3', 2, 8],
+    ['2pi x', 1, 2 * Math.PI],
+    ['sqrt(x) + abs(-x)', 4, 6],
+  ])('evaluates %j at x = %d', (expression, x, expected) => {
+    expect(evaluateAt(expression, x)).toBeCloseTo(expected);
+  });
+
+  it('reuses one compiled expression across many points', () => {
+    const result = compileExpression('x^2');
+    if (!result.success) throw new Error(result.error);
+
+    expect([0, 1, 2, 3].map((x) => result.evaluate(x))).toEqual([0, 1, 4, 9]);
+  });
+
+  it('returns NaN for complex results', () => {
+    expect(evaluateAt('sqrt(x)', -4)).toBeNaN();
+  });
+
+  it.each([
+    ['', 'Expression is empty'],
+    ['x +', 'Could not parse expression'],
+    ['y = x^2', 'Assignments are not allowed'],
+    ['f(x) = x^2', 'Function definitions are not allowed'],
+    ['import({}, {})', 'Function "import" is not allowed'],
+    ['createUnit("foo")', 'Function "createUnit" is not allowed'],
+    ['evaluate("1+1")', 'Function "evaluate" is not allowed'],
+    ['x; x^2', 'Multiple statements are not allowed'],
+    ['[1, 2]', 'Matrices are not allowed'],
+    ['sin.name', 'Property lookups are not allowed'],
+    ['x == 1', 'Operator "==" is not allowed'],
+    ['"x"', 'Only numeric constants are allowed'],
+    ['t^2', 'Unknown symbol "t"'],
+    ['x+'.repeat(100) + 'x', 'longer than 200 characters'],
+    [Array(60).fill('x').join('+'), 'more than 100 parts'],
+  ])('rejects %j', (expression, error) => {
+    const result = compileExpression(expression);
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toContain(error);
+  });
+});
+
+describe('isValidMathExpression', () => {
+  it('needs a finite value at x = 1', () => {
+    expect(isValidMathExpression('exp(x)')).toBe(true);
+    expect(isValidMathExpression('1/(x - 1)')).toBe(false);
+    expect(isValidMathExpression('y')).toBe(false);
+  });
+});
+
+describe('compileCurve', () => {
+  const compile = (...args: Parameters<typeof compileCurve>) => {
+    const result = compileCurve(...args);
+    if (!result.success) throw new Error(result.error);
+    return result.curve;
+  };
+
+  it('compiles parametric curves from two expressions in t', () => {
+    const curve = compile('parametric', 'x = 3cos(t), y = max(3sin(t), 0)');
+    if (curve.kind !== 'parametric') throw new Error(curve.kind);
+
+    expect(curve.x(0)).toBeCloseTo(3);
+    expect(curve.y(Math.PI / 2)).toBeCloseTo(3);
+    expect(curve.y(-Math.PI / 2)).toBe(0);
+  });
+
+  it('compiles polar curves in theta', () => {
+    for (const content of ['1 + cos(theta)', 'r = 1 + cos(θ)']) {
+      const curve = compile('polar', content);
+      if (curve.kind !== 'polar') throw new Error(curve.kind);
+
+      expect(curve.r(0)).toBeCloseTo(2);
+    }
+  });
+
+  it('compiles implicit equations as the difference of both sides', () => {
+    const curve = compile('implicit', 'x^2 + y^2 = 9');
+    if (curve.kind !== 'implicit') throw new Error(curve.kind);
+
+    expect(curve.f(3, 0)).toBeCloseTo(0);
+    expect(curve.f(0, 0)).toBeCloseTo(-9);
+    expect(curve.f(1, 1)).toBeLessThan(0);
+  });
+
+  it('takes parameter values after the curve variables', () => {
+    const wave = compile('function', 'a*sin(b*x)', ['a', 'b']);
+    const ellipse = compile('implicit', 'x^2 / a^2 + y^2 = 1', ['a']);
+    if (wave.kind !== 'function' || ellipse.kind !== 'implicit') throw new Error('wrong kind');
+
+    expect(wave.y(Math.PI / 4, 3, 2)).toBeCloseTo(3);
+    expect(ellipse.f(2, 0, 2)).toBeCloseTo(0);
+    expect(compileCurve('function', 'a*sin(b*x)', ['a']).success).toBe(false);
+  });
+
+  it.each([
+    ['parametric', 'cos(t)', 'need two expressions in t'],
+    ['parametric', 'cos(x), sin(t)', 'x(t): Unknown symbol "x"'],
+    ['polar', 'x + theta', 'Unknown symbol "x"'],
+    ['implicit', 'x = y = 1', 'single equation'],
+    ['implicit', 'x^2 + t = 1', 'Unknown symbol "t"'],
+  ] as const)('rejects %s %j', (kind, content, error) => {
+    const result = compileCurve(kind, content);
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toContain(error);
+  });
+});
+
+describe('isParameterName', () => {
+  it('accepts single letters that are not variables or constants', () => {
+    expect(['a', 'b', 'k', 'm'].every(isParameterName)).toBe(true);
+    expect(['x', 'y', 't', 'e', 'i', 'ab', 'A', 'pi', ''].some(isParameterName)).toBe(false);
+  });
+});
+
+describe('compileRegion', () => {
+  const inside = (content: string, x: number, y: number) => {
+    const result = compileRegion(content);
+    if (!result.success) throw new Error(result.error);
+    return result.inequalities.every(({ f, strict }) => (strict ? f(x, y) > 0 : f(x, y) >= 0));
+  };
+
+  it('compiles one inequality per operator, facing either way', () => {
+    const result = compileRegion('cos(x) < y <= sin(x), x >= 0');
+
+    expect(result.success && result.inequalities.map(({ strict }) => strict)).toEqual([true, false, false]);
+    expect(inside('y > x^2 - 4', 0, 0)).toBe(true);
+    expect(inside('y > x^2 - 4', 0, -4)).toBe(false);
+    expect(inside('x^2 - 4 >= y', 0, -4)).toBe(true);
+    expect(inside('x + y <= 4, x >= 0, y >= 0', 1, 1)).toBe(true);
+    expect(inside('x + y <= 4, x >= 0, y >= 0', -1, 1)).toBe(false);
+  });
+
+  it('accepts commas inside function calls', () => {
+    expect(inside('min(x, x^2) <= y <= max(x, x^2)', 0.5, 0.3)).toBe(true);
+  });
+
+  it.each([
+    ['x^2 + y^2 = 9', 'need inequalities'],
+    ['y > x^2, x', 'need inequalities'],
+    ['y > t', 'y > t: Unknown symbol "t"'],
+  ])('rejects %j', (content, error) => {
+    const result = compileRegion(content);
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error).toContain(error);
+  });
+});
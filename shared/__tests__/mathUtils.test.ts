@@ -0,0 +1,60 @@
+import { differentiate, integrate, riemannSum, tangentAt } from '../mathUtils.js';
+
+describe('differentiate', () => {
+  it('should differentiate symbolically', () => {
+    expect(differentiate('x^2')).toEqual({ success: true, expression: '2 * x' });
+    expect(differentiate('sin(x)')).toEqual({ success: true, expression: 'cos(x)' });
+  });
+
+  it('should treat ln as the natural logarithm', () => {
+    expect(differentiate('ln(x)')).toEqual({ success: true, expression: '1 / x' });
+  });
+
+  it('should reject unknown symbols', () => {
+    expect(differentiate('q')).toEqual({ success: false, error: 'Unknown symbol "q"' });
+  });
+});
+
+describe('tangentAt', () => {
+  it('should find the point, slope and tangent line', () => {
+    expect(tangentAt('x^2', 1)).toEqual({ success: true, point: { x: 1, y: 1 }, slope: 2, line: '2 * x - 1' });
+  });
+
+  it('should reject points outside the domain', () => {
+    expect(tangentAt('sqrt(x)', -1)).toEqual({ success: false, error: 'f(-1) is not defined' });
+  });
+
+  it('should reject corners', () => {
+    expect(tangentAt('abs(x)', 0)).toEqual({ success: false, error: 'f is not differentiable at x = 0' });
+  });
+});
+
+describe('integrate', () => {
+  it('should integrate over the bounds', () => {
+    const result = integrate('x^2', [0, 3]);
+    expect(result.success && result.value).toBeCloseTo(9, 6);
+  });
+
+  it('should be negative with the bounds reversed', () => {
+    const result = integrate('x', [2, 0]);
+    expect(result.success && result.value).toBeCloseTo(-2, 6);
+  });
+
+  it('should reject functions undefined on the interval', () => {
+    expect(integrate('1/x', [-1, 1])).toEqual({ success: false, error: 'f is not defined everywhere on [-1, 1]' });
+  });
+});
+
+describe('riemannSum', () => {
+  it('should build left rectangles', () => {
+    const { rectangles, sum } = riemannSum((x) => x, [0, 1], 4, 'left');
+    expect(rectangles).toHaveLength(4);
+    expect(rectangles[1]).toEqual({ x0: 0.25, x1: 0.5, height: 0.25 });
+    expect(sum).toBeCloseTo(0.375);
+  });
+
+  it('should sample right endpoints and midpoints', () => {
+    expect(riemannSum((x) => x, [0, 1], 4, 'right').sum).toBeCloseTo(0.625);
+    expect(riemannSum((x) => x * x, [0, 1], 2, 'midpoint').sum).toBeCloseTo(0.3125);
+  });
+});
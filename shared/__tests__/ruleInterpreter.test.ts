@@ -0,0 +1,382 @@
+import { interpretLocally, toExpression } from '../ruleInterpreter.js';
+
+describe('toExpression', () => {
+  it.each([
+    ['x squared plus 2x plus 1', 'x^2 + 2x + 1'],
+    ['3cos(x)', '3cos(x)'],
+    ['x cubed minus x', 'x^3 - x'],
+    ['x to the power of 4', 'x^4'],
+    ['sin(x) over x', 'sin(x) / x'],
+    ['2 times x', '2 * x'],
+  ])('converts "%s"', (phrase, expected) => {
+    expect(toExpression(phrase)).toBe(expected);
+  });
+
+  it.each(['the population of france', 'x + (1', 'sinx', 'x = 2'])('rejects "%s"', (phrase) => {
+    expect(toExpression(phrase)).toBeNull();
+  });
+
+  it('accepts only the given variables', () => {
+    expect(toExpression('1 + cos(θ)', ['theta'])).toBe('1 + cos(theta)');
+    expect(toExpression('x + y', ['x', 'y'])).toBe('x + y');
+    expect(toExpression('x + t', ['t'])).toBeNull();
+  });
+});
+
+describe('interpretLocally', () => {
+  it.each([
+    ['Graph 3cos(x)', '3cos(x)'],
+    ['plot y = x^2', 'x^2'],
+    ['Draw the graph of sin(x).', 'sin(x)'],
+    ['x squared plus 2x plus 1', 'x^2 + 2x + 1'],
+    ['please graph f of x equals x cubed', 'x^3'],
+  ])('draws "%s"', (transcript, expression) => {
+    expect(interpretLocally(transcript)).toEqual({
+      actions: [{ action: 'draw', subject: 'math', content: expression, visual_type: 'graph' }],
+    });
+  });
+
+  it.each(['clear the board', 'Clear.', 'wipe the canvas', 'reset everything'])(
+    'clears on "%s"',
+    (transcript) => {
+      expect(interpretLocally(transcript)).toEqual({ actions: [{ action: 'clear', content: 'board' }] });
+    }
+  );
+
+  it('zooms in and out', () => {
+    expect(interpretLocally('zoom in')?.actions).toEqual([{ action: 'zoom', content: 'in' }]);
+    expect(interpretLocally('Zoom out!')?.actions).toEqual([{ action: 'zoom', content: 'out' }]);
+  });
+
+  it('resets and fits the view', () => {
+    expect(interpretLocally('reset the view')?.actions).toEqual([{ action: 'zoom', content: 'reset' }]);
+    expect(interpretLocally('zoom to fit')?.actions).toEqual([{ action: 'zoom', content: 'fit' }]);
+  });
+
+  it.each([
+    ['show x from 0 to 50', { domain: [0, 50] }],
+    ['Show the x-axis from minus 5 to 5.', { domain: [-5, 5] }],
+    ['zoom to y between 100 and -100', { y_range: [-100, 100] }],
+    ['show x from 1980 to 2000 and y from 0 to 2.5', { domain: [1980, 2000], y_range: [0, 2.5] }],
+  ])('sets the visible range on "%s"', (transcript, meta) => {
+    expect(interpretLocally(transcript)?.actions).toEqual([{ action: 'zoom', content: 'range', meta }]);
+  });
+
+  it.each(['show x from 5 to 5', 'show x from 0 to 1 and x from 2 to 3'])(
+    'leaves invalid ranges to the model: "%s"',
+    (transcript) => {
+      expect(interpretLocally(transcript)).toBeNull();
+    }
+  );
+
+  it.each([
+    ['draw a circle of radius 3', '3cos(t), 3sin(t)', { curve: 'parametric' }],
+    ['Draw a circle of radius 2 centered at (1, -2).', '2cos(t) + 1, 2sin(t) - 2', { curve: 'parametric' }],
+    ['plot r = 1 + cos(θ)', '1 + cos(theta)', { curve: 'polar' }],
+    ['graph x = cos(t), y = sin(t)', 'cos(t), sin(t)', { curve: 'parametric' }],
+    ['graph x = cos(t) and y = sin(2t) for t from 0 to 3', 'cos(t), sin(2t)', { curve: 'parametric', t_range: [0, 3] }],
+    ['plot x^2 + y^2 = 9', 'x^2 + y^2 = 9', { curve: 'implicit' }],
+    ['graph x = 3', 'x = 3', { curve: 'implicit' }],
+  ])('draws the curve "%s"', (transcript, content, meta) => {
+    expect(interpretLocally(transcript)?.actions).toEqual([
+      { action: 'draw', subject: 'math', content, visual_type: 'graph', meta },
+    ]);
+  });
+
+  it.each([
+    ['shade y > x^2 - 4', 'y > x^2 - 4', undefined],
+    ['Shade the region where y is at least x squared', 'y >= x^2', undefined],
+    ['show where sin x is above cos x', 'cos(x) < y < sin(x)', undefined],
+    ['shade between x and x^2 from 0 to 1', 'min(x, x^2) <= y <= max(x, x^2)', { domain: [0, 1] }],
+    ['shade the area under the curve y = sin(x)', 'min(0, sin(x)) <= y <= max(0, sin(x))', undefined],
+    ['shade below x^2', 'y < x^2', undefined],
+    ['shade the area where y is below x^2', 'y < x^2', undefined],
+    ['shade x + y <= 4, x >= 0 and y >= 0', 'x + y <= 4, x >= 0, y >= 0', undefined],
+  ])('shades the region "%s"', (transcript, content, meta) => {
+    expect(interpretLocally(transcript)?.actions).toEqual([
+      { action: 'draw', subject: 'math', content, visual_type: 'region', ...(meta && { meta }) },
+    ]);
+  });
+
+  it.each(['draw a circle of radius 0', 'plot r = x + 1', 'graph x = cos(t), y = sin(x)', 'shade the population'])(
+    'leaves broken curves and regions to the model: "%s"',
+    (transcript) => {
+      expect(interpretLocally(transcript)).toBeNull();
+    }
+  );
+
+  it('draws a graph over a spoken domain', () => {
+    expect(interpretLocally('graph x^2 from -3 to 3')?.actions).toEqual([
+      { action: 'draw', subject: 'math', content: 'x^2', visual_type: 'graph', meta: { domain: [-3, 3] } },
+    ]);
+  });
+
+  it('labels the vertex of the latest function graph on the board', () => {
+    const response = interpretLocally('label the vertex', {
+      objects: [
+        { id: 'g1', type: 'graph', expression: 'sin(x)' },
+        { id: 'g2', type: 'graph', expression: 'x^2 + 2x + 1' },
+        { id: 'g3', type: 'graph', expression: 'x^2 + y^2 = 1', kind: 'implicit' },
+      ],
+    });
+
+    expect(response?.actions).toEqual([
+      {
+        action: 'annotate',
+        subject: 'math',
+        content: 'Vertex',
+        visual_type: 'label',
+        meta: { points: [{ x: -1, y: 0 }], labels: ['Vertex (-1, 0)'], target: 'x^2 + 2x + 1' },
+      },
+    ]);
+  });
+
+  it('graphs and labels roots in one command', () => {
+    const response = interpretLocally('graph x^2 - 4 and label the roots');
+
+    expect(response?.actions[0]).toEqual({
+      action: 'draw',
+      subject: 'math',
+      content: 'x^2 - 4',
+      visual_type: 'graph',
+    });
+    expect(response?.actions[1].meta?.points).toEqual([
+      { x: -2, y: 0 },
+      { x: 2, y: 0 },
+    ]);
+  });
+
+  it('labels the y-intercept of a named expression', () => {
+    const response = interpretLocally('label the y-intercept of y = 2x minus 3');
+
+    expect(response?.actions[0].meta?.points).toEqual([{ x: 0, y: -3 }]);
+  });
+
+  it('explains when there are no real roots', () => {
+    const response = interpretLocally('label the roots of x squared plus 1');
+
+    expect(response?.actions).toEqual([
+      { action: 'explain', subject: 'math', content: 'y = x^2 + 1 has no real roots.' },
+    ]);
+  });
+
+  it('labels turning points and inflection points of any function', () => {
+    expect(interpretLocally('find the turning points of x^3 - 3x')?.actions).toEqual([
+      {
+        action: 'annotate',
+        subject: 'math',
+        content: 'Turning points',
+        visual_type: 'label',
+        meta: {
+          points: [
+            { x: -1, y: 2 },
+            { x: 1, y: -2 },
+          ],
+          labels: ['Maximum (-1, 2)', 'Minimum (1, -2)'],
+          target: 'x^3 - 3x',
+        },
+      },
+    ]);
+    expect(interpretLocally('mark the points of inflection of x cubed')?.actions[0].meta?.labels).toEqual([
+      'Inflection point (0, 0)',
+    ]);
+  });
+
+  it('labels roots of the latest graph within its domain or the visible range', () => {
+    const graph = { id: 'g1', type: 'graph' as const, expression: 'sin(x)' };
+    const inDomain = interpretLocally('label the roots', { objects: [{ ...graph, domain: [1, 7] }] });
+    const inView = interpretLocally('label the zeros', { objects: [graph], viewport: { x: [-1, 1], y: [-1, 1] } });
+
+    expect(inDomain?.actions[0].meta?.points).toEqual([
+      { x: 3.142, y: 0 },
+      { x: 6.283, y: 0 },
+    ]);
+    expect(inView?.actions[0].meta?.points).toEqual([{ x: 0, y: 0 }]);
+  });
+
+  it('says when a feature is only outside the range searched', () => {
+    expect(interpretLocally('label the roots of x - 100')?.actions).toEqual([
+      { action: 'explain', subject: 'math', content: 'y = x - 100 has no real roots for x from -10 to 10.' },
+    ]);
+    expect(interpretLocally('label the asymptotes of x^2')?.actions).toEqual([
+      { action: 'explain', subject: 'math', content: 'y = x^2 has no asymptotes.' },
+    ]);
+  });
+
+  it('draws and labels asymptotes', () => {
+    const asymptote = (content: string) => ({
+      action: 'draw',
+      subject: 'math',
+      content,
+      visual_type: 'graph',
+      meta: { curve: 'implicit' },
+    });
+
+    expect(interpretLocally('show the asymptotes of 1/x')?.actions).toEqual([
+      asymptote('x = 0'),
+      asymptote('y = 0'),
+      {
+        action: 'annotate',
+        subject: 'math',
+        content: 'Asymptotes',
+        visual_type: 'label',
+        meta: {
+          points: [
+            { x: 0, y: 0 },
+            { x: 8, y: 0 },
+          ],
+          labels: ['Asymptote x = 0', 'Asymptote y = 0'],
+          target: '1/x',
+        },
+      },
+    ]);
+  });
+
+  it('labels where the two latest graphs, or two named ones, cross', () => {
+    const board = {
+      objects: [
+        { id: 'g1', type: 'graph' as const, expression: 'sin(x)' },
+        { id: 'g2', type: 'graph' as const, expression: 'x^2' },
+        { id: 'g3', type: 'graph' as const, expression: '2x + 3' },
+      ],
+    };
+    const intersections = {
+      action: 'annotate',
+      subject: 'math',
+      content: 'Intersections',
+      visual_type: 'label',
+      meta: {
+        points: [
+          { x: -1, y: 1 },
+          { x: 3, y: 9 },
+        ],
+        labels: ['Intersection (-1, 1)', 'Intersection (3, 9)'],
+      },
+    };
+
+    expect(interpretLocally('where do these cross', board)?.actions).toEqual([intersections]);
+    expect(interpretLocally('label the intersections', board)?.actions).toEqual([intersections]);
+    expect(interpretLocally('where do x squared and 2x plus 3 intersect')?.actions).toEqual([intersections]);
+    expect(interpretLocally('where do y = x^2 and y = -1 meet')?.actions).toEqual([
+      { action: 'explain', subject: 'math', content: 'y = x^2 and y = -1 do not cross.' },
+    ]);
+  });
+
+  it('declares parameter letters in graphs with a default slider', () => {
+    expect(interpretLocally('graph a sin(b x)')?.actions).toEqual([
+      {
+        action: 'draw',
+        subject: 'math',
+        content: 'a sin(b x)',
+        visual_type: 'graph',
+        meta: {
+          parameters: [
+            { name: 'a', value: 1, min: -5, max: 5 },
+            { name: 'b', value: 1, min: -5, max: 5 },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it('sets and animates parameters of the latest graph declaring them', () => {
+    const slider = (name: string) => ({ name, value: 1, min: -5, max: 5 });
+    const board = {
+      objects: [
+        { id: 'g1', type: 'graph' as const, expression: 'a*x^2', parameters: [slider('a')] },
+        { id: 'g2', type: 'graph' as const, expression: 'a*sin(b*x)', parameters: [slider('a'), slider('b')] },
+        { id: 'g3', type: 'graph' as const, expression: 'x^3' },
+      ],
+    };
+
+    expect(interpretLocally('increase a to 3', board)?.actions).toEqual([
+      { action: 'adjust', content: 'set', meta: { parameters: [{ name: 'a', value: 3 }], target: 'g2' } },
+    ]);
+    expect(interpretLocally('animate b from 1 to 5', board)?.actions).toEqual([
+      {
+        action: 'adjust',
+        content: 'animate',
+        meta: { parameters: [{ name: 'b', value: 5, from: 1 }], target: 'g2' },
+      },
+    ]);
+    expect(interpretLocally('set the parameter k to minus 2')?.actions).toEqual([
+      { action: 'adjust', content: 'set', meta: { parameters: [{ name: 'k', value: -2 }] } },
+    ]);
+  });
+
+  it('draws tangents and derivatives of a spoken function or the latest graph', () => {
+    const board = { objects: [{ id: 'g1', type: 'graph' as const, expression: 'x^3' }] };
+
+    expect(interpretLocally('draw the tangent to x^2 at x = 1')?.actions).toEqual([
+      { action: 'calculus', subject: 'math', content: 'tangent', meta: { target: 'x^2', at: 1 } },
+    ]);
+    expect(interpretLocally('tangent at x = 2', board)?.actions).toEqual([
+      { action: 'calculus', subject: 'math', content: 'tangent', meta: { target: 'x^3', at: 2 } },
+    ]);
+    expect(interpretLocally('show the derivative of sin x')?.actions).toEqual([
+      { action: 'calculus', subject: 'math', content: 'derivative', meta: { target: 'sin(x)' } },
+    ]);
+  });
+
+  it('shades integrals and builds Riemann sums over spoken bounds', () => {
+    const board = { objects: [{ id: 'g1', type: 'graph' as const, expression: 'x^3' }] };
+
+    expect(interpretLocally('shade the integral of x^2 from 0 to 3')?.actions).toEqual([
+      { action: 'calculus', subject: 'math', content: 'integral', meta: { target: 'x^2', domain: [0, 3] } },
+    ]);
+    expect(interpretLocally('shade the area under the curve from 0 to 2', board)?.actions).toEqual([
+      { action: 'calculus', subject: 'math', content: 'integral', meta: { target: 'x^3', domain: [0, 2] } },
+    ]);
+    expect(interpretLocally('shade the area under the curve y = sin(x) from 0 to 3')?.actions).toEqual([
+      { action: 'calculus', subject: 'math', content: 'integral', meta: { target: 'sin(x)', domain: [0, 3] } },
+    ]);
+    expect(interpretLocally('left riemann sum of x^2 from 0 to 2 with 8 rectangles')?.actions).toEqual([
+      {
+        action: 'calculus',
+        subject: 'math',
+        content: 'riemann',
+        meta: { target: 'x^2', domain: [0, 2], rule: 'left', n: 8 },
+      },
+    ]);
+    expect(interpretLocally('midpoint riemann sum from 0 to 1', board)?.actions).toEqual([
+      {
+        action: 'calculus',
+        subject: 'math',
+        content: 'riemann',
+        meta: { target: 'x^3', domain: [0, 1], rule: 'midpoint', n: 10 },
+      },
+    ]);
+  });
+
+  it('sets the rectangle count of a Riemann sum on the board', () => {
+    const board = {
+      objects: [
+        {
+          id: 'r1',
+          type: 'riemann' as const,
+          expression: 'x^2',
+          rule: 'left' as const,
+          parameters: [{ name: 'n', value: 10, min: 1, max: 100 }],
+        },
+      ],
+    };
+
+    expect(interpretLocally('set n to 20', board)?.actions).toEqual([
+      { action: 'adjust', content: 'set', meta: { parameters: [{ name: 'n', value: 20 }], target: 'r1' } },
+    ]);
+  });
+
+  it.each([
+    'explain the chain rule',
+    'graph the population of France',
+    'label the vertex', // Nothing on the board
+    'label the vertex of sin(x)', // Not a quadratic
+    'erase the red one',
+    'set x to 3', // A variable, not a parameter
+    'integral from 0 to 1', // Nothing on the board
+    'shade the area under the curve from 0 to 2', // Nothing on the board
+    'where do these cross', // Nothing on the board
+  ])('leaves "%s" to the model', (transcript) => {
+    expect(interpretLocally(transcript)).toBeNull();
+  });
+});
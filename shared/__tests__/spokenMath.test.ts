@@ -0,0 +1,153 @@
+import { normalizeSpokenMath } from '../spokenMath.js';
+
+describe('normalizeSpokenMath', () => {
+  describe('homophones and function names', () => {
+    it.each([
+      ['sign of x', 'sin(x)'],
+      ['sine of x', 'sin(x)'],
+      ['sine x', 'sin(x)'],
+      ['co-sign of x', 'cos(x)'],
+      ['co sign of x', 'cos(x)'],
+      ['cosign of x', 'cos(x)'],
+      ['cosine of two x', 'cos(2x)'],
+      ['tangent of x', 'tan(x)'],
+      ['tan of theta', 'tan(theta)'],
+      ['square root of x', 'sqrt(x)'],
+      ['cube root of x', 'cbrt(x)'],
+      ['absolute value of x', 'abs(x)'],
+      ['natural log of x', 'ln(x)'],
+      ['log of x', 'log(x)'],
+      ['three sine of x', '3sin(x)'],
+      ['f of x', 'f(x)'],
+    ])('"%s" -> "%s"', (spoken, expected) => {
+      expect(normalizeSpokenMath(spoken)).toBe(expected);
+    });
+  });
+
+  describe('numbers and constants', () => {
+    it.each([
+      ['two pi', '2pi'],
+      ['two x', '2x'],
+      ['twenty five x', '25x'],
+      ['twenty-five x', '25x'],
+      ['one hundred x', '100x'],
+      ['three hundred twelve plus x', '312 + x'],
+      ['two thousand five hundred times x', '2500 * x'],
+      ['two point five x', '2.5x'],
+      ['point five x', '0.5x'],
+      ['e to the x', 'e^x'],
+      ['negative x', '-x'],
+      ['negative three x squared', '-3x^2'],
+      ['pi over two', 'pi / 2'],
+    ])('"%s" -> "%s"', (spoken, expected) => {
+      expect(normalizeSpokenMath(spoken)).toBe(expected);
+    });
+  });
+
+  describe('powers and ordinals', () => {
+    it.each([
+      ['x squared', 'x^2'],
+      ['x cubed', 'x^3'],
+      ['x to the third', 'x^3'],
+      ['x to the fourth power', 'x^4'],
+      ['x to the 5th', 'x^5'],
+      ['x to the power of ten', 'x^10'],
+      ['x raised to the second', 'x^2'],
+      ['x raised to the power of three', 'x^3'],
+      ['two to the x', '2^x'],
+      ['e to the negative x', 'e^(-x)'],
+      ['x to the power of the quantity x plus one', 'x^(x + 1)'],
+      ['e to the negative x squared', 'e^(-x^2)'],
+    ])('"%s" -> "%s"', (spoken, expected) => {
+      expect(normalizeSpokenMath(spoken)).toBe(expected);
+    });
+  });
+
+  describe('operators and grouping', () => {
+    it.each([
+      ['x plus one', 'x + 1'],
+      ['x minus one', 'x - 1'],
+      ['two times x', '2 * x'],
+      ['one over x', '1 / x'],
+      ['x divided by two', 'x / 2'],
+      ['x multiplied by three', 'x * 3'],
+      ['y equals x', 'y = x'],
+      ['y is equal to x squared', 'y = x^2'],
+      ['x squared plus two x plus one', 'x^2 + 2x + 1'],
+      ['square root of x plus one', 'sqrt(x) + 1'],
+      ['square root of the quantity x plus one', 'sqrt(x + 1)'],
+      ['the quantity x plus one end quantity squared', '(x + 1)^2'],
+      ['the quantity x plus one squared', '(x + 1)^2'],
+      ['the quantity x plus one to the third power', '(x + 1)^3'],
+      ['the quantity two x squared', '(2x)^2'],
+      ['square root of the quantity x plus one squared', 'sqrt((x + 1)^2)'],
+      ['open paren x minus two close paren cubed', '(x - 2)^3'],
+      ['sine of the quantity two x end quantity plus one', 'sin(2x) + 1'],
+      ['one over the quantity x minus one', '1 / (x - 1)'],
+    ])('"%s" -> "%s"', (spoken, expected) => {
+      expect(normalizeSpokenMath(spoken)).toBe(expected);
+    });
+  });
+
+  describe('parameters and polar curves', () => {
+    it.each([
+      ['a x squared plus b x plus c', 'a x^2 + b x + c'],
+      ['sine of b x', 'sin(b x)'],
+      ['y equals a sine of b x', 'y = a sin(b x)'],
+      ['sine squared of x', 'sin(x)^2'],
+      ['cosine cubed of the quantity two x end quantity', 'cos(2x)^3'],
+      ['r equals one plus cos theta', 'r = 1 + cos(theta)'],
+    ])('"%s" -> "%s"', (spoken, expected) => {
+      expect(normalizeSpokenMath(spoken)).toBe(expected);
+    });
+  });
+
+  describe('full commands', () => {
+    it.each([
+      ['Graph sign of x', 'Graph sin(x)'],
+      ['Plot y equals two x plus three', 'Plot y = 2x + 3'],
+      ['Graph x squared plus two x plus one and label the vertex', 'Graph x^2 + 2x + 1 and label the vertex'],
+      ['draw e to the x.', 'draw e^x.'],
+      ['Label the vertex of x squared minus four', 'Label the vertex of x^2 - 4'],
+      ['what is two plus two', 'what is 2 + 2'],
+      ['graph f of x equals x cubed', 'graph f(x) = x^3'],
+      ['graph sign of x to the third', 'graph sin(x^3)'],
+      ['Graph 3*cos(x)', 'Graph 3*cos(x)'],
+      ['graph a x squared plus b x plus c', 'graph a x^2 + b x + c'],
+      ['Is x squared a parabola', 'Is x^2 a parabola'],
+      ['graph the absolute value of x minus two', 'graph abs(x) - 2'],
+      ['Plot the square root of x', 'Plot sqrt(x)'],
+      ['graph the sine of two x', 'graph sin(2x)'],
+    ])('"%s" -> "%s"', (spoken, expected) => {
+      expect(normalizeSpokenMath(spoken)).toBe(expected);
+    });
+  });
+
+  describe('leaves ordinary language alone', () => {
+    it.each([
+      'Explain the chain rule',
+      'Erase the red one',
+      'Give me two practice problems',
+      'What is the sign of the derivative',
+      'Go over this again',
+      'Sign the worksheet',
+      'Show me three times',
+      'Draw a square',
+      'Draw a circle of radius three',
+      'What is a tangent line',
+      'Clear the board',
+      'Zoom in',
+    ])('"%s"', (spoken) => {
+      expect(normalizeSpokenMath(spoken)).toBe(spoken);
+    });
+  });
+
+  it('is idempotent on normalized expressions', () => {
+    const expressions = [
+      'x^2 + 2x + 1', 'sin(x)', '2pi', 'sqrt(x) + 1', '1 / (x - 1)', 'e^(-x)', '(x + 1)^2', 'a x^2 + b x + c',
+    ];
+    for (const expression of expressions) {
+      expect(normalizeSpokenMath(expression)).toBe(expression);
+    }
+  });
+});
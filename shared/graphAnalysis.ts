@@ -0,0 +1,283 @@
+import { compileExpression } from './mathParser';
+import { CalculusResult, differentiate } from './mathUtils';
+
+/**
+ * Numeric analysis of graph expressions in x: roots, y-intercept, turning
+ * points, inflection points, asymptotes and intersections. f is sampled over
+ * a domain and every sign change is refined by bisection, with symbolic
+ * derivatives (mathUtils.differentiate) for turning and inflection points, so
+ * annotations land on computed points instead of coordinates the model guessed.
+ */
+
+export interface FeaturePoint {
+  x: number;
+  y: number;
+}
+
+export interface TurningPoint extends FeaturePoint {
+  kind: 'maximum' | 'minimum';
+}
+
+export type Asymptote =
+  | { kind: 'vertical'; x: number }
+  | { kind: 'horizontal'; y: number; towards: 'left' | 'right' | 'both' }; // As x goes to -inf, +inf or either
+
+export const DEFAULT_ANALYSIS_DOMAIN: [number, number] = [-10, 10]; // The default viewport
+
+const SAMPLE_INTERVALS = 2000; // Features closer together than one interval may be missed
+const REFINE_STEPS = 100; // Bisection and ternary search steps, past double precision
+const MAX_FEATURES = 20;
+const ZERO_TOLERANCE = 1e-6; // |f| at a refined sign change: below is a root, above a pole
+const CONTINUITY_STEPS = [1e-6, 1e-9]; // f must change less over the second than the first
+const CONTINUITY_TOLERANCE = 1e-3;
+const BLOW_UP_STEPS = [1e-3, 1e-5, 1e-7]; // |f| must keep growing this close to a vertical asymptote
+const FAR_X = [1e6, 1e9, 1e12]; // f settling across these means a horizontal asymptote
+const LIMIT_TOLERANCE = 1e-2; // Relative
+const DUPLICATE_DISTANCE = 1e-6;
+
+type RealFunction = (x: number) => number;
+
+function compile(expression: string): CalculusResult<{ f: RealFunction }> {
+  const compiled = compileExpression(expression);
+  return compiled.success ? { success: true, f: (x) => compiled.evaluate(x) } : compiled;
+}
+
+function compileDerivative(expression: string): CalculusResult<{ expression: string; f: RealFunction }> {
+  const derived = differentiate(expression);
+  if (!derived.success) {
+    return derived;
+  }
+  const compiled = compile(derived.expression);
+  return compiled.success ? { ...compiled, expression: derived.expression } : compiled;
+}
+
+function grid([a, b]: [number, number]): number[] {
+  const step = (b - a) / SAMPLE_INTERVALS;
+  return Array.from({ length: SAMPLE_INTERVALS + 1 }, (_, i) => a + i * step);
+}
+
+// Boundary in [lo, hi] between where test holds (at lo) and where it does not (at hi)
+function bisect(test: (x: number) => boolean, lo: number, hi: number): number {
+  for (let i = 0; i < REFINE_STEPS; i++) {
+    const mid = (lo + hi) / 2;
+    if (mid <= lo || mid >= hi) break;
+    if (test(mid)) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+// Where |f| is largest in [lo, hi], by ternary search
+function peak(f: RealFunction, lo: number, hi: number): number {
+  for (let i = 0; i < REFINE_STEPS; i++) {
+    const left = lo + (hi - lo) / 3;
+    const right = hi - (hi - lo) / 3;
+    if (Math.abs(f(left)) < Math.abs(f(right))) {
+      lo = left;
+    } else {
+      hi = right;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Points in the domain where g changes sign, refined between samples of
+ * opposite sign. A sample where g is 0 or undefined (abs(x)/x at 0) between
+ * neighbours of opposite sign counts too. Includes poles; callers filter those out.
+ */
+function signChanges(g: RealFunction, domain: [number, number]): number[] {
+  const xs = grid(domain);
+  const ys = xs.map(g);
+  const points: number[] = [];
+  const refine = (lo: number, hi: number) => {
+    const negative = g(lo) < 0;
+    points.push(bisect((x) => g(x) < 0 === negative, lo, hi));
+  };
+  for (let i = 1; i < xs.length; i++) {
+    if (ys[i - 1] * ys[i] < 0) {
+      refine(xs[i - 1], xs[i]);
+    } else if ((ys[i] === 0 || !Number.isFinite(ys[i])) && i < xs.length - 1 && ys[i - 1] * ys[i + 1] < 0) {
+      refine(xs[i - 1], xs[i + 1]);
+    }
+  }
+  return points;
+}
+
+// f is defined at x and does not jump there (rules out poles and gaps, allows
+// vertical tangents like cbrt(x) at 0, where the change only shrinks slowly)
+function isContinuousAt(f: RealFunction, x: number): boolean {
+  const y = f(x);
+  const [wide, narrow] = CONTINUITY_STEPS.map((step) => Math.abs(f(x - step) - y) + Math.abs(f(x + step) - y));
+  return Number.isFinite(y) && (wide < CONTINUITY_TOLERANCE || narrow <= wide / 2);
+}
+
+// |f| grows without bound approaching x from either side, as for 1/x, ln(x) or tan(x)
+function blowsUp(f: RealFunction, x: number): boolean {
+  return [-1, 1].some((side) => {
+    const [near, nearer, nearest] = BLOW_UP_STEPS.map((step) => Math.abs(f(x + side * step)));
+    return Number.isFinite(nearest) && nearer > near && nearest - nearer >= (nearer - near) / 2;
+  });
+}
+
+// Value f settles to as x goes to -inf (side -1) or +inf (side 1), if any
+function limitAt(f: RealFunction, side: number): number | null {
+  const values = FAR_X.map((x) => f(side * x));
+  const last = values[values.length - 1];
+  const settled = values.every(
+    (value) => Number.isFinite(value) && Math.abs(value - last) < LIMIT_TOLERANCE * Math.max(1, Math.abs(last))
+  );
+  return settled ? last : null;
+}
+
+// Sorted, without near-duplicates found from neighbouring samples, capped
+function distinct(xs: number[]): number[] {
+  const sorted = [...xs].sort((p, q) => p - q);
+  return sorted.filter((x, i) => i === 0 || x - sorted[i - 1] > DUPLICATE_DISTANCE).slice(0, MAX_FEATURES);
+}
+
+function rootsOf(expression: string, domain: [number, number]): CalculusResult<{ xs: number[] }> {
+  const compiled = compile(expression);
+  if (!compiled.success) {
+    return compiled;
+  }
+  const { f } = compiled;
+  const crossings = signChanges(f, domain).filter((x) => Math.abs(f(x)) < ZERO_TOLERANCE);
+  const zeros = grid(domain).filter((x) => f(x) === 0);
+  // Roots where the graph touches the axis without crossing it, like x^2, are turning points at height 0
+  const turning = findTurningPoints(expression, domain);
+  const touching = turning.success ? turning.points.filter(({ y }) => Math.abs(y) < ZERO_TOLERANCE) : [];
+  return { success: true, xs: distinct([...crossings, ...zeros, ...touching.map(({ x }) => x)]) };
+}
+
+export function findRoots(
+  expression: string,
+  domain = DEFAULT_ANALYSIS_DOMAIN
+): CalculusResult<{ points: FeaturePoint[] }> {
+  const roots = rootsOf(expression, domain);
+  return roots.success ? { success: true, points: roots.xs.map((x) => ({ x, y: 0 })) } : roots;
+}
+
+// f(0), or null when f is undefined there
+export function findYIntercept(expression: string): CalculusResult<{ point: FeaturePoint | null }> {
+  const compiled = compile(expression);
+  if (!compiled.success) {
+    return compiled;
+  }
+  const y = compiled.f(0);
+  return { success: true, point: Number.isFinite(y) ? { x: 0, y } : null };
+}
+
+// Local maxima and minima: where f' changes sign and f is continuous (corners of abs(x) count)
+export function findTurningPoints(
+  expression: string,
+  domain = DEFAULT_ANALYSIS_DOMAIN
+): CalculusResult<{ points: TurningPoint[] }> {
+  const compiled = compile(expression);
+  if (!compiled.success) {
+    return compiled;
+  }
+  const slope = compileDerivative(expression);
+  if (!slope.success) {
+    return slope;
+  }
+
+  const { f } = compiled;
+  const points = distinct(signChanges(slope.f, domain).filter((x) => isContinuousAt(f, x))).map(
+    (x): TurningPoint => ({ x, y: f(x), kind: slope.f(x - CONTINUITY_STEPS[0]) > 0 ? 'maximum' : 'minimum' })
+  );
+  return { success: true, points };
+}
+
+// Where f'' changes sign and f is continuous
+export function findInflectionPoints(
+  expression: string,
+  domain = DEFAULT_ANALYSIS_DOMAIN
+): CalculusResult<{ points: FeaturePoint[] }> {
+  const compiled = compile(expression);
+  if (!compiled.success) {
+    return compiled;
+  }
+  const slope = compileDerivative(expression);
+  if (!slope.success) {
+    return slope;
+  }
+  const curvature = compileDerivative(slope.expression);
+  if (!curvature.success) {
+    return curvature;
+  }
+
+  const { f } = compiled;
+  const xs = distinct(signChanges(curvature.f, domain).filter((x) => isContinuousAt(f, x)));
+  return { success: true, points: xs.map((x) => ({ x, y: f(x) })) };
+}
+
+/**
+ * Vertical asymptotes in the domain (poles, and edges of where f is defined
+ * like 0 for ln(x)) and horizontal ones as x goes to either infinity.
+ */
+export function findAsymptotes(
+  expression: string,
+  domain = DEFAULT_ANALYSIS_DOMAIN
+): CalculusResult<{ asymptotes: Asymptote[] }> {
+  const compiled = compile(expression);
+  if (!compiled.success) {
+    return compiled;
+  }
+  const { f } = compiled;
+  const xs = grid(domain);
+  const ys = xs.map(f);
+
+  const candidates: number[] = [];
+  for (let i = 1; i < xs.length; i++) {
+    const [previous, current] = [ys[i - 1], ys[i]];
+    const defined = Number.isFinite(previous);
+    if (defined !== Number.isFinite(current)) {
+      candidates.push(bisect((x) => Number.isFinite(f(x)) === defined, xs[i - 1], xs[i]));
+    } else if (previous * current < 0) {
+      const negative = previous < 0;
+      candidates.push(bisect((x) => f(x) < 0 === negative, xs[i - 1], xs[i])); // Poles where f changes sign
+    }
+    if (i < xs.length - 1 && Math.abs(current) > Math.abs(previous) && Math.abs(current) > Math.abs(ys[i + 1])) {
+      candidates.push(peak(f, xs[i - 1], xs[i + 1])); // Poles without a sign change, like 1/x^2
+    }
+  }
+  const asymptotes: Asymptote[] = distinct(candidates.filter((x) => blowsUp(f, x))).map((x) => ({
+    kind: 'vertical',
+    x,
+  }));
+
+  // A constant function is its own line, not an asymptote
+  const finite = ys.filter(Number.isFinite);
+  if (finite.length > 0 && Math.max(...finite) - Math.min(...finite) < ZERO_TOLERANCE) {
+    return { success: true, asymptotes };
+  }
+  const [left, right] = [limitAt(f, -1), limitAt(f, 1)];
+  if (left !== null && right !== null && Math.abs(left - right) < LIMIT_TOLERANCE * Math.max(1, Math.abs(right))) {
+    asymptotes.push({ kind: 'horizontal', y: right, towards: 'both' });
+  } else {
+    if (left !== null) asymptotes.push({ kind: 'horizontal', y: left, towards: 'left' });
+    if (right !== null) asymptotes.push({ kind: 'horizontal', y: right, towards: 'right' });
+  }
+  return { success: true, asymptotes };
+}
+
+// Points where y = first and y = second cross or touch
+export function findIntersections(
+  first: string,
+  second: string,
+  domain = DEFAULT_ANALYSIS_DOMAIN
+): CalculusResult<{ points: FeaturePoint[] }> {
+  const compiled = compile(first);
+  if (!compiled.success) {
+    return compiled;
+  }
+  const roots = rootsOf(`(${first}) - (${second})`, domain);
+  if (!roots.success) {
+    return roots;
+  }
+  return { success: true, points: roots.xs.map((x) => ({ x, y: compiled.f(x) })) };
+}
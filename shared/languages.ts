@@ -0,0 +1,39 @@
+/**
+ * Tutoring languages, keyed by the BCP 47 tag used for speech recognition,
+ * speech synthesis and the server's `language` field. `name` is the English
+ * name used in prompts, `native` the one shown in the language picker.
+ */
+export const SUPPORTED_LANGUAGES = {
+  'en-US': { name: 'English', native: 'English' },
+  'es-ES': { name: 'Spanish', native: 'Español' },
+  'fr-FR': { name: 'French', native: 'Français' },
+  'de-DE': { name: 'German', native: 'Deutsch' },
+  'it-IT': { name: 'Italian', native: 'Italiano' },
+  'pt-BR': { name: 'Portuguese', native: 'Português' },
+  'hi-IN': { name: 'Hindi', native: 'हिन्दी' },
+  'zh-CN': { name: 'Simplified Chinese', native: '简体中文' },
+  'ja-JP': { name: 'Japanese', native: '日本語' },
+  'ko-KR': { name: 'Korean', native: '한국어' },
+} as const;
+
+export type LanguageTag = keyof typeof SUPPORTED_LANGUAGES;
+
+export const DEFAULT_LANGUAGE: LanguageTag = 'en-US';
+
+export function isSupportedLanguage(tag: string): tag is LanguageTag {
+  return Object.hasOwn(SUPPORTED_LANGUAGES, tag);
+}
+
+/**
+ * Closest supported language for a browser tag: exact match first, then the
+ * same primary language ("es-MX" -> "es-ES"), otherwise English
+ */
+export function resolveLanguage(tag: string | undefined): LanguageTag {
+  if (!tag) return DEFAULT_LANGUAGE;
+  if (isSupportedLanguage(tag)) return tag;
+  const primary = tag.split('-')[0].toLowerCase();
+  const match = (Object.keys(SUPPORTED_LANGUAGES) as LanguageTag[]).find(
+    (supported) => supported.split('-')[0] === primary
+  );
+  return match ?? DEFAULT_LANGUAGE;
+}
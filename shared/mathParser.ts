@@ -0,0 +1,274 @@
+import { create, all, MathNode, OperatorNode, FunctionNode, SymbolNode, ConstantNode } from 'mathjs';
+
+/**
+ * Restricted evaluator for graph expressions (in x, or in t, theta, x and y
+ * for other curve kinds). Expressions come from the model, so they are parsed
+ * once, checked against an allowlist of functions, constants and operators
+ * (with size limits), then compiled with a scope holding only the variables.
+ * Nothing outside the allowlist (import, createUnit, evaluate, assignments,
+ * property access...) can run.
+ *
+ * Shared by the client (plotting, with the caches in src/utils/mathParser.ts)
+ * and the server (validating model output).
+ */
+
+const math = create(all);
+
+// Spoken "natural log" is normalized to ln(x); mathjs only knows log
+math.import({ ln: math.log });
+
+const MAX_EXPRESSION_LENGTH = 200;
+const MAX_NODES = 100;
+
+const ALLOWED_FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'sec', 'csc', 'cot',
+  'asin', 'acos', 'atan', 'sinh', 'cosh', 'tanh',
+  'sqrt', 'cbrt', 'nthRoot', 'abs', 'sign', 'exp', 'log', 'ln', 'log10', 'log2',
+  'floor', 'ceil', 'round', 'min', 'max', 'pow', 'mod',
+]);
+
+const ALLOWED_CONSTANTS = new Set(['pi', 'e', 'tau', 'phi']);
+
+// mathjs function names behind operators: x + 1, -x, 2x, x^2, x % 3
+const ALLOWED_OPERATORS = new Set([
+  'add', 'subtract', 'multiply', 'divide', 'pow', 'mod', 'unaryMinus', 'unaryPlus',
+]);
+
+const NODE_NAMES: Record<string, string> = {
+  AssignmentNode: 'Assignments',
+  FunctionAssignmentNode: 'Function definitions',
+  AccessorNode: 'Property lookups',
+  IndexNode: 'Index lookups',
+  ObjectNode: 'Objects',
+  ArrayNode: 'Matrices',
+  BlockNode: 'Multiple statements',
+  RangeNode: 'Ranges',
+};
+
+export type CompileResult =
+  | { success: true; evaluate: (...values: number[]) => number } // Values in variable order
+  | { success: false; error: string };
+
+// First allowlist violation in the tree, or null if the whole tree is allowed
+function findViolation(root: MathNode, variables: string[]): string | null {
+  let nodes = 0;
+  let violation: string | null = null;
+
+  root.traverse((node, _path, parent) => {
+    if (violation) return;
+    if (++nodes > MAX_NODES) {
+      violation = `Expression has more than ${MAX_NODES} parts`;
+      return;
+    }
+
+    switch (node.type) {
+      case 'ParenthesisNode':
+        return;
+      case 'ConstantNode':
+        if (typeof (node as ConstantNode).value !== 'number') {
+          violation = 'Only numeric constants are allowed';
+        }
+        return;
+      case 'OperatorNode': {
+        const { fn, op } = node as OperatorNode;
+        if (!ALLOWED_OPERATORS.has(fn)) {
+          violation = `Operator "${op}" is not allowed`;
+        }
+        return;
+      }
+      case 'FunctionNode': {
+        const fn = (node as FunctionNode).fn;
+        const name = fn.type === 'SymbolNode' ? (fn as SymbolNode).name : null;
+        if (!name || !ALLOWED_FUNCTIONS.has(name)) {
+          violation = `Function "${name ?? fn.toString()}" is not allowed`;
+        }
+        return;
+      }
+      case 'SymbolNode': {
+        // Function names are checked on their FunctionNode
+        if (parent?.type === 'FunctionNode' && (parent as FunctionNode).fn === node) return;
+        const name = (node as SymbolNode).name;
+        if (!variables.includes(name) && !ALLOWED_CONSTANTS.has(name)) {
+          violation = `Unknown symbol "${name}"`;
+        }
+        return;
+      }
+      default:
+        violation = NODE_NAMES[node.type]
+          ? `${NODE_NAMES[node.type]} are not allowed`
+          : `Unsupported syntax: ${node.type}`;
+    }
+  });
+
+  return violation;
+}
+
+/**
+ * Parse, validate and compile an expression in the given variables (x by
+ * default). The returned evaluate gives NaN for complex or non-numeric results.
+ */
+export function compileExpression(expression: string, variables: string[] = ['x']): CompileResult {
+  const cleaned = expression.replace(/\*\*/g, '^').trim(); // Accept ** for power
+  if (!cleaned) {
+    return { success: false, error: 'Expression is empty' };
+  }
+  if (cleaned.length > MAX_EXPRESSION_LENGTH) {
+    return { success: false, error: `Expression is longer than ${MAX_EXPRESSION_LENGTH} characters` };
+  }
+
+  let root: MathNode;
+  try {
+    root = math.parse(cleaned);
+  } catch (error: any) {
+    return { success: false, error: `Could not parse expression: ${error.message}` };
+  }
+
+  const violation = findViolation(root, variables);
+  if (violation) {
+    return { success: false, error: violation };
+  }
+
+  const compiled = root.compile();
+  const scope = new Map<string, number>();
+  return {
+    success: true,
+    evaluate: (...values: number[]): number => {
+      variables.forEach((name, i) => scope.set(name, values[i]));
+      try {
+        const result = compiled.evaluate(scope);
+        return typeof result === 'number' ? result : NaN;
+      } catch {
+        return NaN; // e.g. wrong argument count for an allowed function
+      }
+    },
+  };
+}
+
+export type CurveKind = 'function' | 'parametric' | 'polar' | 'implicit';
+
+// Names a graph can declare as parameters: single letters that are not variables or constants
+export function isParameterName(name: string): boolean {
+  return /^[a-z]$/.test(name) && !['x', 'y', 't', 'e', 'i'].includes(name);
+}
+
+// Trailing arguments are the values of the curve's parameters, in the order they were declared
+type CurveFunction = (value: number, ...parameters: number[]) => number;
+
+export type CompiledCurve =
+  | { kind: 'function'; y: CurveFunction }
+  | { kind: 'parametric'; x: CurveFunction; y: CurveFunction }
+  | { kind: 'polar'; r: CurveFunction }
+  | { kind: 'implicit'; f: (x: number, y: number, ...parameters: number[]) => number }; // Curve where f = 0
+
+export type CurveResult = { success: true; curve: CompiledCurve } | { success: false; error: string };
+
+// Split at a separator outside parentheses: "max(t, 1), t" -> ["max(t, 1)", "t"]
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (char === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// "y = x^2" -> "x^2" when the left side is the expected name
+function stripLeftSide(expression: string, name: string): string {
+  return expression.replace(new RegExp(`^\\s*${name}\\s*=(?!=)`), '');
+}
+
+/**
+ * Compile graph content for a curve kind:
+ * - function: an expression in x ("x^2")
+ * - parametric: x(t) and y(t) separated by a comma ("3cos(t), 3sin(t)")
+ * - polar: r in theta ("1 + cos(theta)")
+ * - implicit: an equation in x and y ("x^2 + y^2 = 9"), or an expression that is 0
+ * Free constants ("a*sin(b*x)") must be listed in parameters.
+ */
+export function compileCurve(kind: CurveKind, content: string, parameters: string[] = []): CurveResult {
+  const fail = (error: string): CurveResult => ({ success: false, error });
+
+  switch (kind) {
+    case 'function': {
+      const y = compileExpression(content, ['x', ...parameters]);
+      return y.success ? { success: true, curve: { kind, y: y.evaluate } } : y;
+    }
+    case 'parametric': {
+      const parts = splitTopLevel(content, ',');
+      if (parts.length !== 2) {
+        return fail('Parametric curves need two expressions in t, e.g. "cos(t), sin(t)"');
+      }
+      const x = compileExpression(stripLeftSide(parts[0], 'x'), ['t', ...parameters]);
+      if (!x.success) return fail(`x(t): ${x.error}`);
+      const y = compileExpression(stripLeftSide(parts[1], 'y'), ['t', ...parameters]);
+      if (!y.success) return fail(`y(t): ${y.error}`);
+      return { success: true, curve: { kind, x: x.evaluate, y: y.evaluate } };
+    }
+    case 'polar': {
+      const r = compileExpression(stripLeftSide(content, 'r').replace(/θ/g, 'theta'), ['theta', ...parameters]);
+      return r.success ? { success: true, curve: { kind, r: r.evaluate } } : r;
+    }
+    case 'implicit': {
+      // One "=" that is not part of "==", "<=", ">=" or "!="
+      const sides = content.split(/(?<![=<>!])=(?!=)/);
+      if (sides.length > 2) {
+        return fail('Implicit curves need a single equation in x and y, e.g. "x^2 + y^2 = 9"');
+      }
+      const expression = sides.length === 2 ? `(${sides[0]}) - (${sides[1]})` : content;
+      const f = compileExpression(expression, ['x', 'y', ...parameters]);
+      return f.success ? { success: true, curve: { kind, f: f.evaluate } } : f;
+    }
+  }
+}
+
+// Holds where f > 0, or f >= 0 when not strict
+export interface Inequality {
+  f: (x: number, y: number) => number;
+  strict: boolean;
+}
+
+export type RegionResult = { success: true; inequalities: Inequality[] } | { success: false; error: string };
+
+const COMPARISON = /(<=|>=|≤|≥|<|>)/;
+
+/**
+ * Compile a region: inequalities in x and y separated by commas, all of which
+ * hold inside it. Chains like "cos(x) < y < sin(x)" count as one per operator.
+ */
+export function compileRegion(content: string): RegionResult {
+  const inequalities: Inequality[] = [];
+  for (const part of splitTopLevel(content, ',')) {
+    const pieces = part.split(COMPARISON);
+    if (pieces.length < 3) {
+      return { success: false, error: 'Regions need inequalities in x and y, e.g. "y > x^2 - 4"' };
+    }
+    for (let i = 1; i < pieces.length; i += 2) {
+      const operator = pieces[i];
+      const greater = operator === '>' || operator === '>=' || operator === '≥';
+      const [left, right] = greater ? [pieces[i - 1], pieces[i + 1]] : [pieces[i + 1], pieces[i - 1]];
+      const f = compileExpression(`(${left}) - (${right})`, ['x', 'y']);
+      if (!f.success) {
+        return { success: false, error: `${part.trim()}: ${f.error}` };
+      }
+      inequalities.push({ f: f.evaluate, strict: operator === '<' || operator === '>' });
+    }
+  }
+  return { success: true, inequalities };
+}
+
+export function isValidMathExpression(expression: string): boolean {
+  const result = compileExpression(expression);
+  if (!result.success) {
+    return false;
+  }
+  const value = result.evaluate(1);
+  return !isNaN(value) && isFinite(value);
+}
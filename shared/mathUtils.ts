@@ -0,0 +1,135 @@
+import { derivative, parse, FunctionNode } from 'mathjs';
+import { compileExpression } from './mathParser';
+
+/**
+ * Calculus overlays: derivatives, tangent lines, definite integrals and
+ * Riemann sums of graph expressions in x, all built on the restricted
+ * evaluator in mathParser.
+ */
+
+export type CalculusResult<T> = ({ success: true } & T) | { success: false; error: string };
+
+export type RiemannRule = 'left' | 'right' | 'midpoint';
+
+export interface RiemannRectangle {
+  x0: number;
+  x1: number;
+  height: number; // f at the sample point of the rule; NaN where f is undefined
+}
+
+const INTEGRAL_INTERVALS = 1000; // Simpson's rule, even
+const DIFFERENCE_STEP = 1e-5;
+
+// Round for display and for expressions built from computed numbers
+export function roundValue(value: number, digits = 4): number {
+  return Number(value.toFixed(digits)) + 0; // + 0 drops -0
+}
+
+/**
+ * Symbolic derivative in x, e.g. "x^3 - 3x" -> "3 * x ^ 2 - 3". The result is
+ * compiled like any graph expression, so it is plottable when this succeeds.
+ */
+export function differentiate(expression: string): CalculusResult<{ expression: string }> {
+  const compiled = compileExpression(expression);
+  if (!compiled.success) {
+    return compiled;
+  }
+
+  let result: string;
+  try {
+    // mathjs differentiates log, not the ln alias the evaluator adds
+    const root = parse(expression.replace(/\*\*/g, '^')).transform((node) =>
+      node instanceof FunctionNode && node.fn.name === 'ln' ? new FunctionNode('log', node.args) : node
+    );
+    result = derivative(root, 'x').toString();
+  } catch {
+    return { success: false, error: `Cannot differentiate "${expression}" symbolically` };
+  }
+
+  const check = compileExpression(result);
+  return check.success ? { success: true, expression: result } : { success: false, error: `Derivative: ${check.error}` };
+}
+
+/**
+ * Tangent to y = f(x) at x = a: the point, its slope (symbolic, or a central
+ * difference for functions mathjs cannot differentiate) and the line as an
+ * expression in x
+ */
+export function tangentAt(
+  expression: string,
+  a: number
+): CalculusResult<{ point: { x: number; y: number }; slope: number; line: string }> {
+  const compiled = compileExpression(expression);
+  if (!compiled.success) {
+    return compiled;
+  }
+  const y = compiled.evaluate(a);
+  if (!Number.isFinite(y)) {
+    return { success: false, error: `f(${a}) is not defined` };
+  }
+
+  const derived = differentiate(expression);
+  const slope = derived.success
+    ? evaluateAt(derived.expression, a)
+    : (compiled.evaluate(a + DIFFERENCE_STEP) - compiled.evaluate(a - DIFFERENCE_STEP)) / (2 * DIFFERENCE_STEP);
+  if (!Number.isFinite(slope)) {
+    return { success: false, error: `f is not differentiable at x = ${a}` };
+  }
+
+  const m = roundValue(slope);
+  const intercept = roundValue(y - slope * a);
+  const line = intercept === 0 ? `${m} * x` : `${m} * x ${intercept < 0 ? '-' : '+'} ${Math.abs(intercept)}`;
+  return { success: true, point: { x: a, y: roundValue(y) }, slope: m, line };
+}
+
+/**
+ * Definite integral of f over [a, b] by Simpson's rule. Fails when f is
+ * undefined anywhere it is sampled, e.g. 1/x across 0.
+ */
+export function integrate(expression: string, [a, b]: [number, number]): CalculusResult<{ value: number }> {
+  const compiled = compileExpression(expression);
+  if (!compiled.success) {
+    return compiled;
+  }
+
+  const h = (b - a) / INTEGRAL_INTERVALS;
+  let sum = 0;
+  for (let i = 0; i <= INTEGRAL_INTERVALS; i++) {
+    const y = compiled.evaluate(a + i * h);
+    if (!Number.isFinite(y)) {
+      return { success: false, error: `f is not defined everywhere on [${a}, ${b}]` };
+    }
+    sum += i === 0 || i === INTEGRAL_INTERVALS ? y : i % 2 === 1 ? 4 * y : 2 * y;
+  }
+  return { success: true, value: (sum * h) / 3 };
+}
+
+/**
+ * Rectangles of a Riemann sum of f over [a, b] with n subintervals, and their
+ * signed total (NaN if f is undefined at any sample point)
+ */
+export function riemannSum(
+  f: (x: number) => number,
+  [a, b]: [number, number],
+  n: number,
+  rule: RiemannRule
+): { rectangles: RiemannRectangle[]; sum: number } {
+  const count = Math.max(1, Math.round(n));
+  const width = (b - a) / count;
+  const offset = rule === 'left' ? 0 : rule === 'right' ? 1 : 0.5;
+  const rectangles: RiemannRectangle[] = [];
+  let sum = 0;
+  for (let i = 0; i < count; i++) {
+    const x0 = a + i * width;
+    const y = f(x0 + offset * width);
+    const height = Number.isFinite(y) ? y : NaN;
+    rectangles.push({ x0, x1: x0 + width, height });
+    sum += height * width;
+  }
+  return { rectangles, sum };
+}
+
+function evaluateAt(expression: string, x: number): number {
+  const compiled = compileExpression(expression);
+  return compiled.success ? compiled.evaluate(x) : NaN;
+}
@@ -0,0 +1,659 @@
+import { BoardObject, BoardSnapshot, TutorAction, TutorResponse } from './types';
+import { normalizeSpokenMath } from './spokenMath';
+import { isParameterName } from './mathParser';
+import {
+  Asymptote,
+  DEFAULT_ANALYSIS_DOMAIN,
+  FeaturePoint,
+  findAsymptotes,
+  findInflectionPoints,
+  findIntersections,
+  findRoots,
+  findTurningPoints,
+  findYIntercept,
+} from './graphAnalysis';
+
+/**
+ * Deterministic interpreter for common phrasings: "graph 3cos(x)", "x squared
+ * plus 2x plus 1", "label the vertex", "clear the board", "zoom in", "show x
+ * from 0 to 50", "draw a circle of radius 3", "plot r = 1 + cos(theta)", "shade y > x^2 - 4",
+ * "graph a*sin(b*x)", "set a to 3", "animate b from 1 to 5", "draw the tangent at x = 1",
+ * "graph the derivative", "shade the area under the curve from 0 to 2", "show the left riemann sum from 0 to 2",
+ * "label the turning points", "find the asymptotes of 1/x", "where do these cross".
+ * Returns null when no rule matches so the caller can fall back to the model.
+ * The client runs it before calling the server, and the server before calling
+ * the model (or instead of it, with no API key).
+ */
+
+// Words an expression may contain besides its variables; anything else goes to the model
+const EXPRESSION_WORDS = new Set([
+  'sin', 'cos', 'tan', 'sqrt', 'cbrt', 'log', 'ln', 'exp', 'abs', 'pi', 'e',
+]);
+
+// Letters a spoken graph may use as free constants ("a x^2 + b x + c"), declared with a default slider
+const PARAMETER_WORDS = ['a', 'b', 'c', 'd', 'h', 'k', 'm', 'n'];
+const DEFAULT_PARAMETER = { value: 1, min: -5, max: 5 };
+const DEFAULT_RIEMANN_N = 10;
+const MAX_RIEMANN_N = 100;
+
+type Feature = 'vertex' | 'roots' | 'y-intercept' | 'turning points' | 'inflection points' | 'asymptotes';
+
+const FEATURE_NAMES: Record<string, Feature> = {
+  vertex: 'vertex',
+  root: 'roots',
+  roots: 'roots',
+  zero: 'roots',
+  zeros: 'roots',
+  'x-intercept': 'roots',
+  'x-intercepts': 'roots',
+  'y-intercept': 'y-intercept',
+  'turning point': 'turning points',
+  'turning points': 'turning points',
+  extremum: 'turning points',
+  extrema: 'turning points',
+  maximum: 'turning points',
+  maxima: 'turning points',
+  minimum: 'turning points',
+  minima: 'turning points',
+  'inflection point': 'inflection points',
+  'inflection points': 'inflection points',
+  'point of inflection': 'inflection points',
+  'points of inflection': 'inflection points',
+  asymptote: 'asymptotes',
+  asymptotes: 'asymptotes',
+};
+
+const FEATURE_PATTERN =
+  '(vertex|roots?|zeros?|x-intercepts?|y-intercept|turning\\s+points?|extrema|extremum|maxima|maximum|minima|minimum|inflection\\s+points?|points?\\s+of\\s+inflection|asymptotes?)';
+// Searched when a feature is not in view, to tell "none here" from "none at all"
+const WIDE_DOMAIN: [number, number] = [-1000, 1000];
+const FUNCTION_PREFIX = '(?:(?:y|f\\(x\\)|f of x)\\s*(?:=|equals)\\s*)?';
+const NUMBER = '(?:-\\s*|minus\\s+|negative\\s+)?\\d+(?:\\.\\d+)?';
+const RANGE = `(${NUMBER})\\s+(?:to|and)\\s+(${NUMBER})`;
+const AXIS_RANGE = `(x|y)(?:[- ]?(?:axis|range|values))?\\s+(?:from|between)\\s+${RANGE}`;
+
+const CLEAR_PATTERN = /^(?:clear|wipe|erase|reset)(?:\s+(?:the\s+)?(?:board|canvas|screen|whiteboard|everything|all))?$/;
+const ZOOM_PATTERN = /^zoom\s+(in|out)$/;
+const RESET_VIEW_PATTERN = /^(?:reset|restore)\s+(?:the\s+)?(?:zoom|view|viewport)$/;
+const FIT_VIEW_PATTERN = /^(?:zoom\s+to\s+fit|fit\s+(?:the\s+)?(?:graphs?|view|board))$/;
+const VIEW_PATTERN = new RegExp(
+  `^(?:show|view|display|set|zoom\\s+to)\\s+(?:me\\s+)?(?:the\\s+)?${AXIS_RANGE}(?:,?\\s+and\\s+(?:the\\s+)?${AXIS_RANGE})?$`
+);
+const DRAW_VERB = '(?:graph|plot|draw|show)\\s+(?:me\\s+)?';
+const CIRCLE_PATTERN = new RegExp(
+  `^${DRAW_VERB}(?:a\\s+)?circle\\s+(?:of|with)\\s+(?:a\\s+)?radius\\s+(${NUMBER})(?:\\s+(?:centered|centred|at)(?:\\s+at)?\\s+\\(?\\s*(${NUMBER})\\s*,\\s*(${NUMBER})\\s*\\)?)?$`
+);
+const POLAR_PATTERN = new RegExp(
+  `^${DRAW_VERB}(?:the\\s+)?(?:polar\\s+(?:curve|graph)\\s+)?r\\s*(?:=|equals)\\s*(.+)$`
+);
+const PARAMETRIC_PATTERN = new RegExp(
+  `^${DRAW_VERB}(?:the\\s+)?(?:parametric\\s+(?:curve|graph)\\s+)?x\\s*(?:=|equals)\\s*(.+?),?\\s+(?:and\\s+)?y\\s*(?:=|equals)\\s*(.+?)(?:\\s+for\\s+t\\s+(?:from|between)\\s+${RANGE})?$`
+);
+const EQUATION_PATTERN = new RegExp(
+  `^${DRAW_VERB}(?:the\\s+)?(?:equation\\s+|curve\\s+)?(.+?)\\s*(?:=|equals)\\s*(.+)$`
+);
+const GRAPH_PATTERN = new RegExp(
+  `^${DRAW_VERB}(?:the\\s+)?(?:(?:function|graph of|curve)\\s+)?${FUNCTION_PREFIX}(.+?)(?:\\s+(?:from|between|for\\s+x\\s+(?:from|between))\\s+${RANGE})?(?:\\s+and\\s+label\\s+(?:the\\s+)?${FEATURE_PATTERN})?$`
+);
+const REGION_PATTERN = new RegExp(
+  `^(?:(?:shade|fill(?:\\s+in)?|highlight)\\s+(?:the\\s+)?(?:(?:region|(area))\\s+)?(?:where\\s+)?|show\\s+(?:the\\s+)?(?:(?:region|area)\\s+)?where\\s+)(.+?)(?:\\s+(?:from|for\\s+x\\s+(?:from|between))\\s+${RANGE})?$`
+);
+const ADJUST_PATTERN = new RegExp(
+  `^(?:set|change|make|put|increase|decrease|raise|lower|move|slide)\\s+(?:the\\s+)?(?:parameter\\s+|value\\s+of\\s+)?([a-z])\\s+(?:(?:up|down)\\s+)?(?:to|=|equal\\s+to)\\s+(${NUMBER})$`
+);
+const ANIMATE_PATTERN = new RegExp(
+  `^(?:animate|sweep|slide|vary)\\s+(?:the\\s+)?(?:parameter\\s+)?([a-z])\\s+from\\s+(${NUMBER})\\s+to\\s+(${NUMBER})$`
+);
+const TANGENT_PATTERN = new RegExp(
+  `^(?:(?:draw|show|graph|plot|add|find)\\s+(?:me\\s+)?)?(?:the\\s+|a\\s+)?tangent(?:\\s+line)?(?:\\s+(?:to|of)\\s+${FUNCTION_PREFIX}(.+?))?\\s+at\\s+(?:x\\s*(?:=|equals)\\s*)?(${NUMBER})$`
+);
+const DERIVATIVE_PATTERN = new RegExp(
+  `^(?:(?:draw|show|graph|plot|overlay|add)\\s+(?:me\\s+)?(?:the\\s+)?derivative(?:\\s+of)?|differentiate)(?:\\s+${FUNCTION_PREFIX}(.+))?$`
+);
+// "The area under the curve from 0 to 2" is the integral of the latest graph; without bounds it is a region
+const INTEGRAL_SUBJECT =
+  '(?:the\\s+)?(?:(?:definite\\s+)?integral\\s+(?:of\\s+)?|area\\s+under\\s+(?:the\\s+(?:curve|graph)\\s+(?:of\\s+)?)?)';
+const INTEGRAL_PATTERN = new RegExp(
+  `^(?:(?:(?:shade|show|find|compute|calculate|draw)\\s+(?:me\\s+)?)?${INTEGRAL_SUBJECT}|integrate\\s+)(?:${FUNCTION_PREFIX}(.+?)\\s+)?(?:from|between)\\s+${RANGE}$`
+);
+const RIEMANN_PATTERN = new RegExp(
+  `^(?:(?:draw|show|animate)\\s+(?:me\\s+)?)?(?:the\\s+|a\\s+)?(left|right|midpoint|middle)(?:[- ]hand)?(?:[- ]endpoint)?\\s+(?:riemann\\s+)?sum\\s+(?:(?:of|for)\\s+${FUNCTION_PREFIX}(.+?)\\s+)?(?:from|between)\\s+${RANGE}(?:\\s+(?:with|using)\\s+(?:n\\s*(?:=|equals)\\s*)?(\\d+)(?:\\s+(?:rectangles|intervals|subintervals|strips))?)?$`
+);
+const LABEL_PATTERN = new RegExp(
+  `^(?:label|mark|find|show)\\s+(?:me\\s+)?(?:the\\s+)?${FEATURE_PATTERN}(?:\\s+of\\s+${FUNCTION_PREFIX}(.+))?$`
+);
+const INTERSECTION_SUBJECT =
+  '(?:intersections?|intersection\\s+points?|points?\\s+of\\s+intersection|crossing\\s+points?)';
+const INTERSECTION_PATTERN = new RegExp(
+  `^(?:(?:label|mark|find|show)\\s+(?:me\\s+)?(?:the\\s+)?${INTERSECTION_SUBJECT}(?:\\s+of\\s+${FUNCTION_PREFIX}(.+?)\\s+and\\s+${FUNCTION_PREFIX}(.+))?|(?:(?:show|find)\\s+(?:me\\s+)?)?where\\s+(?:do\\s+)?(?:(?:these|they)(?:\\s+two)?|the\\s+(?:two\\s+)?(?:graphs|curves|lines)|${FUNCTION_PREFIX}(.+?)\\s+and\\s+${FUNCTION_PREFIX}(.+?))\\s+(?:cross|intersect|meet)(?:\\s+each\\s+other)?)$`
+);
+
+// Spoken comparisons, longest first
+const COMPARISON_WORDS: [RegExp, string][] = [
+  [/\s+(?:is\s+)?(?:greater\s+than\s+or\s+equal\s+to|at\s+least)\s+/g, ' >= '],
+  [/\s+(?:is\s+)?(?:less\s+than\s+or\s+equal\s+to|at\s+most)\s+/g, ' <= '],
+  [/\s+(?:is\s+)?(?:greater|more)\s+than\s+/g, ' > '],
+  [/\s+(?:is\s+)?less\s+than\s+/g, ' < '],
+];
+const ABOVE = new Set(['above', 'over']);
+
+/**
+ * Convert a spoken or typed phrase to a mathjs expression, or null if it
+ * contains anything that is not plain math in the given variables.
+ */
+export function toExpression(phrase: string, variables: string[] = ['x']): string | null {
+  const expression = normalizeSpokenMath(phrase.toLowerCase().replace(/θ/g, 'theta'))
+    .replace(/\s*\^\s*/g, '^')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!expression || !/^[0-9a-z+\-*/^().\s]+$/.test(expression)) {
+    return null;
+  }
+
+  const words = expression.match(/[a-z]+/g) ?? [];
+  if (!words.every((word) => variables.includes(word) || EXPRESSION_WORDS.has(word))) {
+    return null;
+  }
+
+  // Balanced parentheses
+  let depth = 0;
+  for (const char of expression) {
+    if (char === '(') depth++;
+    if (char === ')' && --depth < 0) return null;
+  }
+  return depth === 0 ? expression : null;
+}
+
+// "-5", "minus 5", "negative 2.5"
+function parseNumber(text: string): number {
+  return Number(text.replace(/^(?:minus|negative)\s+/, '-').replace(/\s+/g, ''));
+}
+
+// Ascending [min, max] from two spoken bounds, or null if they are equal
+function parseRange(from: string, to: string): [number, number] | null {
+  const a = parseNumber(from);
+  const b = parseNumber(to);
+  return a === b ? null : [Math.min(a, b), Math.max(a, b)];
+}
+
+// Visible ranges from "show x from 0 to 50 and y from -1 to 1"
+function viewRanges(match: RegExpMatchArray): { domain?: [number, number]; y_range?: [number, number] } | null {
+  const meta: { domain?: [number, number]; y_range?: [number, number] } = {};
+  for (const offset of [1, 4]) {
+    const axis = match[offset];
+    if (!axis) continue;
+    const range = parseRange(match[offset + 1], match[offset + 2]);
+    const key = axis === 'x' ? 'domain' : 'y_range';
+    if (!range || meta[key]) return null; // Empty range or the same axis twice
+    meta[key] = range;
+  }
+  return meta;
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000 + 0; // + 0 drops -0
+
+function pointLabel(name: string, x: number, y: number): string {
+  return `${name} (${x}, ${y})`;
+}
+
+function explain(content: string): TutorAction {
+  return { action: 'explain', subject: 'math', content };
+}
+
+// Labels at computed points, rounded for display
+function annotatePoints(
+  content: string,
+  points: (FeaturePoint & { name: string })[],
+  target?: string
+): TutorAction {
+  const rounded = points.map(({ x, y, name }) => ({ x: round(x), y: round(y), name }));
+  return {
+    action: 'annotate',
+    subject: 'math',
+    content,
+    visual_type: 'label',
+    meta: {
+      points: rounded.map(({ x, y }) => ({ x, y })),
+      labels: rounded.map(({ x, y, name }) => pointLabel(name, x, y)),
+      ...(target ? { target } : {}),
+    },
+  };
+}
+
+// " for x from a to b" when there are some outside the range searched, so "none" is not overstated
+function searchedRange(domain: [number, number], elsewhere: boolean): string {
+  return elsewhere ? ` for x from ${round(domain[0])} to ${round(domain[1])}` : '';
+}
+
+// Asymptote lines, drawn as implicit curves so a later "label the roots" skips them, and their equations
+function asymptoteActions(
+  asymptotes: Asymptote[],
+  domain: [number, number],
+  expression: string
+): TutorAction[] {
+  const inset = (domain[1] - domain[0]) / 10;
+  const lines = asymptotes.map((asymptote) =>
+    asymptote.kind === 'vertical'
+      ? { equation: `x = ${round(asymptote.x)}`, point: { x: round(asymptote.x), y: 0 } }
+      : {
+          equation: `y = ${round(asymptote.y)}`,
+          point: {
+            x: round(asymptote.towards === 'left' ? domain[0] + inset : domain[1] - inset),
+            y: round(asymptote.y),
+          },
+        }
+  );
+  return [
+    ...lines.map(({ equation }) => drawCurve('implicit', equation)),
+    {
+      action: 'annotate',
+      subject: 'math',
+      content: 'Asymptotes',
+      visual_type: 'label',
+      meta: {
+        points: lines.map(({ point }) => point),
+        labels: lines.map(({ equation }) => `Asymptote ${equation}`),
+        target: expression,
+      },
+    },
+  ];
+}
+
+/**
+ * Annotation (or explanation, when there is nothing to mark) for a graph
+ * feature, computed over the domain. Null when the expression cannot be
+ * analysed, or for a "vertex" of a curve without exactly one turning point.
+ */
+function featureActions(
+  expression: string,
+  feature: Feature,
+  domain: [number, number]
+): TutorAction[] | null {
+  switch (feature) {
+    case 'vertex': {
+      const turning = findTurningPoints(expression, domain);
+      if (!turning.success || turning.points.length !== 1) return null;
+      return [annotatePoints('Vertex', [{ ...turning.points[0], name: 'Vertex' }], expression)];
+    }
+    case 'roots': {
+      const roots = findRoots(expression, domain);
+      if (!roots.success) return null;
+      if (roots.points.length === 0) {
+        const wide = findRoots(expression, WIDE_DOMAIN);
+        const elsewhere = wide.success && wide.points.length > 0;
+        return [explain(`y = ${expression} has no real roots${searchedRange(domain, elsewhere)}.`)];
+      }
+      return [annotatePoints('Roots', roots.points.map((point) => ({ ...point, name: 'Root' })), expression)];
+    }
+    case 'y-intercept': {
+      const intercept = findYIntercept(expression);
+      if (!intercept.success) return null;
+      if (!intercept.point) return [explain(`y = ${expression} is not defined at x = 0, so it has no y-intercept.`)];
+      return [annotatePoints('y-intercept', [{ ...intercept.point, name: 'y-intercept' }], expression)];
+    }
+    case 'turning points': {
+      const turning = findTurningPoints(expression, domain);
+      if (!turning.success) return null;
+      if (turning.points.length === 0) {
+        const wide = findTurningPoints(expression, WIDE_DOMAIN);
+        const elsewhere = wide.success && wide.points.length > 0;
+        return [explain(`y = ${expression} has no turning points${searchedRange(domain, elsewhere)}.`)];
+      }
+      const points = turning.points.map((point) => ({
+        ...point,
+        name: point.kind === 'maximum' ? 'Maximum' : 'Minimum',
+      }));
+      return [annotatePoints('Turning points', points, expression)];
+    }
+    case 'inflection points': {
+      const inflections = findInflectionPoints(expression, domain);
+      if (!inflections.success) return null;
+      if (inflections.points.length === 0) {
+        const wide = findInflectionPoints(expression, WIDE_DOMAIN);
+        const elsewhere = wide.success && wide.points.length > 0;
+        return [explain(`y = ${expression} has no inflection points${searchedRange(domain, elsewhere)}.`)];
+      }
+      const points = inflections.points.map((point) => ({ ...point, name: 'Inflection point' }));
+      return [annotatePoints('Inflection points', points, expression)];
+    }
+    case 'asymptotes': {
+      const result = findAsymptotes(expression, domain);
+      if (!result.success) return null;
+      if (result.asymptotes.length === 0) {
+        const wide = findAsymptotes(expression, WIDE_DOMAIN);
+        const elsewhere = wide.success && wide.asymptotes.length > 0;
+        return [explain(`y = ${expression} has no asymptotes${searchedRange(domain, elsewhere)}.`)];
+      }
+      return asymptoteActions(result.asymptotes, domain, expression);
+    }
+  }
+}
+
+// Where two function graphs cross, or why they do not
+function intersectionActions(first: string, second: string, domain: [number, number]): TutorAction[] | null {
+  const intersections = findIntersections(first, second, domain);
+  if (!intersections.success) return null;
+  if (intersections.points.length === 0) {
+    const wide = findIntersections(first, second, WIDE_DOMAIN);
+    const elsewhere = wide.success && wide.points.length > 0;
+    return [explain(`y = ${first} and y = ${second} do not cross${searchedRange(domain, elsewhere)}.`)];
+  }
+  const points = intersections.points.map((point) => ({ ...point, name: 'Intersection' }));
+  return [annotatePoints('Intersections', points)];
+}
+
+function drawAction(expression: string, domain?: [number, number], parameters: string[] = []): TutorAction {
+  const action: TutorAction = { action: 'draw', subject: 'math', content: expression, visual_type: 'graph' };
+  const meta = {
+    ...(domain ? { domain } : {}),
+    ...(parameters.length > 0 ? { parameters: parameters.map((name) => ({ name, ...DEFAULT_PARAMETER })) } : {}),
+  };
+  return Object.keys(meta).length > 0 ? { ...action, meta } : action;
+}
+
+// Parameter words used in an expression, in alphabetical order
+function expressionParameters(expression: string): string[] {
+  const words = new Set(expression.match(/[a-z]+/g) ?? []);
+  return PARAMETER_WORDS.filter((name) => words.has(name));
+}
+
+// Id of the most recent graph on the board declaring a parameter
+function parameterTarget(name: string, board?: BoardSnapshot): string | undefined {
+  const graphs = board?.objects.filter((object) => object.parameters?.some((parameter) => parameter.name === name));
+  return graphs?.[graphs.length - 1]?.id;
+}
+
+// "set a to 3" jumps, "animate b from 1 to 5" sweeps
+function adjustAction(name: string, value: number, board?: BoardSnapshot, from?: number): TutorAction | null {
+  if (!isParameterName(name)) {
+    return null;
+  }
+  const target = parameterTarget(name, board);
+  return {
+    action: 'adjust',
+    content: from === undefined ? 'set' : 'animate',
+    meta: {
+      parameters: [from === undefined ? { name, value } : { name, value, from }],
+      ...(target ? { target } : {}),
+    },
+  };
+}
+
+function drawRegion(inequalities: string, domain?: [number, number]): TutorAction {
+  const action: TutorAction = { action: 'draw', subject: 'math', content: inequalities, visual_type: 'region' };
+  return domain ? { ...action, meta: { domain } } : action;
+}
+
+// Inequalities of a spoken region: "y > x^2 - 4", "between x and x^2", "sin x
+// is above cos x", "below x^2", "x + y <= 4 and x >= 0". The area under a
+// curve lies between it and the x-axis, not everything below it
+function regionInequalities(body: string, areaUnder = false): string | null {
+  let text = body.replace(/≥/g, '>=').replace(/≤/g, '<=');
+  for (const [pattern, operator] of COMPARISON_WORDS) {
+    text = text.replace(pattern, operator);
+  }
+
+  const between = text.match(/^between\s+(.+?)\s+and\s+(.+)$/);
+  if (between) {
+    const a = toExpression(between[1]);
+    const b = toExpression(between[2]);
+    return a && b ? `min(${a}, ${b}) <= y <= max(${a}, ${b})` : null;
+  }
+
+  const side = text.match(/^(?:y\s+(?:is\s+)?)?(above|over|below|under)\s+(?:the\s+(?:curve|graph|line)\s+)?(?:y\s*=\s*)?(.+)$/);
+  if (side) {
+    const a = toExpression(side[2]);
+    if (!a) return null;
+    if (areaUnder) return `min(0, ${a}) <= y <= max(0, ${a})`;
+    return `y ${ABOVE.has(side[1]) ? '>' : '<'} ${a}`;
+  }
+
+  // Between two curves, where the first is above (or below) the second
+  const compare = text.match(/^(.+?)\s+(?:is\s+)?(above|over|below|under)\s+(.+)$/);
+  if (compare) {
+    const a = toExpression(compare[1]);
+    const b = toExpression(compare[3]);
+    if (!a || !b) return null;
+    return ABOVE.has(compare[2]) ? `${b} < y < ${a}` : `${a} < y < ${b}`;
+  }
+
+  // Inequalities in x and y, separated by commas or "and"
+  const inequalities = text.split(/\s*,\s*(?:and\s+)?|\s+and\s+/).map((part) => {
+    const pieces = part.split(/\s*(<=|>=|<|>)\s*/);
+    if (pieces.length < 3) return null;
+    const terms = pieces.map((piece, i) => (i % 2 === 0 ? toExpression(piece, ['x', 'y']) : piece));
+    return terms.every(Boolean) ? terms.join(' ') : null;
+  });
+  return inequalities.every(Boolean) ? inequalities.join(', ') : null;
+}
+
+function drawCurve(
+  curve: 'parametric' | 'polar' | 'implicit',
+  content: string,
+  tRange?: [number, number]
+): TutorAction {
+  return {
+    action: 'draw',
+    subject: 'math',
+    content,
+    visual_type: 'graph',
+    meta: tRange ? { curve, t_range: tRange } : { curve },
+  };
+}
+
+// "draw a circle of radius 3 centered at (1, 2)" as x(t), y(t)
+function circleCurve(match: RegExpMatchArray): string | null {
+  const radius = parseNumber(match[1]);
+  if (!(radius > 0)) {
+    return null;
+  }
+  const offset = (text: string | undefined) => {
+    const value = text ? parseNumber(text) : 0;
+    return value === 0 ? '' : value < 0 ? ` - ${-value}` : ` + ${value}`;
+  };
+  return `${radius}cos(t)${offset(match[2])}, ${radius}sin(t)${offset(match[3])}`;
+}
+
+// "x^2 + y^2 = 9" as an implicit curve, or null for "y = f(x)" and non-equations
+function implicitEquation(match: RegExpMatchArray): string | null {
+  const left = toExpression(match[1], ['x', 'y']);
+  const right = toExpression(match[2], ['x', 'y']);
+  if (!left || !right || left === 'y' || !/[xy]/.test(`${left} ${right}`.replace(/exp/g, ''))) {
+    return null;
+  }
+  return `${left} = ${right}`;
+}
+
+// Graphs of y = f(x) on the board (not other curve kinds), oldest first
+function functionGraphs(board?: BoardSnapshot): BoardObject[] {
+  return (
+    board?.objects.filter(
+      (object) => object.type === 'graph' && object.expression && (object.kind ?? 'function') === 'function'
+    ) ?? []
+  );
+}
+
+function latestGraph(board?: BoardSnapshot): string | null {
+  const graphs = functionGraphs(board);
+  return graphs.length > 0 ? graphs[graphs.length - 1].expression! : null;
+}
+
+// Where features are looked for: the graph's own domain, else the visible range
+function analysisDomain(board?: BoardSnapshot, graph?: BoardObject): [number, number] {
+  return graph?.domain ?? board?.viewport?.x ?? DEFAULT_ANALYSIS_DOMAIN;
+}
+
+function calculusAction(
+  operation: 'tangent' | 'derivative' | 'integral' | 'riemann',
+  expression: string,
+  meta: TutorAction['meta'] = {}
+): TutorAction {
+  return { action: 'calculus', subject: 'math', content: operation, meta: { target: expression, ...meta } };
+}
+
+// Tangent, derivative, integral and Riemann sum commands, on a spoken function or the latest graph
+function calculusCommand(command: string, board?: BoardSnapshot): TutorResponse | null | undefined {
+  const target = (phrase: string | undefined) => (phrase ? toExpression(phrase) : latestGraph(board));
+
+  const tangent = command.match(TANGENT_PATTERN);
+  if (tangent) {
+    const expression = target(tangent[1]);
+    return expression ? { actions: [calculusAction('tangent', expression, { at: parseNumber(tangent[2]) })] } : null;
+  }
+
+  const derivative = command.match(DERIVATIVE_PATTERN);
+  if (derivative) {
+    const expression = target(derivative[1]);
+    return expression ? { actions: [calculusAction('derivative', expression)] } : null;
+  }
+
+  const integral = command.match(INTEGRAL_PATTERN);
+  if (integral) {
+    const expression = target(integral[1]);
+    const domain = parseRange(integral[2], integral[3]);
+    return expression && domain ? { actions: [calculusAction('integral', expression, { domain })] } : null;
+  }
+
+  const riemann = command.match(RIEMANN_PATTERN);
+  if (riemann) {
+    const expression = target(riemann[2]);
+    const domain = parseRange(riemann[3], riemann[4]);
+    const n = riemann[5] ? Math.min(MAX_RIEMANN_N, Math.max(1, Number(riemann[5]))) : DEFAULT_RIEMANN_N;
+    const rule = riemann[1] === 'middle' ? 'midpoint' : (riemann[1] as 'left' | 'right' | 'midpoint');
+    return expression && domain ? { actions: [calculusAction('riemann', expression, { domain, rule, n })] } : null;
+  }
+
+  return undefined; // Not a calculus command
+}
+
+export function interpretLocally(transcript: string, board?: BoardSnapshot): TutorResponse | null {
+  const command = transcript
+    .trim()
+    .toLowerCase()
+    .replace(/[.!?]+$/, '')
+    .replace(/^(?:please|can you|could you)\s+/, '')
+    .replace(/\s+please$/, '');
+
+  if (CLEAR_PATTERN.test(command)) {
+    return { actions: [{ action: 'clear', content: 'board' }] };
+  }
+
+  const zoom = command.match(ZOOM_PATTERN);
+  if (zoom) {
+    return { actions: [{ action: 'zoom', content: zoom[1] }] };
+  }
+
+  if (RESET_VIEW_PATTERN.test(command)) {
+    return { actions: [{ action: 'zoom', content: 'reset' }] };
+  }
+
+  if (FIT_VIEW_PATTERN.test(command)) {
+    return { actions: [{ action: 'zoom', content: 'fit' }] };
+  }
+
+  // Before graphs: "show x from 0 to 50" is not an expression to plot
+  const view = command.match(VIEW_PATTERN);
+  if (view) {
+    const meta = viewRanges(view);
+    return meta ? { actions: [{ action: 'zoom', content: 'range', meta }] } : null;
+  }
+
+  const adjust = command.match(ADJUST_PATTERN);
+  if (adjust) {
+    const action = adjustAction(adjust[1], parseNumber(adjust[2]), board);
+    return action ? { actions: [action] } : null;
+  }
+
+  const animate = command.match(ANIMATE_PATTERN);
+  if (animate) {
+    const action = adjustAction(animate[1], parseNumber(animate[3]), board, parseNumber(animate[2]));
+    return action ? { actions: [action] } : null;
+  }
+
+  const label = command.match(LABEL_PATTERN);
+  if (label) {
+    const graph = label[2] ? undefined : functionGraphs(board).pop();
+    const expression = label[2] ? toExpression(label[2]) : graph?.expression;
+    const feature = FEATURE_NAMES[label[1].replace(/\s+/g, ' ')];
+    const actions = expression ? featureActions(expression, feature, analysisDomain(board, graph)) : null;
+    return actions ? { actions } : null;
+  }
+
+  // Before regions: "show where x^2 and 2x cross" is not a region
+  const intersection = command.match(INTERSECTION_PATTERN);
+  if (intersection) {
+    const named = [intersection[1] ?? intersection[3], intersection[2] ?? intersection[4]];
+    const [first, second] = named[0]
+      ? named.map((phrase) => toExpression(phrase!))
+      : functionGraphs(board)
+          .slice(-2)
+          .map((graph) => graph.expression!);
+    const actions = first && second ? intersectionActions(first, second, analysisDomain(board)) : null;
+    return actions ? { actions } : null;
+  }
+
+  // Before regions and graphs: "shade the area under the curve from 0 to 2" is an integral
+  const calculus = calculusCommand(command, board);
+  if (calculus !== undefined) {
+    return calculus;
+  }
+
+  // Before graphs: "show where sin x is above cos x" is not an expression to plot
+  const region = command.match(REGION_PATTERN);
+  if (region) {
+    const areaUnder = region[1] !== undefined && /^(?:under|below)\s/.test(region[2]);
+    const inequalities = regionInequalities(region[2], areaUnder);
+    const domain = region[3] ? parseRange(region[3], region[4]) : undefined;
+    return inequalities && domain !== null ? { actions: [drawRegion(inequalities, domain)] } : null;
+  }
+
+  // Curves in other variables before graphs of x
+  const circle = command.match(CIRCLE_PATTERN);
+  if (circle) {
+    const content = circleCurve(circle);
+    return content ? { actions: [drawCurve('parametric', content)] } : null;
+  }
+
+  const polar = command.match(POLAR_PATTERN);
+  if (polar) {
+    const r = toExpression(polar[1], ['theta']);
+    return r ? { actions: [drawCurve('polar', r)] } : null;
+  }
+
+  const parametric = command.match(PARAMETRIC_PATTERN);
+  if (parametric) {
+    const x = toExpression(parametric[1], ['t']);
+    const y = toExpression(parametric[2], ['t']);
+    const tRange = parametric[3] ? parseRange(parametric[3], parametric[4]) : undefined;
+    return x && y && tRange !== null ? { actions: [drawCurve('parametric', `${x}, ${y}`, tRange)] } : null;
+  }
+
+  const equation = command.match(EQUATION_PATTERN);
+  const implicit = equation && implicitEquation(equation);
+  if (implicit) {
+    return { actions: [drawCurve('implicit', implicit)] };
+  }
+
+  const graph = command.match(GRAPH_PATTERN);
+  if (graph) {
+    const expression = toExpression(graph[1], ['x', ...PARAMETER_WORDS]);
+    const domain = graph[2] ? parseRange(graph[2], graph[3]) : undefined;
+    if (!expression || domain === null) return null;
+    const draw = drawAction(expression, domain, expressionParameters(expression));
+    if (!graph[4]) {
+      return { actions: [draw] };
+    }
+    const feature = FEATURE_NAMES[graph[4].replace(/\s+/g, ' ')];
+    const annotations = featureActions(expression, feature, domain ?? analysisDomain(board));
+    return annotations ? { actions: [draw, ...annotations] } : null;
+  }
+
+  // A bare expression in x ("x squared plus 2x plus 1") means "graph it"
+  const bare = toExpression(command.replace(new RegExp(`^${FUNCTION_PREFIX}`), ''));
+  if (bare && /x/.test(bare.replace(/exp/g, ''))) {
+    return { actions: [drawAction(bare)] };
+  }
+
+  return null;
+}
@@ -0,0 +1,452 @@
+/**
+ * Rewrites spoken math in a transcript into mathjs syntax:
+ * "sign of x" -> "sin(x)", "x to the third" -> "x^3", "two pi" -> "2pi",
+ * "square root of the quantity x plus one" -> "sqrt(x + 1)", "the quantity x plus
+ * one squared" -> "(x + 1)^2", "a x squared plus b x plus c" -> "a x^2 + b x + c",
+ * "sine squared of x" -> "sin(x)^2", "r equals one plus cos theta" -> "r = 1 + cos(theta)".
+ *
+ * Only runs of words that look like math are rewritten; a run that does not
+ * parse (e.g. "the sign of the derivative") is left exactly as spoken.
+ */
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const ORDINALS: Record<string, number> = {
+  second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+};
+
+// Single words with a fixed meaning, including common speech-recognition homophones
+const WORD_TOKENS: Record<string, string> = {
+  plus: '+',
+  minus: '-',
+  times: '*',
+  over: '/',
+  equals: '=',
+  negative: 'neg',
+  sin: 'sin',
+  sine: 'sin',
+  sign: 'sin',
+  cos: 'cos',
+  cosine: 'cos',
+  cosign: 'cos',
+  'co-sign': 'cos',
+  'co-sine': 'cos',
+  tan: 'tan',
+  tangent: 'tan',
+  log: 'log',
+  ln: 'ln',
+  sqrt: 'sqrt',
+  root: 'sqrt',
+  abs: 'abs',
+  pi: 'pi',
+  'π': 'pi',
+  theta: 'theta',
+  'θ': 'theta',
+  quantity: '(',
+};
+
+// Multi-word phrases, longest first
+const PHRASES: [string[], string][] = [
+  [['raised', 'to', 'the', 'power', 'of'], '^'],
+  [['to', 'the', 'power', 'of'], '^'],
+  [['raised', 'to', 'the'], '^'],
+  [['is', 'equal', 'to'], '='],
+  [['open', 'parenthesis'], '('],
+  [['left', 'parenthesis'], '('],
+  [['close', 'parenthesis'], ')'],
+  [['right', 'parenthesis'], ')'],
+  [['the', 'quantity'], '('],
+  [['end', 'quantity'], ')'],
+  [['open', 'paren'], '('],
+  [['left', 'paren'], '('],
+  [['close', 'paren'], ')'],
+  [['right', 'paren'], ')'],
+  [['square', 'root'], 'sqrt'],
+  [['cube', 'root'], 'cbrt'],
+  [['absolute', 'value'], 'abs'],
+  [['natural', 'log'], 'ln'],
+  [['divided', 'by'], '/'],
+  [['multiplied', 'by'], '*'],
+  [['equal', 'to'], '='],
+  [['raised', 'to'], '^'],
+  [['co', 'sign'], 'cos'],
+  [['co', 'sine'], 'cos'],
+  [['to', 'the'], '^'],
+];
+
+const FUNCTIONS = new Set(['sin', 'cos', 'tan', 'log', 'ln', 'sqrt', 'cbrt', 'abs']);
+const VARIABLES = new Set(['x', 'y', 't', 'theta', 'pi', 'e', 'r']);
+const PARAMETERS = new Set(['a', 'b', 'c', 'd', 'k', 'm', 'n']); // Free constants, as in "a x squared plus b"
+const BINARY_OPERATORS = new Set(['+', '-', '*', '/', '=']);
+const FUNCTION_NAMES = new Set(['f', 'g', 'h']); // "f of x"
+
+// Words that only count as math next to stronger math words
+const WEAK_WORDS = new Set([
+  'of', 'the', 'to', 'power', 'raised', 'by', 'divided', 'multiplied', 'is', 'equal',
+  'square', 'cube', 'absolute', 'value', 'natural', 'open', 'close', 'left', 'right', 'end',
+  'co', 'point', 'paren', 'parenthesis', 'hundred', 'thousand', 'e', 'f', 'g', 'h', 'r',
+  ...PARAMETERS,
+]);
+const STRONG_WORDS = new Set(['x', 'y', 't', 'squared', 'cubed']);
+const EDGE_WORDS = new Set(['of', 'the', 'to', 'by', 'is', 'a']); // Never start or end a run
+
+const RAW_MATH = /[0-9+\-*/^=()]/;
+
+function isNumberWord(word: string): boolean {
+  return word in UNITS || word in TENS || word === 'hundred' || word === 'thousand';
+}
+
+function isOrdinal(word: string): boolean {
+  return word in ORDINALS || /^\d+(?:st|nd|rd|th)$/.test(word);
+}
+
+type Strength = 'strong' | 'weak' | null;
+
+function strength(word: string): Strength {
+  if (word in WORD_TOKENS || STRONG_WORDS.has(word) || RAW_MATH.test(word)) return 'strong';
+  if (isNumberWord(word) || isOrdinal(word) || WEAK_WORDS.has(word)) return 'weak';
+  return null;
+}
+
+function startsNumber(token: string): boolean {
+  return token in UNITS || token in TENS || token === 'point' || /^\d+(?:\.\d+)?$/.test(token);
+}
+
+// True for "(...)" where the outer parentheses match each other
+function isGroup(expression: string): boolean {
+  if (!expression.startsWith('(') || !expression.endsWith(')')) return false;
+  let depth = 0;
+  for (let i = 0; i < expression.length; i++) {
+    if (expression[i] === '(') depth++;
+    if (expression[i] === ')') depth--;
+    if (depth === 0 && i < expression.length - 1) return false;
+  }
+  return true;
+}
+
+function isRawAtom(token: string): boolean {
+  return RAW_MATH.test(token) && !BINARY_OPERATORS.has(token) && !['(', ')', '^'].includes(token);
+}
+
+/**
+ * Recursive-descent translation of one run of canonical tokens.
+ * Throws when the run is not a complete expression.
+ */
+function parseRun(run: string[]): string {
+  const tokens = [...run];
+  let pos = 0;
+
+  const peek = (offset = 0): string | undefined => tokens[pos + offset];
+  const next = (): string => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    return token;
+  };
+
+  const startsPrimary = (): boolean => {
+    const token = peek();
+    if (token === undefined) return false;
+    return (
+      token === '(' ||
+      startsNumber(token) ||
+      FUNCTIONS.has(token) ||
+      VARIABLES.has(token) ||
+      PARAMETERS.has(token) ||
+      (FUNCTION_NAMES.has(token) && peek(1) === 'of') ||
+      isRawAtom(token)
+    );
+  };
+
+  /**
+   * A group left open ("the quantity x plus one squared") ends before a power
+   * spoken at the very end of the run, so the power applies to the whole group.
+   * `start` is just inside the group; returns true when it closed it.
+   */
+  const closeBeforeTrailingPower = (start: number): boolean => {
+    let depth = 1;
+    for (let i = start; i < tokens.length; i++) {
+      if (tokens[i] === '(') depth++;
+      if (tokens[i] === ')' && --depth === 0) return false; // Closed explicitly (or already)
+    }
+
+    let end = tokens.length;
+    if (tokens[end - 1] === 'squared' || tokens[end - 1] === 'cubed') {
+      end--;
+    } else {
+      if (tokens[end - 1] === 'power') end--; // "to the third power"
+      const exponentEnd = end;
+      const isExponent = (token: string) => isNumberWord(token) || isOrdinal(token) || /^\d+$/.test(token);
+      while (end > start && isExponent(tokens[end - 1])) end--;
+      if (end === exponentEnd || tokens[end - 1] !== '^') return false;
+      end--;
+    }
+    if (end - start < 2) return false;
+    tokens.splice(end, 0, ')');
+    return true;
+  };
+
+  const parseNumber = (): string => {
+    if (/^\d/.test(peek()!)) {
+      return next();
+    }
+
+    let total = 0;
+    let current = 0;
+    let sawInteger = false;
+    while (peek() !== undefined && isNumberWord(peek()!)) {
+      const word = next();
+      if (word in UNITS) current += UNITS[word];
+      else if (word in TENS) current += TENS[word];
+      else if (word === 'hundred') current = (current || 1) * 100;
+      else {
+        total += (current || 1) * 1000; // "thousand"
+        current = 0;
+      }
+      sawInteger = true;
+    }
+
+    let decimals = '';
+    if (peek() === 'point') {
+      next();
+      while (peek() !== undefined && peek()! in UNITS && UNITS[peek()!] < 10) {
+        decimals += UNITS[next()];
+      }
+      if (!decimals) throw new Error('"point" without digits');
+    } else if (!sawInteger) {
+      throw new Error('Expected a number');
+    }
+
+    const integer = sawInteger ? String(total + current) : '0';
+    return decimals ? `${integer}.${decimals}` : integer;
+  };
+
+  const parsePrimary = (): string => {
+    const token = next();
+
+    if (token === '(') {
+      closeBeforeTrailingPower(pos);
+      const inner = parseExpression();
+      if (peek() === ')') {
+        next();
+      } else if (peek() !== undefined) {
+        throw new Error('Unclosed group');
+      }
+      return `(${inner})`; // A group left open runs to the end of the phrase
+    }
+
+    if (startsNumber(token)) {
+      pos--;
+      return parseNumber();
+    }
+
+    if (FUNCTIONS.has(token)) {
+      const power = parsePower(); // "sine squared of x"
+      if (peek() === 'of') next();
+      if (peek() === '(') {
+        // "square root of the quantity x plus one squared" squares the group inside the root
+        const argument = closeBeforeTrailingPower(pos + 1) ? `(${parseFactor()})` : parsePrimary();
+        return `${token}${argument}${power}`;
+      }
+      return `${token}(${parseTerm()})${power}`;
+    }
+
+    if (FUNCTION_NAMES.has(token) && peek() === 'of') {
+      next();
+      return `${token}(${parseTerm()})`;
+    }
+
+    if (VARIABLES.has(token) || PARAMETERS.has(token) || isRawAtom(token)) {
+      return token;
+    }
+
+    throw new Error(`Unexpected "${token}"`);
+  };
+
+  const parseExponent = (): string => {
+    const token = peek();
+    let exponent: string;
+    if (token !== undefined && isOrdinal(token)) {
+      next();
+      exponent = String(ORDINALS[token] ?? parseInt(token, 10));
+    } else if (token === '-' || token === 'neg') {
+      next();
+      exponent = `-${parseFactor()}`;
+    } else {
+      exponent = parseFactor();
+    }
+    if (peek() === 'power') {
+      next(); // "to the third power"
+    }
+    return /^[\w.]+$/.test(exponent) || isGroup(exponent) ? exponent : `(${exponent})`;
+  };
+
+  // "squared", "cubed" or "^ ...", or '' when no power follows
+  const parsePower = (): string => {
+    const token = peek();
+    if (token === 'squared') {
+      next();
+      return '^2';
+    }
+    if (token === 'cubed') {
+      next();
+      return '^3';
+    }
+    if (token === '^') {
+      next();
+      return `^${parseExponent()}`;
+    }
+    return '';
+  };
+
+  const parseFactor = (): string => {
+    let out = parsePrimary();
+    for (let power = parsePower(); power; power = parsePower()) {
+      out += power;
+    }
+    return out;
+  };
+
+  const parseTerm = (): string => {
+    let prefix = '';
+    if (peek() === '-' || peek() === 'neg') {
+      next();
+      prefix = '-';
+    }
+
+    let out = parseFactor();
+    // Implicit multiplication: "two x", "three sine of x", "two pi"
+    while (startsPrimary()) {
+      const factor = parseFactor();
+      if (/\d$/.test(out) && /^\d/.test(factor)) {
+        throw new Error('Adjacent numbers');
+      }
+      out += /[a-z]$/.test(out) && /^[a-z]/.test(factor) ? ` ${factor}` : factor;
+    }
+    return prefix + out;
+  };
+
+  function parseExpression(): string {
+    let out = parseTerm();
+    while (peek() !== undefined && BINARY_OPERATORS.has(peek()!)) {
+      const operator = next();
+      out += ` ${operator} ${parseTerm()}`;
+    }
+    return out;
+  }
+
+  const expression = parseExpression();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected "${tokens[pos]}"`);
+  }
+  return expression;
+}
+
+// Replace multi-word phrases and single words with canonical tokens
+function canonicalize(words: string[]): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+  outer: while (i < words.length) {
+    for (const [phrase, token] of PHRASES) {
+      if (phrase.every((word, offset) => words[i + offset] === word)) {
+        tokens.push(token);
+        i += phrase.length;
+        continue outer;
+      }
+    }
+    tokens.push(WORD_TOKENS[words[i]] ?? words[i]);
+    i++;
+  }
+  return tokens;
+}
+
+/**
+ * Translate a run of math words, or return null if it does not parse
+ */
+function translateRun(words: string[]): string | null {
+  try {
+    return parseRun(canonicalize(words));
+  } catch {
+    return null;
+  }
+}
+
+interface Word {
+  text: string; // As spoken, including trailing punctuation
+  lower: string[]; // Lowercased words for matching (hyphenated numbers split)
+  strength: Strength;
+  breaksAfter: boolean; // Trailing punctuation ends a run
+}
+
+function lexWord(text: string): Word {
+  const core = text.replace(/[.,!?;:]+$/, '');
+  const lower = core.toLowerCase();
+  const parts = /^[a-z]+-[a-z]+$/.test(lower) && lower.split('-').every(isNumberWord)
+    ? lower.split('-') // "twenty-five"
+    : [lower];
+  const strengths = parts.map(strength);
+  return {
+    text,
+    lower: parts,
+    strength: strengths.includes(null) ? null : strengths.includes('strong') ? 'strong' : 'weak',
+    breaksAfter: core.length < text.length,
+  };
+}
+
+export function normalizeSpokenMath(transcript: string): string {
+  const words = transcript.trim().split(/\s+/).filter(Boolean).map(lexWord);
+  const out: string[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    if (!words[i].strength) {
+      out.push(words[i].text);
+      i++;
+      continue;
+    }
+
+    // Maximal run of math words
+    let end = i;
+    while (end < words.length && words[end].strength && !(end > i && words[end - 1].breaksAfter)) {
+      end++;
+    }
+    let start = i;
+    const isEdge = (k: number) =>
+      words[k].lower.length === 1 &&
+      EDGE_WORDS.has(words[k].lower[0]) &&
+      !(words[k].lower[0] === 'the' && words[k + 1]?.lower[0] === 'quantity');
+    while (start < end && isEdge(start)) {
+      out.push(words[start].text);
+      start++;
+    }
+    let stop = end;
+    while (stop > start && isEdge(stop - 1)) {
+      stop--;
+    }
+
+    const run = words.slice(start, stop);
+    const runWords = run.flatMap((word) => word.lower);
+    const translated = run.some((word) => word.strength === 'strong') ? translateRun(runWords) : null;
+    if (translated !== null) {
+      // "the absolute value of x" -> "abs(x)", not "the abs(x)"
+      if (start > i && words[start - 1].lower[0] === 'the' && FUNCTIONS.has(canonicalize(runWords)[0])) {
+        out.pop();
+      }
+      const punctuation = run[run.length - 1].text.slice(run[run.length - 1].text.replace(/[.,!?;:]+$/, '').length);
+      out.push(translated + punctuation);
+    } else {
+      out.push(...run.map((word) => word.text));
+    }
+    out.push(...words.slice(stop, end).map((word) => word.text));
+    i = end;
+  }
+
+  return out.join(' ');
+}
@@ -0,0 +1,51 @@
+// Wire types the shared modules read and produce. The server validates the
+// same shapes with zod (server/src/schema), and the client extends actions
+// with the ones it expands locally (src/types).
+
+export type TutorAction = {
+  action: 'draw' | 'annotate' | 'explain' | 'quiz' | 'erase' | 'restyle' | 'clear' | 'zoom' | 'adjust' | 'calculus';
+  content: string;
+  subject?: 'math' | 'physics' | 'chemistry' | 'general';
+  visual_type?: 'graph' | 'diagram' | 'label' | 'region';
+  meta?: {
+    domain?: [number, number] | null;
+    y_range?: [number, number] | null;
+    curve?: 'function' | 'parametric' | 'polar' | 'implicit' | null;
+    t_range?: [number, number] | null;
+    parameters?:
+      | { name: string; value: number; min?: number | null; max?: number | null; from?: number | null }[]
+      | null;
+    at?: number | null;
+    rule?: 'left' | 'right' | 'midpoint' | null;
+    n?: number | null;
+    labels?: string[] | null;
+    points?: { x: number; y: number }[] | null;
+    target?: string | null;
+  };
+};
+
+export type TutorResponse = {
+  actions: TutorAction[];
+};
+
+// Board snapshot sent with interpret requests (see server boardSchema)
+export type BoardEvent = 'undo' | 'redo' | 'clear';
+
+export interface BoardObject {
+  id: string;
+  type: 'graph' | 'annotation' | 'diagram' | 'region' | 'riemann';
+  expression?: string; // Graphs and Riemann sums; inequalities of regions
+  kind?: 'function' | 'parametric' | 'polar' | 'implicit'; // Graphs; function when omitted
+  rule?: 'left' | 'right' | 'midpoint'; // Riemann sums
+  parameters?: { name: string; value: number; min: number; max: number }[]; // Graphs: free constants; Riemann sums: n
+  text?: string;
+  color?: string; // Palette name, e.g. "red"
+  domain?: [number, number];
+  position?: { x: number; y: number };
+}
+
+export interface BoardSnapshot {
+  objects: BoardObject[];
+  events?: BoardEvent[];
+  viewport?: { x: [number, number]; y: [number, number] }; // Visible world ranges
+}
@@ -1,4 +1,4 @@
-import { TutorResponse } from '../types';
+import { BoardSnapshot, DroppedAction, ModelOutputError, TutorAction, TutorResponse } from '../types';
 
 // Get API base URL from env
 // For local development: defaults to http://localhost:3000
@@ -6,38 +6,199 @@ import { TutorResponse } from '../types';
 // For same origin: set VITE_API_URL=''
 const API_BASE_URL = import.meta.env.VITE_API_URL ?? (import.meta.env.DEV ? 'http://localhost:3000' : '');
 
+// Use relative path if API_BASE_URL is empty (same origin)
+export function apiUrl(route: string): string {
+  return API_BASE_URL ? `${API_BASE_URL}${route}` : route;
+}
+
+// Typed model-output error from an error body, if it carries one
+function toModelOutputError(data: any): ModelOutputError | undefined {
+  if (data && typeof data.code === 'string' && typeof data.detail === 'string') {
+    return { code: data.code, detail: data.detail, issues: data.issues };
+  }
+  return undefined;
+}
+
+// Without a key the server answers what it can from its offline rules
+export function authorizationHeader(apiKey?: string): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+/**
+ * POST /api/interpret. Throws with the server's message when it refuses the
+ * request (invalid or missing key, rate limit) or cannot be reached; an
+ * unusable model response comes back as `error` instead.
+ */
 export async function interpretCommand(
   transcript: string,
-  apiKey: string
+  apiKey?: string,
+  sessionId?: string,
+  board?: BoardSnapshot,
+  language?: string
+): Promise<TutorResponse> {
+  let response: Response;
+  try {
+    response = await fetch(apiUrl('/api/interpret'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authorizationHeader(apiKey),
+      },
+      body: JSON.stringify({ transcript, sessionId, board, language }),
+    });
+  } catch (error) {
+    console.error('Network error calling /api/interpret:', error);
+    throw new Error('Lost connection to the server');
+  }
+
+  if (!response.ok) {
+    console.error(`API error: ${response.status} ${response.statusText}`);
+    const data = await response.json().catch(() => null);
+    const modelError = toModelOutputError(data);
+    if (modelError) {
+      return { actions: [], error: modelError };
+    }
+    throw new Error(typeof data?.error === 'string' ? data.error : `Server error (${response.status})`);
+  }
+
+  const data = await response.json().catch(() => null);
+
+  // Validate response structure
+  if (data && Array.isArray(data.actions)) {
+    return data as TutorResponse;
+  }
+
+  console.error('Invalid response format:', data);
+  return { actions: [] };
+}
+
+
+export type StreamStatus = 'parsing' | 'drawing';
+
+export interface InterpretStreamHandlers {
+  onStatus?: (status: StreamStatus) => void;
+  onAction?: (action: TutorAction) => void;
+  onDropped?: (dropped: DroppedAction) => void;
+  onError?: (message: string) => void;
+}
+
+interface SSEFrame {
+  event: string;
+  data: string;
+}
+
+// Parse one `event: ...\ndata: ...` block of a text/event-stream body
+function parseSSEFrame(block: string): SSEFrame | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trimStart());
+    }
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Consume POST /api/interpret/stream with fetch + ReadableStream, so the key
+ * travels in the Authorization header rather than the URL. Actions are
+ * delivered through onAction as the server validates them; the promise
+ * resolves with all actions on `end`.
+ */
+export async function interpretCommandStream(
+  transcript: string,
+  apiKey: string | undefined,
+  handlers: InterpretStreamHandlers = {},
+  sessionId?: string,
+  board?: BoardSnapshot,
+  language?: string
 ): Promise<TutorResponse> {
+  const actions: TutorAction[] = [];
+  let echoedSessionId: string | undefined;
+  let modelError: ModelOutputError | undefined;
+  const dropped: DroppedAction[] = [];
+  // Everything received so far, whether or not the stream ended cleanly
+  const result = (): TutorResponse => ({ actions, sessionId: echoedSessionId, error: modelError, dropped });
+
+  const handleFrame = (frame: SSEFrame) => {
+    const data = JSON.parse(frame.data);
+    switch (frame.event) {
+      case 'status':
+        if (data.message === 'parsing' || data.message === 'drawing') {
+          handlers.onStatus?.(data.message);
+        }
+        break;
+      case 'action':
+        if (data && data.action && typeof data.action.content === 'string') {
+          actions.push(data.action as TutorAction);
+          handlers.onAction?.(data.action as TutorAction);
+        }
+        break;
+      case 'dropped':
+        if (data && typeof data.content === 'string' && typeof data.reason === 'string') {
+          const item: DroppedAction = { content: data.content, reason: data.reason };
+          dropped.push(item);
+          handlers.onDropped?.(item);
+        }
+        break;
+      case 'actions':
+        echoedSessionId = data.sessionId;
+        break;
+      case 'error':
+        console.error('Stream error from /api/interpret/stream:', data);
+        modelError = toModelOutputError(data) ?? modelError;
+        handlers.onError?.(data.error || 'Could not interpret request');
+        break;
+    }
+  };
+
   try {
-    // Use relative path if API_BASE_URL is empty (same origin)
-    const url = API_BASE_URL ? `${API_BASE_URL}/api/interpret` : '/api/interpret';
-    const response = await fetch(url, {
+    const response = await fetch(apiUrl('/api/interpret/stream'), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...authorizationHeader(apiKey),
       },
-      body: JSON.stringify({ transcript, apiKey }),
+      body: JSON.stringify({ transcript, sessionId, board, language }),
     });
 
-    if (!response.ok) {
+    if (!response.ok || !response.body) {
       console.error(`API error: ${response.status} ${response.statusText}`);
-      return { actions: [] };
+      handlers.onError?.(`Server error (${response.status})`);
+      return result();
     }
 
-    const data = await response.json();
-    
-    // Validate response structure
-    if (data && Array.isArray(data.actions)) {
-      return data as TutorResponse;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = parseSSEFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (frame?.event === 'end') {
+          await reader.cancel();
+          return result();
+        }
+        if (frame) {
+          handleFrame(frame);
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
     }
 
-    console.error('Invalid response format:', data);
-    return { actions: [] };
+    return result();
   } catch (error) {
-    console.error('Network error calling /api/interpret:', error);
-    return { actions: [] };
+    console.error('Network error calling /api/interpret/stream:', error);
+    handlers.onError?.('Lost connection to the server');
+    return result();
   }
 }
-
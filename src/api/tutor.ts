@@ -0,0 +1,54 @@
+import { apiUrl, authorizationHeader } from './interpret';
+
+// POST to one of the key-only tutor routes; throws with the server's message on failure
+async function postTutorRoute(route: string, body: Record<string, unknown>, apiKey: string): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(apiUrl(route), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authorizationHeader(apiKey),
+      },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error(`Network error calling ${route}:`, error);
+    throw new Error('Lost connection to the server');
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    console.error(`API error: ${response.status} ${response.statusText}`);
+    throw new Error(typeof data?.error === 'string' ? data.error : `Server error (${response.status})`);
+  }
+  return data;
+}
+
+/** POST /api/explain. Resolves with the explanation text. */
+export async function explainConcept(
+  concept: string,
+  apiKey: string,
+  sessionId?: string,
+  language?: string
+): Promise<string> {
+  const data = await postTutorRoute('/api/explain', { concept, sessionId, language }, apiKey);
+  if (typeof data?.explanation !== 'string') {
+    throw new Error('The tutor sent an invalid response. Please try again.');
+  }
+  return data.explanation;
+}
+
+/** POST /api/practice. Resolves with the practice problems, one per entry. */
+export async function generatePracticeProblems(
+  topic: string,
+  apiKey: string,
+  sessionId?: string,
+  language?: string
+): Promise<string[]> {
+  const data = await postTutorRoute('/api/practice', { topic, sessionId, language }, apiKey);
+  if (!Array.isArray(data?.problems)) {
+    throw new Error('The tutor sent an invalid response. Please try again.');
+  }
+  return data.problems.filter((problem: unknown): problem is string => typeof problem === 'string');
+}
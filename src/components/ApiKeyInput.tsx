@@ -4,9 +4,10 @@ import './ApiKeyInput.css';
 
 interface ApiKeyInputProps {
   onKeySet: () => void;
+  onSkip?: () => void; // Continue in offline mode (rule-based commands only)
 }
 
-export function ApiKeyInput({ onKeySet }: ApiKeyInputProps) {
+export function ApiKeyInput({ onKeySet, onSkip }: ApiKeyInputProps) {
   const [key, setKey] = useState('');
   const [error, setError] = useState('');
 
@@ -52,6 +53,11 @@ export function ApiKeyInput({ onKeySet }: ApiKeyInputProps) {
             Save Key
           </button>
         </form>
+        {onSkip && (
+          <button type="button" className="api-key-skip" onClick={onSkip}>
+            Continue without a key (common commands only)
+          </button>
+        )}
       </div>
     </div>
   );
@@ -6,27 +6,40 @@ import {
   drawAnimatedGraph,
   drawAnnotation,
   drawDiagram,
+  screenToWorld,
   GraphData,
   AnnotationData,
   DiagramData,
+  RegionData,
+  RegionShape,
+  RiemannData,
+  RIEMANN_ANIMATION_MS,
   GraphAnimationState,
-  worldToScreen,
+  sampleGraphSegments,
+  sampleRegionShape,
+  drawSegments,
+  drawRegion,
+  drawRiemann,
+  setViewport,
 } from '../utils/drawing';
-import { COORDINATE_RANGE } from '../utils/drawing';
-import { parseMathExpression } from '../utils/mathParser';
-import { logDrawDuration } from '../utils/analytics';
+import { Viewport, DEFAULT_VIEWPORT, zoomViewport, panViewport, viewportsEqual } from '../utils/viewport';
+import { CurvePoint } from '../utils/curveSampler';
+import { logDrawDuration, logFrameTime } from '../utils/analytics';
 import './Canvas.css';
 
 interface CanvasProps {
-  drawingQueue: DrawingCommand[];
+  scene: DrawingCommand[]; // Objects on the board, in draw order
   onDrawingComplete?: () => void;
   onClear?: () => void;
   animationSpeed?: number; // Multiplier: 0.5x to 3x (300ms to 4500ms)
+  viewport?: Viewport; // Visible world ranges
+  onViewportChange?: (viewport: Viewport) => void; // Wheel/pinch zoom and drag-to-pan
 }
 
 export interface DrawingCommand {
-  type: 'graph' | 'annotation' | 'diagram';
-  data: GraphData | AnnotationData | DiagramData;
+  id: string; // Stable object id, also used in board snapshots
+  type: 'graph' | 'annotation' | 'diagram' | 'region' | 'riemann';
+  data: GraphData | AnnotationData | DiagramData | RegionData | RiemannData; // color is set when the command is created
 }
 
 export interface CanvasHandle {
@@ -34,46 +47,75 @@ export interface CanvasHandle {
   exportVideo: () => Promise<void>;
 }
 
-const COLORS = [
-  [0, 0, 255], // Blue
-  [255, 0, 0], // Red
-  [0, 128, 0], // Green
-  [255, 165, 0], // Orange
-  [128, 0, 128], // Purple
-  [255, 20, 147], // Pink
-];
-
-let colorIndex = 0;
+const WHEEL_ZOOM_SPEED = 0.0015; // Zoom factor per wheel delta unit (exponential)
 
 export const Canvas = forwardRef<CanvasHandle, CanvasProps>(
-  ({ drawingQueue, onDrawingComplete, onClear, animationSpeed = 1.0 }, ref) => {
+  (
+    {
+      scene,
+      onDrawingComplete,
+      onClear,
+      animationSpeed = 1.0,
+      viewport = DEFAULT_VIEWPORT,
+      onViewportChange,
+    },
+    ref
+  ) => {
     const canvasRef = useRef<HTMLDivElement>(null);
     const p5InstanceRef = useRef<p5 | null>(null);
-    const processedCommandsRef = useRef<Set<number>>(new Set());
-    const commandHistoryRef = useRef<DrawingCommand[]>([]);
-    const activeAnimationsRef = useRef<Map<number, GraphAnimationState>>(new Map());
+    const processedIdsRef = useRef<Set<string>>(new Set());
+    const commandsByIdRef = useRef<Map<string, DrawingCommand>>(new Map());
+    const activeAnimationsRef = useRef<Map<string, GraphAnimationState>>(new Map());
     const completedDrawingsRef = useRef<DrawingCommand[]>([]);
+    const sceneRef = useRef<DrawingCommand[]>(scene);
     const isPausedRef = useRef(false);
-    const animationStartTimesRef = useRef<Map<number, number>>(new Map());
+    const animationStartTimesRef = useRef<Map<string, number>>(new Map());
+    // Screen-space segments of completed graphs by id; cleared on resize, viewport change and removal
+    const segmentCacheRef = useRef<Map<string, CurvePoint[][]>>(new Map());
+    const regionCacheRef = useRef<Map<string, RegionShape>>(new Map()); // Same for regions
+    const riemannStartTimesRef = useRef<Map<string, number>>(new Map()); // When each Riemann sum started filling in
+    // Viewport currently drawn; ahead of the prop while the user drags or zooms
+    const viewportRef = useRef<Viewport>(viewport);
+    const onViewportChangeRef = useRef(onViewportChange);
+    onViewportChangeRef.current = onViewportChange;
+
+    // Drawn objects that are not animating, in scene order
+    const completedInSceneOrder = () =>
+      sceneRef.current.filter(
+        (command) => processedIdsRef.current.has(command.id) && !activeAnimationsRef.current.has(command.id)
+      );
+
+    const applyViewport = (next: Viewport) => {
+      viewportRef.current = next;
+      setViewport(next);
+      segmentCacheRef.current.clear();
+      regionCacheRef.current.clear();
+      p5InstanceRef.current?.redraw();
+    };
 
     const clearCanvas = () => {
       if (!p5InstanceRef.current) return;
 
+      // The parent clears the scene (undoably); removals are reconciled from it
+      if (onClear) {
+        onClear();
+        return;
+      }
+
       // Clear all drawings
       completedDrawingsRef.current = [];
-      commandHistoryRef.current = [];
+      segmentCacheRef.current.clear();
+      regionCacheRef.current.clear();
+      riemannStartTimesRef.current.clear();
+      commandsByIdRef.current.clear();
       activeAnimationsRef.current.clear();
-      processedCommandsRef.current.clear();
-      colorIndex = 0;
+      processedIdsRef.current.clear();
 
       // Clear canvas and redraw axes
       const p = p5InstanceRef.current;
       p.background(255);
       drawAxes(p);
       p.noLoop();
-
-      // Notify parent
-      onClear?.();
     };
 
     const exportVideo = async () => {
@@ -138,13 +180,17 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(
     if (!canvasRef.current) return;
 
     const sketch = (p: p5) => {
-      const completedDrawings = completedDrawingsRef.current;
-      
       // Performance: Frame throttling to maintain 60fps
       let lastFrameTime = 0;
       const MIN_FRAME_DELTA = 14; // Skip if delta < 14ms (throttle for 60fps)
 
+      // Render time of looping frames, summarized when the loop stops
+      let frameCount = 0;
+      let frameTimeTotal = 0;
+      let frameTimeMax = 0;
+
       p.setup = () => {
+        setViewport(viewportRef.current);
         p.createCanvas(
           canvasRef.current!.clientWidth,
           canvasRef.current!.clientHeight
@@ -171,56 +217,59 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(
         p.background(255);
         drawAxes(p);
 
-        // Draw all completed drawings
+        // Draw all completed drawings, regions and Riemann sums first so their
+        // fills stay under graphs and labels (active animations are drawn after all of them)
         // GC safety: Reuse stroke/fill settings, avoid creating new objects per frame
-        completedDrawings.forEach((cmd) => {
-          const colorArray = COLORS[completedDrawings.indexOf(cmd) % COLORS.length];
-          const colorString = `rgb(${colorArray[0]}, ${colorArray[1]}, ${colorArray[2]})`;
+        const completed = completedDrawingsRef.current;
+        const isFill = (cmd: DrawingCommand) => cmd.type === 'region' || cmd.type === 'riemann';
+        const layered = [...completed.filter(isFill), ...completed.filter((cmd) => !isFill(cmd))];
+        let hasActiveAnimations = false;
+        layered.forEach((cmd) => {
           switch (cmd.type) {
+            case 'region': {
+              // Sampled once per viewport, like graphs
+              let shape = regionCacheRef.current.get(cmd.id);
+              if (!shape) {
+                shape = sampleRegionShape(p, cmd.data as RegionData);
+                regionCacheRef.current.set(cmd.id, shape);
+              }
+              drawRegion(p, shape, cmd.data.color);
+              break;
+            }
+            case 'riemann': {
+              // Rectangles fill in left to right after the sum is added; recomputed
+              // every frame as they are cheap and n changes with its slider
+              const startTime = riemannStartTimesRef.current.get(cmd.id) ?? now;
+              const progress = Math.min(1, (now - startTime) / RIEMANN_ANIMATION_MS);
+              if (progress < 1) {
+                hasActiveAnimations = true;
+              } else {
+                riemannStartTimesRef.current.delete(cmd.id);
+              }
+              drawRiemann(p, cmd.data as RiemannData, cmd.data.color, progress);
+              break;
+            }
             case 'graph': {
-              // For completed graphs, draw them fully
-              const graphData = cmd.data as GraphData;
-              const func = parseMathExpression(graphData.expression);
-              const domain = graphData.domain || [-10, 10];
-              const [minX, maxX] = domain;
-              const domainSpan = maxX - minX;
-              
-              // Adaptive sampling for completed graphs too
-              const targetPoints = domainSpan > 40 ? 120 : 200;
-              const step = (maxX - minX) / targetPoints;
-              
-              p.stroke(colorString);
-              p.strokeWeight(2);
-              p.noFill();
-              p.beginShape();
-              for (let x = minX; x <= maxX; x += step) {
-                const y = func(x);
-                if (!isNaN(y) && isFinite(y) && Math.abs(y) <= COORDINATE_RANGE * 2) {
-                  const screenPos = worldToScreen(p, x, y);
-                  p.vertex(screenPos.x, screenPos.y);
-                }
+              // Completed graphs are sampled once and redrawn from the cache
+              let segments = segmentCacheRef.current.get(cmd.id);
+              if (!segments) {
+                segments = sampleGraphSegments(p, cmd.data as GraphData);
+                segmentCacheRef.current.set(cmd.id, segments);
               }
-              p.endShape();
+              drawSegments(p, segments, cmd.data.color);
               break;
             }
             case 'annotation':
-              drawAnnotation(p, {
-                ...(cmd.data as AnnotationData),
-                color: colorString,
-              });
+              drawAnnotation(p, cmd.data as AnnotationData);
               break;
             case 'diagram':
-              drawDiagram(p, {
-                ...(cmd.data as DiagramData),
-                color: colorString,
-              });
+              drawDiagram(p, cmd.data as DiagramData);
               break;
           }
         });
 
         // Draw and update active animations
-        let hasActiveAnimations = false;
-        activeAnimationsRef.current.forEach((animationState, index) => {
+        activeAnimationsRef.current.forEach((animationState, id) => {
           // Update progress
           animationState.progress++;
           
@@ -229,17 +278,17 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(
           
           if (isComplete) {
             // Animation finished - mark command as completed
-            const command = commandHistoryRef.current[index];
+            const command = commandsByIdRef.current.get(id);
             if (command) {
-              completedDrawings.push(command);
-              activeAnimationsRef.current.delete(index);
+              activeAnimationsRef.current.delete(id);
+              completedDrawingsRef.current = completedInSceneOrder();
               
               // Log draw duration
-              const startTime = animationStartTimesRef.current.get(index);
+              const startTime = animationStartTimesRef.current.get(id);
               if (startTime) {
                 const duration = performance.now() - startTime;
                 logDrawDuration(duration);
-                animationStartTimesRef.current.delete(index);
+                animationStartTimesRef.current.delete(id);
               }
               
               animationState.onComplete?.();
@@ -249,13 +298,33 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(
           }
         });
 
+        // Single redraws (zoom, pan, removals) are not animation frames
+        if (p.isLooping()) {
+          const frameTime = performance.now() - now;
+          frameCount++;
+          frameTimeTotal += frameTime;
+          frameTimeMax = Math.max(frameTimeMax, frameTime);
+        }
+
         // Stop loop if no active animations
         if (!hasActiveAnimations && activeAnimationsRef.current.size === 0) {
           p.noLoop();
+          if (frameCount > 0) {
+            logFrameTime({
+              frames: frameCount,
+              averageMs: Math.round((frameTimeTotal / frameCount) * 100) / 100,
+              maxMs: Math.round(frameTimeMax * 100) / 100,
+            });
+            frameCount = 0;
+            frameTimeTotal = 0;
+            frameTimeMax = 0;
+          }
         }
       };
 
       p.windowResized = () => {
+        segmentCacheRef.current.clear();
+        regionCacheRef.current.clear();
         p.resizeCanvas(
           canvasRef.current!.clientWidth,
           canvasRef.current!.clientHeight
@@ -282,7 +351,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(
       isPausedRef.current = document.hidden;
       // If tab becomes visible and we have active animations, resume
       if (!document.hidden && p5InstanceRef.current) {
-        const hasActiveAnimations = activeAnimationsRef.current.size > 0;
+        const hasActiveAnimations = activeAnimationsRef.current.size > 0 || riemannStartTimesRef.current.size > 0;
         if (hasActiveAnimations) {
           p5InstanceRef.current.loop();
         }
@@ -293,22 +362,133 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(
     return () => document.removeEventListener('visibilitychange', onVis);
   }, []);
 
+  // Viewport set by the parent (voice zoom, fit): completed drawings are
+  // resampled for it on the next frame
+  useEffect(() => {
+    if (!viewportsEqual(viewport, viewportRef.current)) {
+      applyViewport(viewport);
+    }
+  }, [viewport]);
+
+  // Mouse-wheel and pinch zoom around the pointer, drag to pan
   useEffect(() => {
-    if (!p5InstanceRef.current || drawingQueue.length === 0) return;
+    const element = canvasRef.current;
+    if (!element) return;
 
-    const processQueue = () => {
-      for (let i = 0; i < drawingQueue.length; i++) {
-        if (processedCommandsRef.current.has(i)) continue;
+    const pointers = new Map<number, { x: number; y: number }>();
+
+    const localPoint = (event: { clientX: number; clientY: number }) => {
+      const rect = element.getBoundingClientRect();
+      return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+
+    const change = (next: Viewport) => {
+      applyViewport(next);
+      onViewportChangeRef.current?.(next);
+    };
+
+    const zoomAt = (factor: number, screen: { x: number; y: number }) => {
+      const p = p5InstanceRef.current;
+      if (!p) return;
+      change(zoomViewport(viewportRef.current, factor, screenToWorld(p, screen.x, screen.y)));
+    };
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault(); // Keep the page from scrolling
+      zoomAt(Math.exp(event.deltaY * WHEEL_ZOOM_SPEED), localPoint(event));
+    };
+
+    const onPointerDown = (event: PointerEvent) => {
+      pointers.set(event.pointerId, localPoint(event));
+      element.setPointerCapture(event.pointerId);
+    };
+
+    const onPointerMove = (event: PointerEvent) => {
+      const previous = pointers.get(event.pointerId);
+      const p = p5InstanceRef.current;
+      if (!previous || !p) return;
+      const point = localPoint(event);
+
+      if (pointers.size === 1) {
+        const from = screenToWorld(p, previous.x, previous.y);
+        const to = screenToWorld(p, point.x, point.y);
+        pointers.set(event.pointerId, point);
+        if (from.x !== to.x || from.y !== to.y) {
+          change(panViewport(viewportRef.current, from.x - to.x, from.y - to.y));
+        }
+      } else if (pointers.size === 2) {
+        // Pinch: scale by the change in finger distance around their midpoint
+        const [other] = [...pointers.entries()].filter(([id]) => id !== event.pointerId);
+        const before = Math.hypot(previous.x - other[1].x, previous.y - other[1].y);
+        const after = Math.hypot(point.x - other[1].x, point.y - other[1].y);
+        pointers.set(event.pointerId, point);
+        if (before > 0 && after > 0) {
+          zoomAt(before / after, { x: (point.x + other[1].x) / 2, y: (point.y + other[1].y) / 2 });
+        }
+      }
+    };
+
+    const onPointerUp = (event: PointerEvent) => {
+      pointers.delete(event.pointerId);
+    };
+
+    element.addEventListener('wheel', onWheel, { passive: false });
+    element.addEventListener('pointerdown', onPointerDown);
+    element.addEventListener('pointermove', onPointerMove);
+    element.addEventListener('pointerup', onPointerUp);
+    element.addEventListener('pointercancel', onPointerUp);
+    return () => {
+      element.removeEventListener('wheel', onWheel);
+      element.removeEventListener('pointerdown', onPointerDown);
+      element.removeEventListener('pointermove', onPointerMove);
+      element.removeEventListener('pointerup', onPointerUp);
+      element.removeEventListener('pointercancel', onPointerUp);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!p5InstanceRef.current) return;
+
+    sceneRef.current = scene;
+
+    // Objects removed (erase, undo, clear) or restyled in the scene: rebuild the
+    // completed layer from the scene, without replaying animations
+    const reconcileScene = () => {
+      const sceneIds = new Set(scene.map((command) => command.id));
+      const removed = [...processedIdsRef.current].filter((id) => !sceneIds.has(id));
+      const changed = scene.filter(
+        (command) => processedIdsRef.current.has(command.id) && commandsByIdRef.current.get(command.id) !== command
+      );
+      if (removed.length === 0 && changed.length === 0) return;
+
+      for (const id of removed) {
+        processedIdsRef.current.delete(id);
+        commandsByIdRef.current.delete(id);
+        activeAnimationsRef.current.delete(id);
+        animationStartTimesRef.current.delete(id);
+        riemannStartTimesRef.current.delete(id);
+        segmentCacheRef.current.delete(id);
+        regionCacheRef.current.delete(id);
+      }
+      for (const command of changed) {
+        commandsByIdRef.current.set(command.id, command);
+        segmentCacheRef.current.delete(command.id);
+        regionCacheRef.current.delete(command.id);
+        const animation = activeAnimationsRef.current.get(command.id);
+        if (animation) animation.color = command.data.color;
+      }
+      completedDrawingsRef.current = completedInSceneOrder();
+      p5InstanceRef.current!.redraw();
+    };
+
+    const processScene = () => {
+      for (const command of scene) {
+        if (processedIdsRef.current.has(command.id)) continue;
 
-        const command = drawingQueue[i];
         const p = p5InstanceRef.current!;
-        const colorArray = COLORS[colorIndex % COLORS.length];
-        const colorString = `rgb(${colorArray[0]}, ${colorArray[1]}, ${colorArray[2]})`;
-        colorIndex++;
 
-        processedCommandsRef.current.add(i);
-        const commandIndex = commandHistoryRef.current.length;
-        commandHistoryRef.current.push(command);
+        processedIdsRef.current.add(command.id);
+        commandsByIdRef.current.set(command.id, command);
 
         switch (command.type) {
           case 'graph':
@@ -318,7 +498,7 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(
             const adjustedSpeed = baseSpeed / animationSpeed; // Higher multiplier = faster
             const animationState = animateGraph(
               p,
-              { ...graphData, color: graphData.color || colorString, animationSpeed: adjustedSpeed },
+              { ...graphData, animationSpeed: adjustedSpeed },
               () => {
                 // Animation complete callback
                 onDrawingComplete?.();
@@ -327,39 +507,47 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(
             );
             if (animationState) {
               // Track animation start time for duration logging
-              animationStartTimesRef.current.set(commandIndex, performance.now());
+              animationStartTimesRef.current.set(command.id, performance.now());
               
               // Start animation by enabling loop
-              activeAnimationsRef.current.set(commandIndex, animationState);
+              activeAnimationsRef.current.set(command.id, animationState);
               p.loop();
             }
             break;
 
           case 'annotation':
             const annotationData = command.data as AnnotationData;
-            drawAnnotation(p, {
-              ...annotationData,
-              color: annotationData.color || colorString,
-            });
-            completedDrawingsRef.current.push(command);
+            drawAnnotation(p, annotationData);
+            completedDrawingsRef.current = completedInSceneOrder();
+            p.redraw();
+            break;
+
+          case 'region':
+            // Filled on the next frame, below the graphs
+            completedDrawingsRef.current = completedInSceneOrder();
             p.redraw();
             break;
 
+          case 'riemann':
+            // Drawn with the regions; loops until its rectangles have filled in
+            riemannStartTimesRef.current.set(command.id, performance.now());
+            completedDrawingsRef.current = completedInSceneOrder();
+            p.loop();
+            break;
+
           case 'diagram':
             const diagramData = command.data as DiagramData;
-            drawDiagram(p, {
-              ...diagramData,
-              color: diagramData.color || colorString,
-            });
-            completedDrawingsRef.current.push(command);
+            drawDiagram(p, diagramData);
+            completedDrawingsRef.current = completedInSceneOrder();
             p.redraw();
             break;
         }
       }
     };
 
-    processQueue();
-  }, [drawingQueue, onDrawingComplete, onClear]);
+    reconcileScene();
+    processScene();
+  }, [scene, onDrawingComplete, onClear]);
 
   return (
     <div className="canvas-container">
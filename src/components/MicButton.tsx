@@ -8,6 +8,7 @@ interface MicButtonProps {
   disabled?: boolean;
   requiresApiKey?: boolean; // Block if API key is required but not set
   onListeningChange?: (isListening: boolean) => void;
+  lang?: string; // Recognition language (BCP 47)
 }
 
 export interface MicButtonHandle {
@@ -16,7 +17,7 @@ export interface MicButtonHandle {
 }
 
 export const MicButton = forwardRef<MicButtonHandle, MicButtonProps>(
-  ({ onTranscript, disabled, requiresApiKey, onListeningChange }, ref) => {
+  ({ onTranscript, disabled, requiresApiKey, onListeningChange, lang }, ref) => {
   const {
     isListening,
     interim,
@@ -26,7 +27,7 @@ export const MicButton = forwardRef<MicButtonHandle, MicButtonProps>(
     stop,
     reset,
     isSupported,
-  } = useSpeechToText();
+  } = useSpeechToText({ lang });
 
   const handleToggle = () => {
     if (requiresApiKey) {
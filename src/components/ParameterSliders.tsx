@@ -0,0 +1,84 @@
+import { useRef } from 'react';
+import { DrawingCommand } from './Canvas';
+import { GraphData, RiemannData } from '../utils/drawing';
+import { objectParameters } from '../utils/parameters';
+import './ParameterSliders.css';
+
+interface ParameterSlidersProps {
+  scene: DrawingCommand[];
+  onChange: (id: string, name: string, value: number) => void; // While dragging
+  onCommit: (id: string, name: string, from: number, to: number) => void; // Drag finished: one undo step
+}
+
+const SLIDER_STEPS = 200;
+
+// Short display value: 2, 0.25, -3.14
+function formatValue(value: number): string {
+  return String(Number(value.toFixed(2)));
+}
+
+// Heading over an object's sliders: the expression, or which sum of it for a Riemann sum
+function title(command: DrawingCommand): string {
+  if (command.type === 'riemann') {
+    const riemann = command.data as RiemannData;
+    return `${riemann.rule} sum of ${riemann.expression}`;
+  }
+  return (command.data as GraphData).expression;
+}
+
+// One slider per parameter of every graph or Riemann sum on the board that declares any
+export function ParameterSliders({ scene, onChange, onCommit }: ParameterSlidersProps) {
+  const dragStartRef = useRef<Map<string, number>>(new Map()); // Value when each drag began, by id:name
+
+  const graphs = scene.filter((command) => (objectParameters(command)?.length ?? 0) > 0);
+  if (graphs.length === 0) return null;
+
+  return (
+    <div className="parameter-sliders" aria-label="Graph parameters">
+      {graphs.map((command) => {
+        return (
+          <div key={command.id} className="parameter-sliders-graph">
+            <div className="parameter-sliders-expression" style={{ color: command.data.color }}>
+              {title(command)}
+            </div>
+            {objectParameters(command)!.map(({ name, value, min, max, step }) => {
+              const key = `${command.id}:${name}`;
+              const begin = () => {
+                if (!dragStartRef.current.has(key)) dragStartRef.current.set(key, value);
+              };
+              const end = (final: number) => {
+                const start = dragStartRef.current.get(key);
+                dragStartRef.current.delete(key);
+                if (start !== undefined) onCommit(command.id, name, start, final);
+              };
+              return (
+                <label key={name} className="parameter-slider">
+                  <span className="parameter-slider-label">
+                    {name} = {formatValue(value)}
+                  </span>
+                  <input
+                    type="range"
+                    className="speed-slider"
+                    min={min}
+                    max={max}
+                    step={step ?? (max - min) / SLIDER_STEPS}
+                    value={value}
+                    onPointerDown={begin}
+                    onKeyDown={begin}
+                    onChange={(e) => {
+                      begin();
+                      onChange(command.id, name, parseFloat(e.target.value));
+                    }}
+                    onPointerUp={(e) => end(parseFloat(e.currentTarget.value))}
+                    onKeyUp={(e) => end(parseFloat(e.currentTarget.value))}
+                    onBlur={(e) => end(parseFloat(e.currentTarget.value))}
+                  />
+                </label>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
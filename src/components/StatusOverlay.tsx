@@ -1,7 +1,7 @@
 import './StatusOverlay.css';
 
 interface StatusOverlayProps {
-  status: 'listening' | 'drawing' | 'explaining' | null;
+  status: 'listening' | 'parsing' | 'drawing' | 'explaining' | null;
 }
 
 export function StatusOverlay({ status }: StatusOverlayProps) {
@@ -9,6 +9,7 @@ export function StatusOverlay({ status }: StatusOverlayProps) {
 
   const statusText = {
     listening: 'Listening...',
+    parsing: 'Thinking...',
     drawing: 'Drawing...',
     explaining: 'Explaining...',
   }[status];
@@ -6,25 +6,85 @@ import { ApiKeyInput } from './ApiKeyInput';
 import { QuickActions } from './QuickActions';
 import { StatusOverlay } from './StatusOverlay';
 import { Caption } from './Caption';
+import { ParameterSliders } from './ParameterSliders';
 import { useToastQueue } from './Toast';
 import { useTutorBrain } from '../hooks/useTutorBrain';
 import { useTextToSpeech } from '../hooks/useTextToSpeech';
-import { hasApiKey, getAnimationSpeed, setAnimationSpeed, saveChatHistory, getChatHistory } from '../utils/storage';
-import { GraphData, AnnotationData, DiagramData } from '../utils/drawing';
+import {
+  hasApiKey,
+  getAnimationSpeed,
+  setAnimationSpeed,
+  getStreamingEnabled,
+  setStreamingEnabled,
+  rotateSessionId,
+  getLanguage,
+  setLanguage,
+  saveChatHistory,
+  getChatHistory,
+} from '../utils/storage';
+import {
+  GraphData,
+  AnnotationData,
+  DiagramData,
+  RegionData,
+  RiemannData,
+  PALETTE,
+  ANNOTATION_COLOR,
+} from '../utils/drawing';
+import { Viewport, DEFAULT_VIEWPORT, FitTarget, applyZoom, fitViewport } from '../utils/viewport';
+import { buildBoardSnapshot, describeBoard } from '../utils/boardSnapshot';
+import { SceneCommand, SceneHistory, EMPTY_HISTORY, execute, preview, undo, redo } from '../utils/scene';
+import { declareParameters, findParameterGraph, objectParameters, tweenValue } from '../utils/parameters';
+import { expandCalculus } from '../utils/calculus';
+import { normalizeSpokenMath } from '../../shared/spokenMath';
+import { LanguageTag, SUPPORTED_LANGUAGES } from '../../shared/languages';
 import { loadDemoSequence, getAvailableDemoSequences, getDemoSequenceName } from '../utils/demoSequences';
-import { TutorResponse } from '../types';
-import { logLLMLatency } from '../utils/analytics';
+import { BoardEvent, TutorAction, TutorResponse } from '../types';
+import { logLLMLatency, logFirstActionLatency } from '../utils/analytics';
 import './VoiceBoard.css';
 
+// Chat line for a zoom action
+function describeZoom(action: TutorAction): string {
+  const { domain, y_range } = action.meta ?? {};
+  if (domain || y_range) {
+    const ranges = [
+      domain && `x from ${domain[0]} to ${domain[1]}`,
+      y_range && `y from ${y_range[0]} to ${y_range[1]}`,
+    ];
+    return `Showing ${ranges.filter(Boolean).join(', ')}`;
+  }
+  switch (action.content) {
+    case 'reset':
+      return 'Resetting the view';
+    case 'fit':
+      return 'Fitting the view to the graphs';
+    default:
+      return `Zooming ${action.content === 'out' ? 'out' : 'in'}`;
+  }
+}
+
+// A streamed response: its actions arrive one at a time, but make one undo
+// step, one chat message and one status timeout, like any other response
+interface StreamedResponse {
+  group: string; // Scene history group shared by every piece
+  text: string; // Chat text gathered until the stream ends
+  hasExplain: boolean;
+}
+
 export function VoiceBoard() {
   const [showApiKeyInput, setShowApiKeyInput] = useState(!hasApiKey());
   const [showApiKeyBanner, setShowApiKeyBanner] = useState(!hasApiKey());
   const [isDemoMode, setIsDemoMode] = useState(false);
   const [availableSequences, setAvailableSequences] = useState<string[]>([]);
   const [selectedSequence, setSelectedSequence] = useState<string>('');
-  const [drawingQueue, setDrawingQueue] = useState<DrawingCommand[]>([]);
-  const [actionStack, setActionStack] = useState<DrawingCommand[][]>([]); // For undo
-  const MAX_STACK_SIZE = 50;
+  const [history, setHistory] = useState<SceneHistory>(EMPTY_HISTORY); // Board objects plus undo/redo
+  const scene = history.objects;
+  const nextObjectIdRef = useRef(0); // Board object ids: g1, a2, d3...
+  const nextStreamIdRef = useRef(0); // History groups of streamed responses
+  const nextColorRef = useRef(0); // Palette position for the next graph or diagram
+  const sceneRef = useRef<DrawingCommand[]>([]);
+  const boardEventsRef = useRef<BoardEvent[]>([]); // Undo/redo/clear since the last request
+  const parameterAnimationsRef = useRef<Map<string, () => void>>(new Map()); // Stop functions by id:name
   const [chatMessages, setChatMessages] = useState<
     Array<{
       id: string;
@@ -34,13 +94,43 @@ export function VoiceBoard() {
     }>
   >([]);
   const [animationSpeed, setAnimationSpeedState] = useState(getAnimationSpeed());
-  const { interpretCommand, loading, lastError } = useTutorBrain();
-  const { speak } = useTextToSpeech();
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const viewportRef = useRef<Viewport>(DEFAULT_VIEWPORT);
+  const [isStreaming, setIsStreaming] = useState(getStreamingEnabled());
+  const [language, setLanguageState] = useState<LanguageTag>(getLanguage());
+  const { interpretCommand, interpretCommandStream, explain, practice, loading, lastError } = useTutorBrain();
+  const { speak } = useTextToSpeech({ lang: language });
   const micButtonRef = useRef<MicButtonHandle>(null);
-  const [status, setStatus] = useState<'listening' | 'drawing' | 'explaining' | null>(null);
+  const [status, setStatus] = useState<'listening' | 'parsing' | 'drawing' | 'explaining' | null>(null);
   const [captionText, setCaptionText] = useState<string | null>(null);
   const toast = useToastQueue();
 
+  useEffect(() => {
+    sceneRef.current = scene;
+  }, [scene]);
+
+  useEffect(() => {
+    viewportRef.current = viewport;
+  }, [viewport]);
+
+  const nextObjectId = useCallback((type: DrawingCommand['type']) => {
+    nextObjectIdRef.current++;
+    return `${type[0]}${nextObjectIdRef.current}`;
+  }, []);
+
+  const nextColor = useCallback(() => {
+    const color = PALETTE[nextColorRef.current % PALETTE.length].rgb;
+    nextColorRef.current++;
+    return color;
+  }, []);
+
+  // Snapshot the board for the next request and reset the pending undo/clear events
+  const takeBoardSnapshot = useCallback(() => {
+    const board = buildBoardSnapshot(sceneRef.current, boardEventsRef.current, viewportRef.current);
+    boardEventsRef.current = [];
+    return board;
+  }, []);
+
   // Load available demo sequences on mount
   useEffect(() => {
     getAvailableDemoSequences().then(setAvailableSequences);
@@ -66,9 +156,77 @@ export function VoiceBoard() {
     []
   );
 
+  // Stop a running parameter animation, keeping the value it reached as one undo step
+  const stopParameterAnimation = useCallback((id: string, name: string) => {
+    parameterAnimationsRef.current.get(`${id}:${name}`)?.();
+  }, []);
+
+  // Sweep a parameter of a graph or Riemann sum, previewing each frame; the whole sweep is one undo step
+  const animateParameter = useCallback(
+    (id: string, name: string, from: number, to: number) => {
+      stopParameterAnimation(id, name);
+      const key = `${id}:${name}`;
+      const set = (value: number): SceneCommand => ({ type: 'set_parameters', id, values: { [name]: value } });
+      let current = from;
+      const commit = () => {
+        parameterAnimationsRef.current.delete(key);
+        setHistory((history) => execute(preview(history, [set(from)]), [set(current)]));
+      };
+      const cancel = tweenValue(
+        from,
+        to,
+        (value) => {
+          current = value;
+          setHistory((history) => preview(history, [set(value)]));
+        },
+        commit
+      );
+      parameterAnimationsRef.current.set(key, () => {
+        cancel();
+        commit();
+      });
+    },
+    [stopParameterAnimation]
+  );
+
+  // Report a response once all of it is applied: one chat message, then clear the status
+  const finishResponse = useCallback(
+    (aiResponseText: string, hasExplain: boolean) => {
+      if (aiResponseText.trim()) {
+        addChatMessage('ai', aiResponseText.trim());
+      }
+
+      // Set explaining status if there's an explain action
+      if (hasExplain) {
+        setStatus('explaining');
+        // Clear explaining status after TTS completes (rough estimate)
+        setTimeout(() => {
+          setStatus(null);
+        }, 5000); // 5 seconds should be enough for most explanations
+      } else {
+        // Clear drawing status after a short delay (animation completes)
+        setTimeout(() => {
+          setStatus(null);
+        }, 2000);
+      }
+    },
+    [addChatMessage]
+  );
+
+  // `stream` collects the pieces of a streamed response; finishResponse reports it at the end
   const processActions = useCallback(
-    async (response: TutorResponse) => {
+    async (response: TutorResponse, stream?: StreamedResponse) => {
+      // Graphs the server could not make plottable
+      response?.dropped?.forEach((item) => {
+        addChatMessage('error', `Could not plot "${item.content}": ${item.reason}`);
+      });
+
       if (!response || !response.actions || response.actions.length === 0) {
+        if (response?.dropped?.length) {
+          if (!stream) setStatus(null);
+          return;
+        }
+
         const errorMsg =
           lastError ||
           "I didn't understand that command. Could you rephrase?";
@@ -79,22 +237,73 @@ export function VoiceBoard() {
 
       // Process each action
       const newCommands: DrawingCommand[] = [];
+      const erasedIds: string[] = [];
+      const restyles: SceneCommand[] = [];
+      const parameterChanges: SceneCommand[] = [];
+      const parameterAnimations: { id: string; name: string; from: number; to: number }[] = [];
+      let clearBoard = false;
+      let hasZoom = false;
+      const fitTargets: FitTarget[] = []; // Graphs with an explicit domain or y range
+      let fitYRange: [number, number] | undefined;
       let aiResponseText = '';
       let hasExplain = false;
 
-      for (const action of response.actions) {
+      // Calculus overlays become the graphs, regions and labels that draw them
+      const actions = response.actions.flatMap((action) => {
+        if (action.action !== 'calculus') return [action];
+        const expansion = expandCalculus(action);
+        if (!expansion.success) {
+          addChatMessage('error', `Cannot draw the ${action.content} of ${action.meta?.target}: ${expansion.error}`);
+          return [];
+        }
+        return expansion.actions;
+      });
+
+      for (const action of actions) {
         switch (action.action) {
           case 'draw':
             if (action.visual_type === 'graph') {
-              const domain = action.meta?.domain || [-10, 10];
+              const domain = action.meta?.domain ?? undefined; // Default: the visible range
+              const kind = action.meta?.curve ?? 'function';
+              const parameters = declareParameters(action.meta?.parameters);
               const graphData: GraphData = {
                 expression: action.content,
-                color: '#0000ff',
+                color: nextColor(),
                 animationSpeed: 1500,
                 domain,
+                ...(kind !== 'function' && {
+                  kind,
+                  tRange: action.meta?.t_range ?? undefined,
+                  yRange: action.meta?.y_range ?? undefined,
+                }),
+                ...(parameters.length > 0 && { parameters }),
               };
-              newCommands.push({ type: 'graph', data: graphData });
+              newCommands.push({ id: nextObjectId('graph'), type: 'graph', data: graphData });
+              if (domain || action.meta?.y_range) {
+                fitTargets.push(graphData);
+                fitYRange = action.meta?.y_range ?? fitYRange;
+              }
               aiResponseText += `Drawing graph: ${action.content}\n`;
+            } else if (action.visual_type === 'region') {
+              const regionData: RegionData = {
+                inequalities: action.content,
+                color: nextColor(),
+                domain: action.meta?.domain ?? undefined,
+              };
+              newCommands.push({ id: nextObjectId('region'), type: 'region', data: regionData });
+              aiResponseText += `Shading region: ${action.content}\n`;
+            } else if (action.visual_type === 'riemann' && action.meta?.domain) {
+              const rule = action.meta.rule ?? 'left';
+              const riemannData: RiemannData = {
+                expression: action.content,
+                rule,
+                domain: action.meta.domain,
+                color: nextColor(),
+                // n has its own slider and answers to "set n to 20"
+                parameters: [{ name: 'n', value: action.meta.n ?? 10, min: 1, max: 100, step: 1 }],
+              };
+              newCommands.push({ id: nextObjectId('riemann'), type: 'riemann', data: riemannData });
+              aiResponseText += `Animating ${rule} Riemann sum of ${action.content}\n`;
             } else if (action.visual_type === 'diagram') {
               // Use subject to determine diagram type
               const subject = action.subject || 'general';
@@ -104,10 +313,10 @@ export function VoiceBoard() {
                 content: action.content,
                 x1: 0,
                 y1: 0,
-                color: '#0000ff',
+                color: nextColor(),
                 label: action.content,
               };
-              newCommands.push({ type: 'diagram', data: diagramData });
+              newCommands.push({ id: nextObjectId('diagram'), type: 'diagram', data: diagramData });
               aiResponseText += `Drawing diagram: ${action.content}\n`;
             }
             break;
@@ -124,9 +333,9 @@ export function VoiceBoard() {
                   text: labels[idx] || action.content,
                   x: point.x,
                   y: point.y,
-                  color: '#000000',
+                  color: ANNOTATION_COLOR,
                 };
-                newCommands.push({ type: 'annotation', data: annotationData });
+                newCommands.push({ id: nextObjectId('annotation'), type: 'annotation', data: annotationData });
               });
             } else {
               // Single annotation
@@ -134,9 +343,9 @@ export function VoiceBoard() {
                 text: action.content,
                 x: points[0]?.x || 0,
                 y: points[0]?.y || 0,
-                color: '#000000',
+                color: ANNOTATION_COLOR,
               };
-              newCommands.push({ type: 'annotation', data: annotationData });
+              newCommands.push({ id: nextObjectId('annotation'), type: 'annotation', data: annotationData });
             }
             aiResponseText += `Adding annotation: ${action.content}\n`;
             break;
@@ -156,44 +365,95 @@ export function VoiceBoard() {
           case 'quiz':
             aiResponseText += `Practice problem: ${action.content}\n`;
             break;
+
+          case 'erase': {
+            // meta.target holds the board object id from the snapshot
+            const targetId = action.meta?.target || action.content;
+            erasedIds.push(targetId);
+            aiResponseText += `Erasing ${targetId}\n`;
+            break;
+          }
+
+          case 'restyle': {
+            const targetId = action.meta?.target || '';
+            const color = PALETTE.find((entry) => entry.name === action.content.trim().toLowerCase());
+            if (!color) {
+              addChatMessage('error', `Unknown color "${action.content}"`);
+              break;
+            }
+            restyles.push({ type: 'restyle', id: targetId, color: color.rgb });
+            aiResponseText += `Coloring ${targetId} ${color.name}\n`;
+            break;
+          }
+
+          case 'clear':
+            clearBoard = true;
+            aiResponseText += 'Clearing the board\n';
+            break;
+
+          case 'adjust': {
+            const board = [...sceneRef.current, ...newCommands];
+            for (const { name, value, from } of action.meta?.parameters ?? []) {
+              const graph = findParameterGraph(board, name, action.meta?.target);
+              if (!graph) {
+                addChatMessage('error', `No graph on the board has a parameter "${name}"`);
+                continue;
+              }
+              if (action.content === 'animate') {
+                const current = objectParameters(graph)!.find((parameter) => parameter.name === name)!;
+                const start = from ?? current.value;
+                parameterAnimations.push({ id: graph.id, name, from: start, to: value });
+                aiResponseText += `Animating ${name} from ${start} to ${value}\n`;
+              } else {
+                parameterChanges.push({ type: 'set_parameters', id: graph.id, values: { [name]: value } });
+                aiResponseText += `Setting ${name} to ${value}\n`;
+              }
+            }
+            break;
+          }
+
+          case 'zoom': {
+            hasZoom = true;
+            const graphs = [...sceneRef.current, ...newCommands]
+              .filter((command) => command.type === 'graph')
+              .map((command) => command.data as GraphData);
+            setViewport((current) => applyZoom(current, action, graphs));
+            aiResponseText += `${describeZoom(action)}\n`;
+            break;
+          }
         }
       }
 
-      // Add AI response to chat
-      if (aiResponseText.trim()) {
-        addChatMessage('ai', aiResponseText.trim());
+      // Auto-fit to graphs drawn with an explicit domain, unless the response zooms itself
+      if (fitTargets.length > 0 && !hasZoom) {
+        setViewport((current) => fitViewport(fitTargets, current, fitYRange));
       }
 
-      // Add commands to drawing queue and push to action stack
-      if (newCommands.length > 0) {
+      // Apply the response to the scene as one undoable step
+      const sceneCommands: SceneCommand[] = [
+        ...(clearBoard ? [{ type: 'clear' as const }] : []),
+        ...(!clearBoard && erasedIds.length > 0 ? [{ type: 'remove' as const, ids: erasedIds }] : []),
+        ...restyles,
+        ...(newCommands.length > 0 ? [{ type: 'add' as const, objects: newCommands }] : []),
+        ...parameterChanges, // After add, so they can target graphs drawn in this response
+      ];
+      if (sceneCommands.length > 0) {
         setStatus('drawing');
-        setDrawingQueue((prev) => {
-          const updated = [...prev, ...newCommands];
-          // Push to action stack for undo
-          setActionStack((stack) => {
-            const newStack = [...stack, [...prev]];
-            // Cap stack size
-            return newStack.slice(-MAX_STACK_SIZE);
-          });
-          return updated;
-        });
+        if (clearBoard) {
+          nextColorRef.current = 0;
+        }
+        setHistory((current) => execute(current, sceneCommands, stream?.group));
       }
+      parameterAnimations.forEach(({ id, name, from, to }) => animateParameter(id, name, from, to));
 
-      // Set explaining status if there's an explain action
-      if (hasExplain) {
-        setStatus('explaining');
-        // Clear explaining status after TTS completes (rough estimate)
-        setTimeout(() => {
-          setStatus(null);
-        }, 5000); // 5 seconds should be enough for most explanations
+      if (stream) {
+        stream.text += aiResponseText;
+        stream.hasExplain = stream.hasExplain || hasExplain;
       } else {
-        // Clear drawing status after a short delay (animation completes)
-        setTimeout(() => {
-          setStatus(null);
-        }, 2000);
+        finishResponse(aiResponseText, hasExplain);
       }
     },
-    [lastError, addChatMessage, speak]
+    [lastError, addChatMessage, speak, nextObjectId, nextColor, animateParameter, finishResponse]
   );
 
   const handleDemoSequence = useCallback(
@@ -215,11 +475,15 @@ export function VoiceBoard() {
   );
 
   const handleTranscript = useCallback(
-    async (transcript: string) => {
-      if (!transcript.trim()) return;
+    async (spokenTranscript: string) => {
+      if (!spokenTranscript.trim()) return;
 
-      // Add user message to chat
-      addChatMessage('user', transcript);
+      // Rewrite spoken math ("sign of x" -> "sin(x)") before interpreting
+      const heard = spokenTranscript.trim();
+      const transcript = normalizeSpokenMath(heard);
+
+      // Add user message to chat, with the raw speech when it was rewritten
+      addChatMessage('user', transcript === heard ? transcript : `${transcript}\n(heard: "${heard}")`);
 
       // In demo mode, ignore transcript (use demo sequences instead)
       if (isDemoMode) {
@@ -228,33 +492,91 @@ export function VoiceBoard() {
 
       // Interpret command with GPT - track latency
       const llmStartTime = performance.now();
-      const response = await interpretCommand(transcript);
+
+      if (isStreaming) {
+        // Draw each action as soon as the server sends it, as one undo step
+        nextStreamIdRef.current++;
+        const stream: StreamedResponse = { group: `stream-${nextStreamIdRef.current}`, text: '', hasExplain: false };
+        let streamedCount = 0;
+        const response = await interpretCommandStream(
+          transcript,
+          {
+            onStatus: (streamStatus) => setStatus(streamStatus),
+            onAction: (action) => {
+              if (streamedCount === 0) {
+                logFirstActionLatency(performance.now() - llmStartTime);
+              }
+              streamedCount++;
+              processActions({ actions: [action] }, stream);
+            },
+            onDropped: (item) => processActions({ actions: [], dropped: [item] }, stream),
+          },
+          takeBoardSnapshot()
+        );
+        logLLMLatency(performance.now() - llmStartTime);
+
+        if (response.actions.length === 0 && !response.dropped?.length) {
+          // Nothing streamed (and nothing dropped): let processActions report the error
+          await processActions(response);
+        } else {
+          finishResponse(stream.text, stream.hasExplain);
+        }
+        return;
+      }
+
+      const response = await interpretCommand(transcript, takeBoardSnapshot());
       const llmLatency = performance.now() - llmStartTime;
       logLLMLatency(llmLatency);
       
       await processActions(response);
     },
-    [interpretCommand, addChatMessage, isDemoMode, processActions]
+    [
+      interpretCommand,
+      interpretCommandStream,
+      addChatMessage,
+      isDemoMode,
+      isStreaming,
+      processActions,
+      finishResponse,
+      takeBoardSnapshot,
+    ]
   );
 
+  const handleStreamingChange = useCallback((enabled: boolean) => {
+    setIsStreaming(enabled);
+    setStreamingEnabled(enabled);
+  }, []);
+
+  const handleLanguageChange = useCallback((next: LanguageTag) => {
+    setLanguageState(next);
+    setLanguage(next);
+  }, []);
+
   const handleDrawingComplete = useCallback(() => {
     // Drawing animation completed
     // Duration is logged in Canvas component
   }, []);
 
   const handleClearCanvas = useCallback(() => {
-    // Clear the drawing queue when canvas is cleared
-    setDrawingQueue([]);
-    setActionStack([]);
+    // Undoable, like a spoken "clear"
+    setHistory((current) => execute(current, [{ type: 'clear' }]));
+    nextColorRef.current = 0;
+    boardEventsRef.current.push('clear');
   }, []);
 
   const handleUndo = useCallback(() => {
-    if (actionStack.length > 0) {
-      const previousState = actionStack[actionStack.length - 1];
-      setDrawingQueue(previousState);
-      setActionStack((stack) => stack.slice(0, -1));
+    if (history.undoStack.length > 0) {
+      setHistory(undo);
+      boardEventsRef.current.push('undo');
     }
-  }, [actionStack]);
+  }, [history]);
+
+  const handleRedo = useCallback(() => {
+    if (history.redoStack.length > 0) {
+      setHistory(redo);
+      boardEventsRef.current.push('redo');
+    }
+  }, [history]);
 
   // Save chat history when messages change
   useEffect(() => {
@@ -272,6 +594,18 @@ export function VoiceBoard() {
 
       const key = e.key.toLowerCase();
 
+      // Ctrl+Z = undo, Ctrl+Shift+Z or Ctrl+Y = redo (Cmd on macOS)
+      if (e.ctrlKey || e.metaKey) {
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault();
+          handleUndo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+          e.preventDefault();
+          handleRedo();
+        }
+        return; // Leave other browser shortcuts (Ctrl+C...) alone
+      }
+
       // M = toggle mic
       if (key === 'm') {
         e.preventDefault();
@@ -319,7 +653,7 @@ export function VoiceBoard() {
 
     window.addEventListener('keydown', onKey);
     return () => window.removeEventListener('keydown', onKey);
-  }, [handleClearCanvas, handleUndo]);
+  }, [handleClearCanvas, handleUndo, handleRedo]);
 
   const handleExplain = useCallback(async () => {
     if (isDemoMode) {
@@ -335,13 +669,15 @@ export function VoiceBoard() {
       };
       await processActions(response);
     } else {
-      // In normal mode, send a command to the API
+      // In normal mode, ask /api/explain about the board; the interpret route covers an empty board or no key
       const transcript = 'Further explain this concept';
       addChatMessage('user', transcript);
-      const response = await interpretCommand(transcript);
+      const concept = describeBoard(sceneRef.current);
+      const response =
+        concept && hasApiKey() ? await explain(concept) : await interpretCommand(transcript, takeBoardSnapshot());
       await processActions(response);
     }
-  }, [isDemoMode, processActions, interpretCommand, addChatMessage]);
+  }, [isDemoMode, processActions, interpretCommand, explain, addChatMessage, takeBoardSnapshot]);
 
   const handleSampleProblems = useCallback(async () => {
     if (isDemoMode) {
@@ -357,24 +693,45 @@ export function VoiceBoard() {
       };
       await processActions(response);
     } else {
-      // In normal mode, send a command to the API
+      // In normal mode, ask /api/practice about the board, falling back like handleExplain
       const transcript = 'Give me sample problems related to this';
       addChatMessage('user', transcript);
-      const response = await interpretCommand(transcript);
+      const topic = describeBoard(sceneRef.current);
+      const response =
+        topic && hasApiKey() ? await practice(topic) : await interpretCommand(transcript, takeBoardSnapshot());
       await processActions(response);
     }
-  }, [isDemoMode, processActions, interpretCommand, addChatMessage]);
+  }, [isDemoMode, processActions, interpretCommand, practice, addChatMessage, takeBoardSnapshot]);
+
+  // Slider drag in progress: redraw without recording an undo step
+  const handleParameterChange = useCallback(
+    (id: string, name: string, value: number) => {
+      stopParameterAnimation(id, name);
+      setHistory((current) => preview(current, [{ type: 'set_parameters', id, values: { [name]: value } }]));
+    },
+    [stopParameterAnimation]
+  );
+
+  // Slider released: the whole drag becomes one undo step
+  const handleParameterCommit = useCallback((id: string, name: string, from: number, to: number) => {
+    setHistory((current) =>
+      execute(preview(current, [{ type: 'set_parameters', id, values: { [name]: from } }]), [
+        { type: 'set_parameters', id, values: { [name]: to } },
+      ])
+    );
+  }, []);
 
   const handleNewChat = useCallback(() => {
     // Clear chat messages
     setChatMessages([]);
-    // Clear drawing queue
-    setDrawingQueue([]);
-    // Clear action stack
-    setActionStack([]);
-    // Clear canvas (via canvas clear handler)
-    handleClearCanvas();
-  }, [handleClearCanvas]);
+    parameterAnimationsRef.current.forEach((stop) => stop());
+    // Fresh board with no undo history
+    setHistory(EMPTY_HISTORY);
+    nextColorRef.current = 0;
+    // Start a fresh server-side conversation for the new board
+    rotateSessionId();
+    boardEventsRef.current = [];
+  }, []);
 
   const handleViewHistory = useCallback(() => {
     const history = getChatHistory();
@@ -393,6 +750,7 @@ export function VoiceBoard() {
           setShowApiKeyInput(false);
           setShowApiKeyBanner(false);
         }}
+        onSkip={() => setShowApiKeyInput(false)}
       />
     );
   }
@@ -405,7 +763,7 @@ export function VoiceBoard() {
         <div className="voice-board-api-key-banner">
           <div className="api-key-banner-content">
             <span className="api-key-banner-text">
-              ⚠️ API key required to use voice commands. Please enter your API key to continue.
+              ⚠️ Offline mode: common commands like "graph x squared" or "clear the board" work without a key. Enter an API key for everything else.
             </span>
             <button
               className="api-key-banner-button"
@@ -434,12 +792,15 @@ export function VoiceBoard() {
             disabled={loading}
           />
           <Canvas
-            drawingQueue={drawingQueue}
+            scene={scene}
             onDrawingComplete={handleDrawingComplete}
             onClear={handleClearCanvas}
             animationSpeed={animationSpeed}
+            viewport={viewport}
+            onViewportChange={setViewport}
           />
           <Caption text={captionText} isVisible={!!captionText} />
+          <ParameterSliders scene={scene} onChange={handleParameterChange} onCommit={handleParameterCommit} />
           <div className="voice-board-controls-panel">
             <div className="voice-board-speed-control">
               <label htmlFor="speed-slider" className="speed-label">
@@ -456,7 +817,34 @@ export function VoiceBoard() {
                 className="speed-slider"
               />
             </div>
+            <div className="voice-board-language-control">
+              <label htmlFor="language-select" className="speed-label">
+                Language
+              </label>
+              <select
+                id="language-select"
+                className="language-select"
+                value={language}
+                onChange={(e) => handleLanguageChange(e.target.value as LanguageTag)}
+                disabled={loading}
+              >
+                {(Object.keys(SUPPORTED_LANGUAGES) as LanguageTag[]).map((tag) => (
+                  <option key={tag} value={tag}>
+                    {SUPPORTED_LANGUAGES[tag].native}
+                  </option>
+                ))}
+              </select>
+            </div>
             <div className="voice-board-demo-control">
+              <label className="demo-toggle-label" title="Draw each action as soon as it arrives">
+                <input
+                  type="checkbox"
+                  checked={isStreaming}
+                  onChange={(e) => handleStreamingChange(e.target.checked)}
+                  className="demo-toggle-checkbox"
+                />
+                <span className="demo-toggle-text">Stream Responses</span>
+              </label>
               <label className="demo-toggle-label">
                 <input
                   type="checkbox"
@@ -490,16 +878,26 @@ export function VoiceBoard() {
                 </button>
               )}
             </div>
-            {actionStack.length > 0 && (
+            {history.undoStack.length > 0 && (
               <button
                 className="voice-board-undo-button"
                 onClick={handleUndo}
-                title="Undo last action"
+                title="Undo last action (Ctrl+Z)"
                 aria-label="Undo last action"
               >
                 Undo
               </button>
             )}
+            {history.redoStack.length > 0 && (
+              <button
+                className="voice-board-undo-button"
+                onClick={handleRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                aria-label="Redo last undone action"
+              >
+                Redo
+              </button>
+            )}
           </div>
         </div>
         <div className="voice-board-chat">
@@ -510,7 +908,7 @@ export function VoiceBoard() {
         ref={micButtonRef}
         onTranscript={handleTranscript}
         disabled={loading || isDemoMode}
-        requiresApiKey={apiKeyMissing && !isDemoMode}
+        lang={language}
         onListeningChange={(isListening) => {
           setStatus(isListening ? 'listening' : null);
         }}
@@ -126,7 +126,7 @@ export function useSpeechToText(options: UseSpeechToTextOptions = {}) {
         recognitionRef.current.stop();
       }
     };
-  }, [getSpeechRecognition]);
+  }, [getSpeechRecognition, lang]); // Recreated when the session language changes
 
   const start = useCallback(() => {
     if (!recognitionRef.current) {
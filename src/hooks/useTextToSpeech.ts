@@ -18,7 +18,23 @@ function savePitch(pitch: number): void {
   localStorage.setItem('ttsPitch', pitch.toString());
 }
 
-export function useTextToSpeech() {
+// Best installed voice for a language: exact tag, then same primary language
+// (local voices preferred), so "es-ES" can fall back to an "es-MX" voice
+function findVoiceForLanguage(voices: SpeechSynthesisVoice[], lang: string): SpeechSynthesisVoice | undefined {
+  const tag = lang.toLowerCase();
+  const primary = tag.split('-')[0];
+  const sameLanguage = voices.filter((v) => v.lang.toLowerCase().replace('_', '-').split('-')[0] === primary);
+  const exact = sameLanguage.filter((v) => v.lang.toLowerCase().replace('_', '-') === tag);
+  const candidates = exact.length > 0 ? exact : sameLanguage;
+  return candidates.find((v) => v.localService) ?? candidates[0];
+}
+
+interface UseTextToSpeechOptions {
+  lang?: string;
+}
+
+export function useTextToSpeech(options: UseTextToSpeechOptions = {}) {
+  const { lang = 'en-US' } = options;
   const [isSpeaking, setIsSpeaking] = useState(false);
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
 
@@ -44,14 +60,15 @@ export function useTextToSpeech() {
       utterance.rate = getStoredRate();
       utterance.pitch = getStoredPitch();
       utterance.volume = 1;
-
-      // Set voice if specified
-      if (voiceName) {
-        const voices = window.speechSynthesis.getVoices();
-        const voice = voices.find((v) => v.name === voiceName);
-        if (voice) {
-          utterance.voice = voice;
-        }
+      utterance.lang = lang;
+
+      // Use the named voice if specified, otherwise one matching the session language
+      const voices = window.speechSynthesis.getVoices();
+      const voice = voiceName
+        ? voices.find((v) => v.name === voiceName)
+        : findVoiceForLanguage(voices, lang);
+      if (voice) {
+        utterance.voice = voice;
       }
 
       utterance.onstart = () => {
@@ -72,7 +89,7 @@ export function useTextToSpeech() {
       utteranceRef.current = utterance;
       window.speechSynthesis.speak(utterance);
     },
-    [cancel]
+    [cancel, lang]
   );
 
   // Load voices on mount
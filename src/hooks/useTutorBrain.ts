@@ -1,7 +1,22 @@
 import { useState, useCallback, useRef } from 'react';
-import { getApiKey } from '../utils/storage';
-import { TutorResponse } from '../types';
-import { interpretCommand as apiInterpret } from '../api/interpret';
+import { getApiKey, getLanguage, getSessionId } from '../utils/storage';
+import { BoardSnapshot, ModelOutputError, TutorAction, TutorResponse } from '../types';
+import {
+  interpretCommand as apiInterpret,
+  interpretCommandStream as apiInterpretStream,
+  InterpretStreamHandlers,
+} from '../api/interpret';
+import { explainConcept, generatePracticeProblems } from '../api/tutor';
+import { interpretLocally } from '../../shared/ruleInterpreter';
+import { logRuleInterpretation } from '../utils/analytics';
+
+// "Nothing to do" is an empty action list; this is the model producing garbage
+function describeModelError(error: ModelOutputError): string {
+  const fields = error.issues?.map((issue) => issue.path).join(', ');
+  return fields
+    ? `The tutor sent an invalid response (${fields}). Please try again.`
+    : 'The tutor sent an invalid response. Please try again.';
+}
 
 export function useTutorBrain() {
   const [isLoading, setIsLoading] = useState(false);
@@ -10,30 +25,52 @@ export function useTutorBrain() {
   const lastTimestampRef = useRef<number>(0);
   const DEBOUNCE_MS = 1500;
 
+  // Shared guard for both modes: false if the request should be skipped. A
+  // missing key is not a reason: the server answers what it can from its offline rules.
+  const prepareRequest = useCallback((transcript: string): boolean => {
+    // Debounce duplicate transcripts
+    const now = Date.now();
+    if (
+      transcript === lastTranscriptRef.current &&
+      now - lastTimestampRef.current < DEBOUNCE_MS
+    ) {
+      console.log('Debounced duplicate transcript');
+      return false;
+    }
+
+    lastTranscriptRef.current = transcript;
+    lastTimestampRef.current = now;
+
+    setIsLoading(true);
+    setLastError(null);
+    return true;
+  }, []);
+
+  // Common phrasings are answered instantly (and without a key) by the offline rules
+  const tryLocalRules = useCallback(
+    (transcript: string, board?: BoardSnapshot): TutorResponse | null => {
+      const local = interpretLocally(transcript, board);
+      if (!local) {
+        return null;
+      }
+      logRuleInterpretation(local.actions.length);
+      setLastError(null);
+      return { ...local, source: 'rules' };
+    },
+    []
+  );
+
   const interpretCommand = useCallback(
-    async (transcript: string): Promise<TutorResponse> => {
-      const apiKey = getApiKey();
-      if (!apiKey) {
-        const error = 'OpenAI API key is not set';
-        setLastError(error);
-        return { actions: [] };
+    async (transcript: string, board?: BoardSnapshot): Promise<TutorResponse> => {
+      const local = tryLocalRules(transcript, board);
+      if (local) {
+        return local;
       }
 
-      // Debounce duplicate transcripts
-      const now = Date.now();
-      if (
-        transcript === lastTranscriptRef.current &&
-        now - lastTimestampRef.current < DEBOUNCE_MS
-      ) {
-        console.log('Debounced duplicate transcript');
+      if (!prepareRequest(transcript)) {
         return { actions: [] };
       }
-
-      lastTranscriptRef.current = transcript;
-      lastTimestampRef.current = now;
-
-      setIsLoading(true);
-      setLastError(null);
+      const apiKey = getApiKey() ?? undefined;
 
       // Log payload in dev
       if (import.meta.env.DEV) {
@@ -41,9 +78,17 @@ export function useTutorBrain() {
       }
 
       try {
-        const response = await apiInterpret(transcript, apiKey);
-        
-        if (response.actions.length === 0) {
+        const response = await apiInterpret(
+          transcript,
+          apiKey,
+          getSessionId(),
+          board,
+          getLanguage()
+        );
+
+        if (response.error) {
+          setLastError(describeModelError(response.error));
+        } else if (response.actions.length === 0 && !response.dropped?.length) {
           setLastError('No actions returned from API');
         }
 
@@ -57,11 +102,115 @@ export function useTutorBrain() {
         setIsLoading(false);
       }
     },
+    [prepareRequest, tryLocalRules]
+  );
+
+  // Streaming mode: handlers.onAction fires for each action as the server validates it
+  const interpretCommandStream = useCallback(
+    async (
+      transcript: string,
+      handlers: InterpretStreamHandlers = {},
+      board?: BoardSnapshot
+    ): Promise<TutorResponse> => {
+      const local = tryLocalRules(transcript, board);
+      if (local) {
+        local.actions.forEach((action) => handlers.onAction?.(action));
+        return local;
+      }
+
+      if (!prepareRequest(transcript)) {
+        return { actions: [] };
+      }
+      const apiKey = getApiKey() ?? undefined;
+
+      if (import.meta.env.DEV) {
+        console.log('Calling /api/interpret/stream with:', { transcript, apiKey: '***' });
+      }
+
+      let streamError: string | null = null;
+      try {
+        const response = await apiInterpretStream(
+          transcript,
+          apiKey,
+          {
+            ...handlers,
+            onError: (message) => {
+              streamError = message;
+              handlers.onError?.(message);
+            },
+          },
+          getSessionId(),
+          board,
+          getLanguage()
+        );
+
+        if (response.actions.length === 0 && !response.dropped?.length) {
+          setLastError(
+            response.error
+              ? describeModelError(response.error)
+              : streamError || 'No actions returned from API'
+          );
+        }
+
+        return response;
+      } catch (err: any) {
+        const errorMessage =
+          err.message || 'Failed to interpret command. Please try again.';
+        setLastError(errorMessage);
+        return { actions: [] };
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [prepareRequest, tryLocalRules]
+  );
+
+  // The explain and practice routes need a key; callers fall back to interpretCommand without one
+  const callTutorRoute = useCallback(
+    async (request: (apiKey: string) => Promise<TutorAction[]>): Promise<TutorResponse> => {
+      const apiKey = getApiKey();
+      if (!apiKey) {
+        setLastError('API key required');
+        return { actions: [] };
+      }
+
+      setIsLoading(true);
+      setLastError(null);
+      try {
+        return { actions: await request(apiKey) };
+      } catch (err: any) {
+        setLastError(err.message || 'Request failed. Please try again.');
+        return { actions: [] };
+      } finally {
+        setIsLoading(false);
+      }
+    },
     []
   );
 
+  const explain = useCallback(
+    (concept: string) =>
+      callTutorRoute(async (apiKey) => {
+        const explanation = await explainConcept(concept, apiKey, getSessionId(), getLanguage());
+        return [{ action: 'explain', content: explanation, subject: 'math' }];
+      }),
+    [callTutorRoute]
+  );
+
+  const practice = useCallback(
+    (topic: string) =>
+      callTutorRoute(async (apiKey) => {
+        const problems = await generatePracticeProblems(topic, apiKey, getSessionId(), getLanguage());
+        return [{ action: 'quiz', content: problems.join('\n\n'), subject: 'math' }];
+      }),
+    [callTutorRoute]
+  );
+
   return {
     interpretCommand,
+    interpretCommandStream,
+    explain,
+    practice,
     loading: isLoading,
     lastError,
   };
@@ -1,20 +1,37 @@
-export type TutorAction = {
-  action: 'draw' | 'annotate' | 'explain' | 'quiz';
+import type { TutorAction as WireTutorAction } from '../../shared/types';
+
+// The shared wire action, plus what the client expands locally
+export type TutorAction = Omit<WireTutorAction, 'visual_type'> & {
+  visual_type?: WireTutorAction['visual_type'] | 'riemann'; // riemann: expanded from calculus actions
+};
+
+// The model produced something unusable (server 502 or SSE error `code`),
+// as opposed to an empty action list, which means there was nothing to do
+export type ModelOutputError = {
+  code: 'no_tool_call' | 'invalid_json' | 'invalid_actions';
+  detail: string;
+  issues?: { path: string; message: string }[];
+};
+
+// A graph the server could not make plottable, even after asking the model to repair it
+export type DroppedAction = {
   content: string;
-  subject?: 'math' | 'physics' | 'chemistry' | 'general';
-  visual_type?: 'graph' | 'diagram' | 'label';
-  meta?: {
-    domain?: [number, number] | null;
-    labels?: string[] | null;
-    points?: { x: number; y: number }[] | null;
-  };
+  reason: string;
+};
+
+export type TutorResponse = {
+  actions: TutorAction[];
+  sessionId?: string;
+  source?: 'model' | 'rules'; // 'rules' = answered by the offline interpreter
+  error?: ModelOutputError;
+  dropped?: DroppedAction[];
 };
 
-export type TutorResponse = { actions: TutorAction[] };
+export type { BoardEvent, BoardObject, BoardSnapshot } from '../../shared/types';
 
 // Legacy types for backward compatibility
 export type Subject = 'math' | 'physics' | 'chemistry' | 'general';
-export type VisualType = 'graph' | 'diagram' | 'label';
+export type VisualType = 'graph' | 'diagram' | 'label' | 'region';
 
 export interface DrawingCommand {
   type: 'graph' | 'annotation' | 'diagram';
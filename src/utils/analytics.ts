@@ -48,10 +48,29 @@ export function logLLMLatency(latencyMs: number): void {
   logEvent('llm_latency_ms', { latencyMs });
 }
 
+export function logRuleInterpretation(actionCount: number): void {
+  logEvent('rule_interpretation', { actionCount });
+}
+
+export function logFirstActionLatency(latencyMs: number): void {
+  logEvent('llm_first_action_ms', { latencyMs });
+}
+
 export function logDrawDuration(durationMs: number): void {
   logEvent('draw_duration_ms', { durationMs });
 }
 
+export interface FrameTimeStats {
+  frames: number;
+  averageMs: number;
+  maxMs: number;
+}
+
+// Summary for one animation run, logged when the canvas stops looping
+export function logFrameTime(stats: FrameTimeStats): void {
+  logEvent('frame_time_ms', stats);
+}
+
 // Get all logs (for debugging/inspection)
 export function getLogs(): AnalyticsEvent[] {
   if (typeof window === 'undefined') return [];
@@ -0,0 +1,104 @@
+// Compact description of the canvas sent with interpret requests, so the
+// tutor can resolve "the red one" or "where they cross" against real objects
+
+import { DrawingCommand } from '../components/Canvas';
+import { BoardEvent, BoardObject, BoardSnapshot } from '../types';
+import { AnnotationData, DiagramData, GraphData, RegionData, RiemannData, colorName } from './drawing';
+import { Viewport } from './viewport';
+
+const MAX_SNAPSHOT_OBJECTS = 50; // Server rejects larger boards
+const MAX_TEXT_LENGTH = 200;
+const MAX_TOPIC_LENGTH = 500; // Server limit on an explain concept or practice topic
+
+// Viewport edges and parameter values rounded for the prompt; panning and sliders leave long fractions
+const roundForPrompt = (value: number) => Number(value.toPrecision(6));
+
+function toBoardObject(command: DrawingCommand): BoardObject {
+  const color = colorName(command.data.color);
+  switch (command.type) {
+    case 'graph': {
+      const graph = command.data as GraphData;
+      return {
+        id: command.id,
+        type: 'graph',
+        expression: graph.expression.slice(0, MAX_TEXT_LENGTH),
+        kind: graph.kind,
+        parameters: graph.parameters?.map(({ name, value, min, max }) => ({
+          name,
+          value: roundForPrompt(value),
+          min,
+          max,
+        })),
+        color,
+        domain: graph.domain,
+      };
+    }
+    case 'region': {
+      const region = command.data as RegionData;
+      return {
+        id: command.id,
+        type: 'region',
+        expression: region.inequalities.slice(0, MAX_TEXT_LENGTH),
+        color,
+        domain: region.domain,
+      };
+    }
+    case 'riemann': {
+      const riemann = command.data as RiemannData;
+      return {
+        id: command.id,
+        type: 'riemann',
+        expression: riemann.expression.slice(0, MAX_TEXT_LENGTH),
+        rule: riemann.rule,
+        parameters: riemann.parameters.map(({ name, value, min, max }) => ({ name, value, min, max })),
+        color,
+        domain: riemann.domain,
+      };
+    }
+    case 'annotation': {
+      const annotation = command.data as AnnotationData;
+      return {
+        id: command.id,
+        type: 'annotation',
+        text: annotation.text.slice(0, MAX_TEXT_LENGTH),
+        color,
+        position: { x: annotation.x, y: annotation.y },
+      };
+    }
+    case 'diagram': {
+      const diagram = command.data as DiagramData;
+      return {
+        id: command.id,
+        type: 'diagram',
+        text: (diagram.label || diagram.content || diagram.type).slice(0, MAX_TEXT_LENGTH),
+        color,
+        position: { x: diagram.x1, y: diagram.y1 },
+      };
+    }
+  }
+}
+
+export function buildBoardSnapshot(
+  commands: DrawingCommand[],
+  events: BoardEvent[] = [],
+  viewport?: Viewport
+): BoardSnapshot {
+  return {
+    // Keep the most recent objects if the board is very full
+    objects: commands.slice(-MAX_SNAPSHOT_OBJECTS).map(toBoardObject),
+    events: events.length > 0 ? events : undefined,
+    viewport: viewport && {
+      x: [roundForPrompt(viewport.x[0]), roundForPrompt(viewport.x[1])],
+      y: [roundForPrompt(viewport.y[0]), roundForPrompt(viewport.y[1])],
+    },
+  };
+}
+
+// What is on the board as one line, for the explain and practice routes; '' when it is empty
+export function describeBoard(commands: DrawingCommand[]): string {
+  return commands
+    .map(toBoardObject)
+    .map((object) => object.expression ?? object.text ?? object.type)
+    .join(', ')
+    .slice(-MAX_TOPIC_LENGTH);
+}
@@ -0,0 +1,108 @@
+// Calculus overlays as ordinary board actions: a tangent is a line plus a
+// label, a derivative a graph, an integral a shaded region plus a label, and
+// a Riemann sum its own animated object
+
+import { TutorAction } from '../types';
+import { compileExpression } from '../../shared/mathParser';
+import { differentiate, integrate, roundValue, tangentAt } from '../../shared/mathUtils';
+
+const DEFAULT_RIEMANN_N = 10;
+
+export type CalculusExpansion = { success: true; actions: TutorAction[] } | { success: false; error: string };
+
+function label(content: string, point: { x: number; y: number }, text: string): TutorAction {
+  return {
+    action: 'annotate',
+    subject: 'math',
+    content,
+    visual_type: 'label',
+    meta: { points: [point], labels: [text] },
+  };
+}
+
+/**
+ * Board actions drawing a calculus action (content "tangent", "derivative",
+ * "integral" or "riemann" on the function in meta.target)
+ */
+export function expandCalculus(action: TutorAction): CalculusExpansion {
+  const expression = action.meta?.target;
+  if (!expression) {
+    return { success: false, error: 'No function given' };
+  }
+  const operation = action.content.trim().toLowerCase();
+
+  switch (operation) {
+    case 'tangent': {
+      if (action.meta?.at == null) return { success: false, error: 'No point given' };
+      const tangent = tangentAt(expression, action.meta.at);
+      if (!tangent.success) return tangent;
+      const { point, slope } = tangent;
+      return {
+        success: true,
+        actions: [
+          { action: 'draw', subject: 'math', content: tangent.line, visual_type: 'graph' },
+          label('Tangent', point, `Slope ${slope} at (${point.x}, ${point.y})`),
+        ],
+      };
+    }
+
+    case 'derivative': {
+      const derived = differentiate(expression);
+      if (!derived.success) return derived;
+      return {
+        success: true,
+        actions: [{ action: 'draw', subject: 'math', content: derived.expression, visual_type: 'graph' }],
+      };
+    }
+
+    case 'integral': {
+      const domain = action.meta?.domain;
+      if (!domain) return { success: false, error: 'No bounds given' };
+      const integral = integrate(expression, domain);
+      if (!integral.success) return integral;
+      // Label inside the area, halfway between the axis and the curve at the middle
+      const middle = (domain[0] + domain[1]) / 2;
+      const compiled = compileExpression(expression);
+      const height = compiled.success ? compiled.evaluate(middle) : 0;
+      return {
+        success: true,
+        actions: [
+          {
+            action: 'draw',
+            subject: 'math',
+            content: `min(0, ${expression}) <= y <= max(0, ${expression})`,
+            visual_type: 'region',
+            meta: { domain },
+          },
+          label(
+            'Integral',
+            { x: roundValue(middle), y: roundValue(height / 2) },
+            `Integral from ${domain[0]} to ${domain[1]} = ${roundValue(integral.value, 3)}`
+          ),
+        ],
+      };
+    }
+
+    case 'riemann': {
+      const domain = action.meta?.domain;
+      if (!domain) return { success: false, error: 'No bounds given' };
+      const compiled = compileExpression(expression);
+      if (!compiled.success) return compiled;
+      return {
+        success: true,
+        actions: [
+          {
+            action: 'draw',
+            subject: 'math',
+            content: expression,
+            visual_type: 'riemann',
+            meta: { domain, rule: action.meta?.rule ?? 'left', n: action.meta?.n ?? DEFAULT_RIEMANN_N },
+          },
+        ],
+      };
+    }
+
+    default:
+      return { success: false, error: `Unknown calculus operation "${action.content}"` };
+  }
+}
@@ -0,0 +1,343 @@
+// Adaptive sampler for y = f(x): subdivides where a chord does not follow the
+// curve, and splits the result into separate segments at discontinuities
+// (tan, 1/x, floor), domain edges (sqrt, log) and exits from the y range, so
+// no bogus connectors are drawn across them. Parametric curves get the same
+// treatment in t; implicit curves are traced with marching squares.
+
+import { CompiledCurve } from '../../shared/mathParser';
+
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+const MAX_DEPTH = 10; // Each initial interval is split at most 2^10 times
+const MAX_EVALUATIONS = 5000; // Budget for pathological curves like sin(1/x)
+const FLATNESS = 0.001; // Allowed chord error, as a fraction of the y range
+const JUMP = 0.01; // Smallest jump treated as a discontinuity, as a fraction of the y range
+
+/**
+ * Sample func over the domain as polylines in world coordinates. Points
+ * outside yRange are not drawn: the curve is clamped to the range where it
+ * leaves it and resumes in a new segment where it comes back.
+ */
+export function sampleCurve(
+  func: (x: number) => number,
+  domain: [number, number],
+  yRange: [number, number],
+  intervals = 100
+): CurvePoint[][] {
+  const [minX, maxX] = domain;
+  const [minY, maxY] = yRange;
+  if (!(maxX > minX) || !(maxY > minY) || intervals < 1) {
+    return [];
+  }
+
+  const flatness = (maxY - minY) * FLATNESS;
+  const jump = (maxY - minY) * JUMP;
+  const segments: CurvePoint[][] = [];
+  let current: CurvePoint[] = [];
+  let evaluations = 0;
+
+  const evaluate = (x: number): number => {
+    evaluations++;
+    const y = func(x);
+    return Number.isFinite(y) ? y : NaN;
+  };
+  const visible = (y: number) => !isNaN(y) && y >= minY && y <= maxY;
+  const clamp = (y: number) => (y < minY ? minY : maxY);
+
+  const endSegment = () => {
+    if (current.length > 1) segments.push(current); // A lone point draws nothing
+    current = [];
+  };
+
+  const needsRefinement = (y0: number, ym: number, y1: number): boolean => {
+    if (visible(y0) && visible(y1)) {
+      return !visible(ym) || Math.abs(ym - (y0 + y1) / 2) > flatness;
+    }
+    if (visible(y0) || visible(y1) || visible(ym)) {
+      return true; // Locate where the curve enters or leaves the range
+    }
+    // Both ends off screen on opposite sides: the curve may cross the whole range
+    return !isNaN(y0) && !isNaN(y1) && y0 < minY !== y1 < minY;
+  };
+
+  // Emit the curve on (x0, x1]; x0 has already been handled
+  const connect = (x0: number, y0: number, x1: number, y1: number, exhausted: boolean) => {
+    const v0 = visible(y0);
+    const v1 = visible(y1);
+    if (v0 && v1) {
+      // Still steep after full subdivision: a jump, not a slope
+      if (exhausted && Math.abs(y1 - y0) > jump) endSegment();
+      current.push({ x: x1, y: y1 });
+    } else if (v0) {
+      if (!isNaN(y1)) current.push({ x: x1, y: clamp(y1) });
+      endSegment();
+    } else if (v1) {
+      if (!isNaN(y0)) current.push({ x: x0, y: clamp(y0) });
+      current.push({ x: x1, y: y1 });
+    }
+  };
+
+  const refine = (x0: number, y0: number, x1: number, y1: number, depth: number) => {
+    const xm = (x0 + x1) / 2;
+    const ym = evaluate(xm);
+    if (needsRefinement(y0, ym, y1)) {
+      if (depth < MAX_DEPTH && evaluations < MAX_EVALUATIONS) {
+        refine(x0, y0, xm, ym, depth + 1);
+        refine(xm, ym, x1, y1, depth + 1);
+        return;
+      }
+      connect(x0, y0, x1, y1, true);
+      return;
+    }
+    connect(x0, y0, x1, y1, false);
+  };
+
+  const step = (maxX - minX) / intervals;
+  let x0 = minX;
+  let y0 = evaluate(x0);
+  if (visible(y0)) {
+    current.push({ x: x0, y: y0 });
+  }
+  for (let i = 1; i <= intervals; i++) {
+    const x1 = i === intervals ? maxX : minX + i * step;
+    const y1 = evaluate(x1);
+    refine(x0, y0, x1, y1, 0);
+    x0 = x1;
+    y0 = y1;
+  }
+  endSegment();
+
+  return segments;
+}
+
+// Point at parameter t of a parametric or polar curve, or null for other kinds.
+// values are the curve's parameter values, in the order they were compiled with.
+export function curvePoint(curve: CompiledCurve, values: number[] = []): ((t: number) => CurvePoint) | null {
+  switch (curve.kind) {
+    case 'parametric':
+      return (t) => ({ x: curve.x(t, ...values), y: curve.y(t, ...values) });
+    case 'polar':
+      return (theta) => {
+        const r = curve.r(theta, ...values);
+        return { x: r * Math.cos(theta), y: r * Math.sin(theta) };
+      };
+    default:
+      return null;
+  }
+}
+
+export interface Box {
+  x: [number, number];
+  y: [number, number];
+}
+
+/**
+ * Sample a parametric curve over tRange as polylines in world coordinates.
+ * Flatness and jumps are measured relative to the box; the curve is split
+ * where it leaves the box and resumes in a new segment where it comes back.
+ */
+export function sampleParametric(
+  curve: (t: number) => CurvePoint,
+  tRange: [number, number],
+  box: Box,
+  intervals = 200
+): CurvePoint[][] {
+  const [minT, maxT] = tRange;
+  const spanX = box.x[1] - box.x[0];
+  const spanY = box.y[1] - box.y[0];
+  if (!(maxT > minT) || !(spanX > 0) || !(spanY > 0) || intervals < 1) {
+    return [];
+  }
+
+  const segments: CurvePoint[][] = [];
+  let current: CurvePoint[] = [];
+  let evaluations = 0;
+
+  const evaluate = (t: number): CurvePoint | null => {
+    evaluations++;
+    const point = curve(t);
+    return Number.isFinite(point.x) && Number.isFinite(point.y) ? point : null;
+  };
+  const visible = (point: CurvePoint | null): boolean =>
+    !!point && point.x >= box.x[0] && point.x <= box.x[1] && point.y >= box.y[0] && point.y <= box.y[1];
+  // Distance in box widths and heights, so both axes count alike
+  const distance = (a: CurvePoint, b: CurvePoint) => Math.hypot((a.x - b.x) / spanX, (a.y - b.y) / spanY);
+
+  const endSegment = () => {
+    if (current.length > 1) segments.push(current);
+    current = [];
+  };
+
+  const needsRefinement = (p0: CurvePoint | null, pm: CurvePoint | null, p1: CurvePoint | null): boolean => {
+    if (p0 && p1 && visible(p0) && visible(p1)) {
+      return !pm || !visible(pm) || distance(pm, { x: (p0.x + p1.x) / 2, y: (p0.y + p1.y) / 2 }) > FLATNESS;
+    }
+    if (visible(p0) || visible(p1) || visible(pm)) {
+      return true; // Locate where the curve enters or leaves the box
+    }
+    // Both ends outside: the chord may still pass through the box
+    return (
+      !!p0 &&
+      !!p1 &&
+      Math.max(p0.x, p1.x) >= box.x[0] &&
+      Math.min(p0.x, p1.x) <= box.x[1] &&
+      Math.max(p0.y, p1.y) >= box.y[0] &&
+      Math.min(p0.y, p1.y) <= box.y[1]
+    );
+  };
+
+  // Emit the curve on (t0, t1]; t0 has already been handled
+  const connect = (p0: CurvePoint | null, p1: CurvePoint | null, exhausted: boolean) => {
+    if (p0 && p1 && visible(p0) && visible(p1)) {
+      if (exhausted && distance(p0, p1) > JUMP) endSegment();
+      current.push(p1);
+    } else if (visible(p0)) {
+      if (p1) current.push(p1); // Just outside the box, so the stroke reaches its edge
+      endSegment();
+    } else if (p1 && visible(p1)) {
+      if (p0) current.push(p0);
+      current.push(p1);
+    }
+  };
+
+  const refine = (t0: number, p0: CurvePoint | null, t1: number, p1: CurvePoint | null, depth: number) => {
+    const tm = (t0 + t1) / 2;
+    const pm = evaluate(tm);
+    if (needsRefinement(p0, pm, p1)) {
+      if (depth < MAX_DEPTH && evaluations < MAX_EVALUATIONS) {
+        refine(t0, p0, tm, pm, depth + 1);
+        refine(tm, pm, t1, p1, depth + 1);
+        return;
+      }
+      connect(p0, p1, true);
+      return;
+    }
+    connect(p0, p1, false);
+  };
+
+  const step = (maxT - minT) / intervals;
+  let t0 = minT;
+  let p0 = evaluate(t0);
+  if (p0 && visible(p0)) {
+    current.push(p0);
+  }
+  for (let i = 1; i <= intervals; i++) {
+    const t1 = i === intervals ? maxT : minT + i * step;
+    const p1 = evaluate(t1);
+    refine(t0, p0, t1, p1, 0);
+    t0 = t1;
+    p0 = p1;
+  }
+  endSegment();
+
+  return segments;
+}
+
+/**
+ * Trace f(x, y) = 0 over the box with marching squares: the zero crossing on
+ * each grid edge is placed by linear interpolation, and crossings linked
+ * through cells are chained into polylines.
+ */
+export function sampleImplicit(f: (x: number, y: number) => number, box: Box, resolution = 120): CurvePoint[][] {
+  const [minX, maxX] = box.x;
+  const [minY, maxY] = box.y;
+  if (!(maxX > minX) || !(maxY > minY) || resolution < 1) {
+    return [];
+  }
+
+  const xAt = (i: number) => minX + ((maxX - minX) * i) / resolution;
+  const yAt = (j: number) => minY + ((maxY - minY) * j) / resolution;
+  const values: number[][] = [];
+  for (let i = 0; i <= resolution; i++) {
+    values.push([]);
+    for (let j = 0; j <= resolution; j++) {
+      const value = f(xAt(i), yAt(j));
+      values[i].push(Number.isFinite(value) ? value : NaN);
+    }
+  }
+
+  // Crossing on each grid edge by key: "h" edges run from (i, j) to (i + 1, j), "v" edges to (i, j + 1)
+  const points = new Map<string, CurvePoint | null>();
+  const links = new Map<string, string[]>();
+
+  const edgePoint = (key: string, x0: number, y0: number, v0: number, x1: number, y1: number, v1: number) => {
+    if (!points.has(key)) {
+      const s = v0 / (v0 - v1);
+      const point = { x: x0 + (x1 - x0) * s, y: y0 + (y1 - y0) * s };
+      // A sign change across a pole (1/x) is not a root: |f| grows there instead of vanishing
+      const value = Math.abs(f(point.x, point.y));
+      points.set(key, value <= Math.max(Math.abs(v0), Math.abs(v1)) ? point : null);
+    }
+    return points.get(key) ? key : null;
+  };
+  const link = (a: string | null, b: string | null) => {
+    if (!a || !b) return;
+    links.set(a, [...(links.get(a) ?? []), b]);
+    links.set(b, [...(links.get(b) ?? []), a]);
+  };
+
+  for (let i = 0; i < resolution; i++) {
+    for (let j = 0; j < resolution; j++) {
+      // Corners counterclockwise from the bottom left
+      const a = values[i][j];
+      const b = values[i + 1][j];
+      const c = values[i + 1][j + 1];
+      const d = values[i][j + 1];
+      if (isNaN(a) || isNaN(b) || isNaN(c) || isNaN(d)) continue;
+
+      const [pa, pb, pc, pd] = [a > 0, b > 0, c > 0, d > 0];
+      const x0 = xAt(i);
+      const x1 = xAt(i + 1);
+      const y0 = yAt(j);
+      const y1 = yAt(j + 1);
+      const bottom = pa !== pb ? edgePoint(`h${i},${j}`, x0, y0, a, x1, y0, b) : null;
+      const right = pb !== pc ? edgePoint(`v${i + 1},${j}`, x1, y0, b, x1, y1, c) : null;
+      const top = pd !== pc ? edgePoint(`h${i},${j + 1}`, x0, y1, d, x1, y1, c) : null;
+      const left = pa !== pd ? edgePoint(`v${i},${j}`, x0, y0, a, x0, y1, d) : null;
+
+      if (pa === pc && pb === pd && pa !== pb) {
+        // Saddle: the value at the center decides which corners are joined
+        if (f((x0 + x1) / 2, (y0 + y1) / 2) > 0 === pa) {
+          link(bottom, right);
+          link(top, left);
+        } else {
+          link(left, bottom);
+          link(right, top);
+        }
+      } else {
+        const crossings = [bottom, right, top, left].filter((key) => key !== null);
+        if (crossings.length === 2) link(crossings[0], crossings[1]);
+      }
+    }
+  }
+
+  // Chain linked crossings: open curves from their ends first, then closed loops
+  const segments: CurvePoint[][] = [];
+  const visited = new Set<string>();
+  const trace = (start: string) => {
+    const keys = [start];
+    visited.add(start);
+    let next: string | undefined = start;
+    while ((next = links.get(next)!.find((key) => !visited.has(key)))) {
+      visited.add(next);
+      keys.push(next);
+    }
+    if (keys.length > 2 && links.get(keys[keys.length - 1])!.includes(start)) keys.push(start);
+    segments.push(keys.map((key) => points.get(key)!));
+  };
+  for (const [key, linked] of links) {
+    if (linked.length === 1 && !visited.has(key)) trace(key);
+  }
+  for (const key of links.keys()) {
+    if (!visited.has(key)) trace(key);
+  }
+
+  return segments;
+}
+
+export function countPoints(segments: CurvePoint[][]): number {
+  return segments.reduce((total, segment) => total + segment.length, 0);
+}
@@ -1,5 +1,17 @@
 import p5 from 'p5';
-import { parseMathExpression } from './mathParser';
+import { CurveKind } from '../../shared/mathParser';
+import { parseMathExpression, parseCurve, parseRegion } from './mathParser';
+import { sampleCurve, sampleParametric, sampleImplicit, curvePoint, countPoints, CurvePoint } from './curveSampler';
+import { sampleRegion, clipToRegion, RegionSpan } from './regionSampler';
+import {
+  Viewport,
+  DEFAULT_VIEWPORT,
+  DEFAULT_T_RANGE,
+  clipRange,
+  clipBox,
+  tickStep,
+  formatTick,
+} from './viewport';
 import {
   drawAtom,
   drawBond,
@@ -7,14 +19,61 @@ import {
   drawBox,
   drawArrow as drawArrowPrimitive,
 } from '../drawing/diagramPrimitives';
+import { GraphParameter, parameterNames, parameterValues } from './parameters';
+import { RiemannRule, riemannSum, roundValue } from '../../shared/mathUtils';
+
+// Visible world rectangle; zooming and panning change it
+let viewport: Viewport = DEFAULT_VIEWPORT;
 
-export const COORDINATE_RANGE = 10; // -10 to 10
+export function getViewport(): Viewport {
+  return viewport;
+}
+
+export function setViewport(next: Viewport): void {
+  viewport = next;
+}
+
+// Named drawing colors; names are what the tutor model sees in board snapshots
+export const PALETTE = [
+  { name: 'blue', rgb: 'rgb(0, 0, 255)' },
+  { name: 'red', rgb: 'rgb(255, 0, 0)' },
+  { name: 'green', rgb: 'rgb(0, 128, 0)' },
+  { name: 'orange', rgb: 'rgb(255, 165, 0)' },
+  { name: 'purple', rgb: 'rgb(128, 0, 128)' },
+  { name: 'pink', rgb: 'rgb(255, 20, 147)' },
+];
+
+export const ANNOTATION_COLOR = 'rgb(0, 0, 0)';
+
+// Human-readable name for a drawing color (falls back to the raw value)
+export function colorName(color: string): string {
+  if (color === ANNOTATION_COLOR) return 'black';
+  return PALETTE.find((entry) => entry.rgb === color)?.name ?? color;
+}
 
 export interface GraphData {
-  expression: string;
+  expression: string; // Content in the format of its kind, see compileCurve
+  kind?: CurveKind; // function when omitted
   color: string;
   animationSpeed?: number;
   domain?: [number, number]; // [min, max] for x-axis
+  yRange?: [number, number]; // Implicit curves: y extent to trace
+  tRange?: [number, number]; // Parametric t or polar theta, default [0, 2pi]
+  parameters?: GraphParameter[]; // Free constants of the expression, adjustable with sliders
+}
+
+export interface RegionData {
+  inequalities: string; // e.g. "y > x^2 - 4" or "x + y <= 4, x >= 0, y >= 0"
+  color: string;
+  domain?: [number, number]; // Limits the shading to an x-range
+}
+
+export interface RiemannData {
+  expression: string; // Function in x
+  rule: RiemannRule;
+  domain: [number, number];
+  color: string;
+  parameters: GraphParameter[]; // n, the rectangle count, adjustable with a slider
 }
 
 export interface AnnotationData {
@@ -43,11 +102,11 @@ export function worldToScreen(
   worldX: number,
   worldY: number
 ): { x: number; y: number } {
-  const screenX = p.map(worldX, -COORDINATE_RANGE, COORDINATE_RANGE, 0, p.width);
+  const screenX = p.map(worldX, viewport.x[0], viewport.x[1], 0, p.width);
   const screenY = p.map(
     worldY,
-    COORDINATE_RANGE,
-    -COORDINATE_RANGE,
+    viewport.y[1],
+    viewport.y[0],
     0,
     p.height
   );
@@ -60,89 +119,127 @@ export function screenToWorld(
   screenX: number,
   screenY: number
 ): { x: number; y: number } {
-  const worldX = p.map(screenX, 0, p.width, -COORDINATE_RANGE, COORDINATE_RANGE);
+  const worldX = p.map(screenX, 0, p.width, viewport.x[0], viewport.x[1]);
   const worldY = p.map(
     screenY,
     0,
     p.height,
-    COORDINATE_RANGE,
-    -COORDINATE_RANGE
+    viewport.y[1],
+    viewport.y[0]
   );
   return { x: worldX, y: worldY };
 }
 
+const MIN_TICK_SPACING_PX = 70; // Keeps tick labels from overlapping
+
+// Multiples of step inside [min, max]
+function ticks([min, max]: [number, number], step: number): number[] {
+  const values: number[] = [];
+  for (let i = Math.ceil(min / step); i * step <= max; i++) {
+    values.push(i * step);
+  }
+  return values;
+}
+
 // Draw coordinate axes with improved contrast for projectors
 export function drawAxes(p: p5) {
-  // Use darker, thicker lines for better visibility on projectors
-  p.stroke(100);
-  p.strokeWeight(2); // Increased from 1 to 2 for better visibility
-  p.fill(100);
+  // Tick spacing adapts to each axis range: 1, 2 or 5 times a power of ten
+  const xStep = tickStep(viewport.x[1] - viewport.x[0], p.width / MIN_TICK_SPACING_PX);
+  const yStep = tickStep(viewport.y[1] - viewport.y[0], p.height / MIN_TICK_SPACING_PX);
+  const xTicks = ticks(viewport.x, xStep);
+  const yTicks = ticks(viewport.y, yStep);
 
   // Draw grid lines first (lighter, thinner)
   p.stroke(200);
   p.strokeWeight(1);
-  const gridSpacing = 2; // Grid every 2 units
-  
-  // Vertical grid lines
-  for (let i = -COORDINATE_RANGE; i <= COORDINATE_RANGE; i += gridSpacing) {
-    if (i === 0) continue; // Skip center line (will be drawn as axis)
-    const x = worldToScreen(p, i, 0).x;
-    p.line(x, 0, x, p.height);
+  for (const x of xTicks) {
+    const screenX = worldToScreen(p, x, 0).x;
+    p.line(screenX, 0, screenX, p.height);
   }
-  
-  // Horizontal grid lines
-  for (let i = -COORDINATE_RANGE; i <= COORDINATE_RANGE; i += gridSpacing) {
-    if (i === 0) continue; // Skip center line (will be drawn as axis)
-    const y = worldToScreen(p, 0, i).y;
-    p.line(0, y, p.width, y);
+  for (const y of yTicks) {
+    const screenY = worldToScreen(p, 0, y).y;
+    p.line(0, screenY, p.width, screenY);
   }
 
+  // Axes sit at 0, or stick to the nearest edge when 0 is out of view
+  const origin = worldToScreen(p, 0, 0);
+  const xAxisY = Math.max(0, Math.min(p.height, origin.y));
+  const yAxisX = Math.max(0, Math.min(p.width, origin.x));
+
   // Draw main axes (thicker, darker)
   p.stroke(80); // Darker for better contrast
   p.strokeWeight(2.5); // Thicker for projector visibility
-  p.fill(80);
-
-  // X-axis
-  const xAxisY = worldToScreen(p, 0, 0).y;
   p.line(0, xAxisY, p.width, xAxisY);
-
-  // Y-axis
-  const yAxisX = worldToScreen(p, 0, 0).x;
   p.line(yAxisX, 0, yAxisX, p.height);
 
-  // Draw axis labels with better contrast
+  // Draw axis labels with better contrast, kept inside the canvas
   p.textSize(13); // Slightly larger for readability
-  p.textAlign(p.CENTER, p.CENTER);
   p.fill(60); // Darker text for better contrast
 
-  // X-axis labels
-  for (let i = -COORDINATE_RANGE; i <= COORDINATE_RANGE; i += 2) {
-    if (i === 0) continue;
-    const pos = worldToScreen(p, i, 0);
-    p.text(i.toString(), pos.x, pos.y + 18);
+  p.textAlign(p.CENTER, p.TOP);
+  const xLabelY = xAxisY + 18 > p.height - 4 ? xAxisY - 22 : xAxisY + 6;
+  for (const x of xTicks) {
+    if (x === 0) continue;
+    p.text(formatTick(x, xStep), worldToScreen(p, x, 0).x, xLabelY);
   }
 
-  // Y-axis labels
-  for (let i = -COORDINATE_RANGE; i <= COORDINATE_RANGE; i += 2) {
-    if (i === 0) continue;
-    const pos = worldToScreen(p, 0, i);
-    p.text(i.toString(), pos.x - 15, pos.y);
+  p.textAlign(yAxisX < 40 ? p.LEFT : p.RIGHT, p.CENTER);
+  const yLabelX = yAxisX < 40 ? yAxisX + 6 : yAxisX - 6;
+  for (const y of yTicks) {
+    if (y === 0) continue;
+    p.text(formatTick(y, yStep), yLabelX, worldToScreen(p, 0, y).y);
   }
 
   // Origin label
-  const origin = worldToScreen(p, 0, 0);
-  p.text('0', origin.x - 10, origin.y + 15);
+  if (origin.x >= 0 && origin.x <= p.width && origin.y >= 0 && origin.y <= p.height) {
+    p.textAlign(p.CENTER, p.CENTER);
+    p.text('0', origin.x - 10, origin.y + 15);
+  }
 }
 
 // Animation state interface for progressive graph drawing
 export interface GraphAnimationState {
-  points: { x: number; y: number }[];
+  segments: CurvePoint[][]; // World coordinates, split at discontinuities
+  pointCount: number;
   color: string;
   progress: number;
   duration: number; // in frames (~90 frames = ~1.5s at 60fps)
   onComplete?: () => void;
 }
 
+// Initial sampling intervals; the sampler subdivides where the curve needs it
+function graphIntervals(domain: [number, number], animationSpeed?: number): number {
+  const domainSpan = domain[1] - domain[0];
+  // Fewer starting intervals for large domains or high speeds
+  return domainSpan > 40 || (animationSpeed && animationSpeed > 2.5) ? 60 : 100;
+}
+
+// World-space segments of a graph of any kind over the current viewport
+function sampleGraph(graphData: GraphData, animationSpeed?: number): CurvePoint[][] {
+  const kind = graphData.kind ?? 'function';
+  const names = parameterNames(graphData.parameters);
+  const values = parameterValues(graphData.parameters);
+  if (kind === 'function') {
+    const func = parseMathExpression(graphData.expression, names);
+    // Use domain from graphData or default to the visible range
+    const domain = graphData.domain || viewport.x;
+    const y = (x: number) => func(x, ...values);
+    return sampleCurve(y, domain, clipRange(viewport), graphIntervals(domain, animationSpeed));
+  }
+
+  const curve = parseCurve(kind, graphData.expression, names);
+  if (!curve) {
+    return [];
+  }
+  if (curve.kind === 'implicit') {
+    // Traced only where it can be seen; the grid resolution is spent on the view
+    const f = (x: number, y: number) => curve.f(x, y, ...values);
+    return sampleImplicit(f, { x: graphData.domain ?? viewport.x, y: graphData.yRange ?? viewport.y });
+  }
+  const point = curvePoint(curve, values);
+  return point ? sampleParametric(point, graphData.tRange ?? DEFAULT_T_RANGE, clipBox(viewport)) : [];
+}
+
 // Draw a graph with progressive stroke-by-stroke animation
 export function animateGraph(
   p: p5,
@@ -150,32 +247,11 @@ export function animateGraph(
   onComplete?: () => void,
   animationSpeed?: number // Speed multiplier for adaptive sampling
 ): GraphAnimationState | null {
-  const func = parseMathExpression(graphData.expression);
   const colorStr = graphData.color || 'rgb(0, 0, 255)';
+  const segments = sampleGraph(graphData, animationSpeed);
+  const pointCount = countPoints(segments);
 
-  // Use domain from graphData or default to -10..10
-  const domain = graphData.domain || [-COORDINATE_RANGE, COORDINATE_RANGE];
-  const [minX, maxX] = domain;
-  const domainSpan = maxX - minX;
-
-  // Adaptive sampling: reduce points for large domains or high speeds
-  // Default: 200 points, reduced to 120 if domain > 40 or speed > 2.5x
-  let targetPoints = 200;
-  if (domainSpan > 40 || (animationSpeed && animationSpeed > 2.5)) {
-    targetPoints = 120;
-  }
-
-  // Calculate points for the graph
-  const points: { x: number; y: number }[] = [];
-  const step = (maxX - minX) / targetPoints;
-  for (let x = minX; x <= maxX; x += step) {
-    const y = func(x);
-    if (!isNaN(y) && isFinite(y) && Math.abs(y) <= COORDINATE_RANGE * 2) {
-      points.push({ x, y });
-    }
-  }
-
-  if (points.length === 0) {
+  if (pointCount === 0) {
     console.error('No valid points to plot');
     onComplete?.();
     return null;
@@ -187,7 +263,8 @@ export function animateGraph(
 
   // Return animation state for progressive drawing
   return {
-    points,
+    segments,
+    pointCount,
     color: colorStr,
     progress: 0,
     duration: durationInFrames,
@@ -202,49 +279,155 @@ export function drawAnimatedGraph(
 ): boolean {
   // Calculate how many points to draw based on progress
   const numPoints = Math.floor(
-    (animationState.progress / animationState.duration) *
-      animationState.points.length
+    (animationState.progress / animationState.duration) * animationState.pointCount
   );
 
   if (numPoints <= 0) {
     return false; // Animation not started
   }
 
-  // Draw the graph up to current progress
+  // Draw the graph up to current progress, one stroke per segment
   p.stroke(animationState.color);
   p.strokeWeight(2);
   p.noFill();
 
-  if (numPoints >= animationState.points.length) {
-    // Draw complete graph
+  let remaining = numPoints;
+  for (const segment of animationState.segments) {
+    if (remaining <= 0) break;
     p.beginShape();
-    for (let i = 0; i < animationState.points.length; i++) {
-      const screenPos = worldToScreen(
-        p,
-        animationState.points[i].x,
-        animationState.points[i].y
-      );
+    for (let i = 0; i < segment.length && i < remaining; i++) {
+      const screenPos = worldToScreen(p, segment[i].x, segment[i].y);
       p.vertex(screenPos.x, screenPos.y);
     }
     p.endShape();
-    return true; // Animation complete
-  } else {
-    // Draw partial graph
+    remaining -= segment.length;
+  }
+
+  return numPoints >= animationState.pointCount; // Complete once every point is drawn
+}
+
+// Screen-space segments of a completed graph. Only valid for the canvas size
+// and viewport they were sampled with - resample after a resize, zoom or pan.
+export function sampleGraphSegments(p: p5, graphData: GraphData): CurvePoint[][] {
+  return sampleGraph(graphData).map((segment) => segment.map((point) => worldToScreen(p, point.x, point.y)));
+}
+
+// Draw pre-sampled screen-space segments, one stroke each
+export function drawSegments(p: p5, segments: CurvePoint[][], color: string) {
+  p.stroke(color);
+  p.strokeWeight(2);
+  p.noFill();
+  for (const segment of segments) {
     p.beginShape();
-    for (let i = 0; i < numPoints; i++) {
-      const screenPos = worldToScreen(
-        p,
-        animationState.points[i].x,
-        animationState.points[i].y
-      );
-      p.vertex(screenPos.x, screenPos.y);
+    for (const point of segment) {
+      p.vertex(point.x, point.y);
     }
     p.endShape();
-    return false; // Animation in progress
   }
 }
 
+const REGION_COLUMN_PX = 3; // Width of one filled column
+const REGION_FILL_ALPHA = 50; // Out of 255, so graphs and the grid show through
+const DASH_PATTERN = [8, 6]; // Boundaries of strict inequalities
+
+// Screen-space fill and outline of a region. Like graph segments, only valid
+// for the canvas size and viewport it was sampled with.
+export interface RegionShape {
+  spans: RegionSpan[];
+  columnWidth: number;
+  boundaries: { segments: CurvePoint[][]; dashed: boolean }[];
+}
+
+export function sampleRegionShape(p: p5, region: RegionData): RegionShape {
+  const inequalities = parseRegion(region.inequalities);
+  const x: [number, number] = region.domain
+    ? [Math.max(region.domain[0], viewport.x[0]), Math.min(region.domain[1], viewport.x[1])]
+    : viewport.x;
+  if (!inequalities || !(x[1] > x[0])) {
+    return { spans: [], columnWidth: 0, boundaries: [] };
+  }
+
+  const box = { x, y: viewport.y };
+  const toScreen = (segments: CurvePoint[][]) =>
+    segments.map((segment) => segment.map((point) => worldToScreen(p, point.x, point.y)));
+  const left = worldToScreen(p, x[0], 0).x;
+  const right = worldToScreen(p, x[1], 0).x;
+  const columns = Math.max(1, Math.round((right - left) / REGION_COLUMN_PX));
+
+  return {
+    spans: sampleRegion(inequalities, box, columns).map((span) => {
+      const top = worldToScreen(p, span.x, span.y1);
+      return { x: top.x, y0: top.y, y1: worldToScreen(p, span.x, span.y0).y };
+    }),
+    columnWidth: (right - left) / columns,
+    boundaries: inequalities.map((inequality, i) => ({
+      segments: toScreen(clipToRegion(sampleImplicit(inequality.f, box), inequalities, i)),
+      dashed: inequality.strict,
+    })),
+  };
+}
+
+// Translucent fill with solid (or dashed, for strict inequalities) boundaries
+export function drawRegion(p: p5, shape: RegionShape, color: string) {
+  const fill = p.color(color);
+  fill.setAlpha(REGION_FILL_ALPHA);
+
+  // One path for all columns: filling it once leaves no seams where they meet
+  const context = p.drawingContext as CanvasRenderingContext2D;
+  context.beginPath();
+  for (const span of shape.spans) {
+    // Screen y grows downward: y0 is the top edge here
+    context.rect(span.x - shape.columnWidth / 2, span.y0, shape.columnWidth, span.y1 - span.y0);
+  }
+  context.fillStyle = fill.toString();
+  context.fill();
+
+  for (const boundary of shape.boundaries) {
+    context.setLineDash(boundary.dashed ? DASH_PATTERN : []);
+    drawSegments(p, boundary.segments, color);
+  }
+  context.setLineDash([]);
+}
+
 // Draw annotation (text label)
+export const RIEMANN_ANIMATION_MS = 1500; // Rectangles appear left to right over this time
+
+/**
+ * Draw the rectangles of a Riemann sum with the running total above them.
+ * progress (0 to 1) is the fraction of rectangles shown, for the entry animation.
+ */
+export function drawRiemann(p: p5, riemann: RiemannData, color: string, progress = 1) {
+  const n = riemann.parameters.find((parameter) => parameter.name === 'n')?.value ?? 1;
+  const func = parseMathExpression(riemann.expression);
+  const { rectangles, sum } = riemannSum(func, riemann.domain, n, riemann.rule);
+  const shown = rectangles.slice(0, Math.ceil(rectangles.length * progress));
+
+  const fill = p.color(color);
+  fill.setAlpha(REGION_FILL_ALPHA);
+  p.fill(fill);
+  p.stroke(color);
+  p.strokeWeight(1);
+  let top = 0;
+  for (const { x0, x1, height } of shown) {
+    if (!Number.isFinite(height)) continue;
+    const corner = worldToScreen(p, x0, Math.max(0, height));
+    const opposite = worldToScreen(p, x1, Math.min(0, height));
+    p.rect(corner.x, corner.y, opposite.x - corner.x, opposite.y - corner.y);
+    top = Math.max(top, height);
+  }
+
+  // Total once every rectangle is in
+  if (progress < 1) return;
+  const rule = riemann.rule === 'midpoint' ? 'Midpoint' : riemann.rule === 'left' ? 'Left' : 'Right';
+  const text = `${rule} sum, n = ${rectangles.length}: ${Number.isFinite(sum) ? roundValue(sum, 3) : 'undefined'}`;
+  const anchor = worldToScreen(p, (riemann.domain[0] + riemann.domain[1]) / 2, top);
+  p.fill(color);
+  p.stroke(255);
+  p.textSize(14);
+  p.textAlign(p.CENTER, p.BOTTOM);
+  p.text(text, anchor.x, anchor.y - 6);
+}
+
 export function drawAnnotation(p: p5, annotation: AnnotationData) {
   const screenPos = worldToScreen(p, annotation.x, annotation.y);
   const colorStr = annotation.color || 'rgb(0, 0, 0)';
@@ -272,7 +455,7 @@ export function drawDiagram(p: p5, diagram: DiagramData) {
         const radiusScreen = p.map(
           diagram.radius,
           0,
-          COORDINATE_RANGE * 2,
+          viewport.x[1] - viewport.x[0],
           0,
           p.width
         );
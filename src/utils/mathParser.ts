@@ -1,37 +1,83 @@
-import { create, all } from 'mathjs';
-
-// Create a mathjs instance with all functions
-const math = create(all);
-
-export function parseMathExpression(expression: string): (x: number) => number {
-  // Clean up the expression (replace common variations)
-  let cleaned = expression
-    .replace(/\^/g, '^') // Keep caret for power
-    .replace(/\*\*/g, '^') // Replace ** with ^
-    .trim();
-
-  // Create a function that evaluates the expression for a given x
-  return (x: number): number => {
-    try {
-      // Replace x with the actual value
-      const expr = cleaned.replace(/x/g, `(${x})`);
-      const result = math.evaluate(expr);
-      return typeof result === 'number' ? result : NaN;
-    } catch (error) {
-      console.error('Error evaluating expression:', error);
-      return NaN;
-    }
-  };
+import {
+  CompiledCurve,
+  CurveKind,
+  Inequality,
+  compileCurve,
+  compileExpression,
+  compileRegion,
+} from '../../shared/mathParser';
+
+// Client-side caches over the shared evaluator in shared/mathParser.ts
+
+// Compiled graphs, so redrawing the canvas every frame does not re-parse them
+const compiledGraphs = new Map<string, (x: number, ...parameters: number[]) => number>();
+const MAX_COMPILED_GRAPHS = 100;
+
+// Parameter values follow x, in the order the names are given
+export function parseMathExpression(
+  expression: string,
+  parameters: string[] = []
+): (x: number, ...parameters: number[]) => number {
+  const key = parameters.length > 0 ? `${expression}|${parameters.join(',')}` : expression;
+  const cached = compiledGraphs.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const result = compileExpression(expression, ['x', ...parameters]);
+  if (!result.success) {
+    console.error(`Cannot plot "${expression}": ${result.error}`);
+  }
+  const evaluate = result.success ? result.evaluate : () => NaN;
+
+  if (compiledGraphs.size >= MAX_COMPILED_GRAPHS) {
+    compiledGraphs.delete(compiledGraphs.keys().next().value!); // Oldest first
+  }
+  compiledGraphs.set(key, evaluate);
+  return evaluate;
 }
 
-export function isValidMathExpression(expression: string): boolean {
-  try {
-    // Test with a sample value
-    const testFunc = parseMathExpression(expression);
-    const result = testFunc(1);
-    return !isNaN(result) && isFinite(result);
-  } catch {
-    return false;
+// Compiled parametric, polar and implicit curves, cached the same way
+const compiledCurves = new Map<string, CompiledCurve | null>();
+
+export function parseCurve(kind: CurveKind, content: string, parameters: string[] = []): CompiledCurve | null {
+  const key = `${kind}:${content}|${parameters.join(',')}`;
+  const cached = compiledCurves.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const result = compileCurve(kind, content, parameters);
+  if (!result.success) {
+    console.error(`Cannot plot ${kind} curve "${content}": ${result.error}`);
+  }
+
+  if (compiledCurves.size >= MAX_COMPILED_GRAPHS) {
+    compiledCurves.delete(compiledCurves.keys().next().value!);
   }
+  const curve = result.success ? result.curve : null;
+  compiledCurves.set(key, curve);
+  return curve;
 }
 
+// Compiled region inequalities, cached the same way
+const compiledRegions = new Map<string, Inequality[] | null>();
+
+export function parseRegion(content: string): Inequality[] | null {
+  const cached = compiledRegions.get(content);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const result = compileRegion(content);
+  if (!result.success) {
+    console.error(`Cannot shade "${content}": ${result.error}`);
+  }
+
+  if (compiledRegions.size >= MAX_COMPILED_GRAPHS) {
+    compiledRegions.delete(compiledRegions.keys().next().value!);
+  }
+  const inequalities = result.success ? result.inequalities : null;
+  compiledRegions.set(content, inequalities);
+  return inequalities;
+}
@@ -0,0 +1,116 @@
+// Free constants of a graph ("a" and "b" in a*sin(b*x)), each with a value
+// and the range its slider covers. Riemann sums use the same for n.
+
+import { isParameterName } from '../../shared/mathParser';
+import { DrawingCommand } from '../components/Canvas';
+
+export interface GraphParameter {
+  name: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number; // Values snap to multiples of this, e.g. 1 for a rectangle count
+}
+
+export interface DeclaredParameter {
+  name: string;
+  value: number;
+  min?: number | null;
+  max?: number | null;
+}
+
+const DEFAULT_RANGE = 10; // Sliders cover -10 to 10 unless the tutor says otherwise
+const MAX_PARAMETERS = 10;
+export const PARAMETER_ANIMATION_MS = 2000;
+
+// Slider range always covering the value, so it never sits past an end
+function withValue(parameter: GraphParameter, value: number): GraphParameter {
+  const snapped = parameter.step ? Math.round(value / parameter.step) * parameter.step : value;
+  return {
+    ...parameter,
+    value: snapped,
+    min: Math.min(parameter.min, snapped),
+    max: Math.max(parameter.max, snapped),
+  };
+}
+
+// Parameters of any board object that has them (graphs, Riemann sums)
+export function objectParameters(object: DrawingCommand): GraphParameter[] | undefined {
+  return (object.data as { parameters?: GraphParameter[] }).parameters;
+}
+
+/**
+ * Parameters from a tutor action: valid, unique names only, with missing or
+ * inverted ranges replaced by the default
+ */
+export function declareParameters(declared?: DeclaredParameter[] | null): GraphParameter[] {
+  const parameters: GraphParameter[] = [];
+  for (const { name, value, min, max } of declared ?? []) {
+    if (!isParameterName(name) || !Number.isFinite(value) || parameters.some((entry) => entry.name === name)) {
+      continue;
+    }
+    const ordered = min != null && max != null && min < max;
+    const range = ordered ? { min, max } : { min: -DEFAULT_RANGE, max: DEFAULT_RANGE };
+    parameters.push(withValue({ name, value, ...range }, value));
+  }
+  return parameters.slice(0, MAX_PARAMETERS);
+}
+
+export function parameterNames(parameters?: GraphParameter[]): string[] {
+  return (parameters ?? []).map((parameter) => parameter.name);
+}
+
+export function parameterValues(parameters?: GraphParameter[]): number[] {
+  return (parameters ?? []).map((parameter) => parameter.value);
+}
+
+// New values for some of the parameters; others keep theirs
+export function setParameterValues(parameters: GraphParameter[], values: Record<string, number>): GraphParameter[] {
+  return parameters.map((parameter) =>
+    parameter.name in values ? withValue(parameter, values[parameter.name]) : parameter
+  );
+}
+
+/**
+ * Graph (or Riemann sum) a spoken parameter change applies to: the target id
+ * when given, otherwise the most recent object declaring the parameter
+ */
+export function findParameterGraph(
+  objects: DrawingCommand[],
+  name: string,
+  targetId?: string | null
+): DrawingCommand | null {
+  const declares = (object: DrawingCommand) =>
+    !!objectParameters(object)?.some((parameter) => parameter.name === name);
+  if (targetId) {
+    return objects.find((object) => object.id === targetId && declares(object)) ?? null;
+  }
+  return [...objects].reverse().find(declares) ?? null;
+}
+
+/**
+ * Move a value from `from` to `to` over durationMs, calling onFrame once per
+ * animation frame and onDone after the last one. Returns a function that
+ * stops it early (onDone is then not called).
+ */
+export function tweenValue(
+  from: number,
+  to: number,
+  onFrame: (value: number) => void,
+  onDone: () => void,
+  durationMs = PARAMETER_ANIMATION_MS
+): () => void {
+  const start = performance.now();
+  let frame = 0;
+  const step = (now: number) => {
+    const progress = Math.min(1, (now - start) / durationMs);
+    onFrame(from + (to - from) * progress);
+    if (progress < 1) {
+      frame = requestAnimationFrame(step);
+    } else {
+      onDone();
+    }
+  };
+  frame = requestAnimationFrame(step);
+  return () => cancelAnimationFrame(frame);
+}
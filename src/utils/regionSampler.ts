@@ -0,0 +1,106 @@
+// Sampler for shaded regions, where a set of inequalities holds. Each column
+// of the view becomes the y intervals inside the region, with their edges
+// located by bisection; boundary curves are cut down to the region's outline.
+
+import { Inequality } from '../../shared/mathParser';
+import { Box, CurvePoint } from './curveSampler';
+
+// One filled interval of a column, y0 < y1
+export interface RegionSpan {
+  x: number;
+  y0: number;
+  y1: number;
+}
+
+const ROWS = 100; // Samples per column before the edges are bisected
+const BISECTIONS = 12; // Edge error: span / ROWS / 2^12
+
+// Boundaries count as inside, so fills and outlines meet
+function holds(inequalities: Inequality[], x: number, y: number, skip = -1): boolean {
+  return inequalities.every((inequality, i) => i === skip || inequality.f(x, y) >= 0);
+}
+
+/**
+ * Intervals inside the region for each of `columns` evenly spaced columns
+ * across the box, at the column centers
+ */
+export function sampleRegion(inequalities: Inequality[], box: Box, columns: number): RegionSpan[] {
+  const [minX, maxX] = box.x;
+  const [minY, maxY] = box.y;
+  if (!(maxX > minX) || !(maxY > minY) || columns < 1) {
+    return [];
+  }
+
+  const spans: RegionSpan[] = [];
+  const rowStep = (maxY - minY) / ROWS;
+  for (let c = 0; c < columns; c++) {
+    const x = minX + ((maxX - minX) * (c + 0.5)) / columns;
+    const inside = (y: number) => holds(inequalities, x, y);
+
+    // Point where inside() flips between y0 (with state at y0) and y1
+    const edge = (y0: number, y1: number, state: boolean) => {
+      for (let i = 0; i < BISECTIONS; i++) {
+        const mid = (y0 + y1) / 2;
+        if (inside(mid) === state) y0 = mid;
+        else y1 = mid;
+      }
+      return (y0 + y1) / 2;
+    };
+
+    let start: number | null = inside(minY) ? minY : null;
+    let previous = minY;
+    for (let j = 1; j <= ROWS; j++) {
+      const y = j === ROWS ? maxY : minY + j * rowStep;
+      const state = inside(y);
+      if (state && start === null) {
+        start = edge(previous, y, false);
+      } else if (!state && start !== null) {
+        spans.push({ x, y0: start, y1: edge(previous, y, true) });
+        start = null;
+      }
+      previous = y;
+    }
+    if (start !== null) spans.push({ x, y0: start, y1: maxY });
+  }
+  return spans;
+}
+
+/**
+ * Cut the boundary curve of inequality `index` to where every other
+ * inequality holds, so only the region's outline is drawn
+ */
+export function clipToRegion(segments: CurvePoint[][], inequalities: Inequality[], index: number): CurvePoint[][] {
+  const inside = (point: CurvePoint) => holds(inequalities, point.x, point.y, index);
+
+  // Point on the chord from a to b where inside() flips, a having the given state
+  const edge = (a: CurvePoint, b: CurvePoint, state: boolean): CurvePoint => {
+    let lo = 0;
+    let hi = 1;
+    const at = (t: number) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+    for (let i = 0; i < BISECTIONS; i++) {
+      const mid = (lo + hi) / 2;
+      if (inside(at(mid)) === state) lo = mid;
+      else hi = mid;
+    }
+    return at((lo + hi) / 2);
+  };
+
+  const clipped: CurvePoint[][] = [];
+  for (const segment of segments) {
+    let current: CurvePoint[] = [];
+    segment.forEach((point, i) => {
+      const state = inside(point);
+      const previous = segment[i - 1];
+      if (previous && state !== inside(previous)) {
+        current.push(edge(previous, point, !state));
+        if (!state) {
+          if (current.length > 1) clipped.push(current);
+          current = [];
+        }
+      }
+      if (state) current.push(point);
+    });
+    if (current.length > 1) clipped.push(current);
+  }
+  return clipped;
+}
@@ -0,0 +1,162 @@
+// The board as a scene of objects with stable ids, changed only through
+// commands. Every command records its inverse, so a history of them drives
+// undo and redo without snapshotting the whole board.
+
+import { DrawingCommand } from '../components/Canvas';
+import { objectParameters, setParameterValues } from './parameters';
+
+const MAX_HISTORY = 50;
+
+export type SceneCommand =
+  | { type: 'add'; objects: DrawingCommand[]; indices?: number[] } // indices: restore positions
+  | { type: 'remove'; ids: string[] }
+  | { type: 'restyle'; id: string; color: string }
+  | { type: 'set_parameters'; id: string; values: Record<string, number> } // Parameter values by name
+  | { type: 'clear' };
+
+// Commands applied together (one tutor response, one shortcut) and undone together
+interface HistoryEntry {
+  commands: SceneCommand[];
+  inverse: SceneCommand[];
+  group?: string; // Set for steps that arrive in pieces, like a streamed response
+}
+
+export interface SceneHistory {
+  objects: DrawingCommand[]; // Draw order
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: SceneHistory = { objects: [], undoStack: [], redoStack: [] };
+
+// Apply one command, returning the new objects and the command that reverts it
+function apply(
+  objects: DrawingCommand[],
+  command: SceneCommand
+): { objects: DrawingCommand[]; inverse: SceneCommand | null } {
+  switch (command.type) {
+    case 'add': {
+      const result = [...objects];
+      command.objects.forEach((object, i) => {
+        const index = command.indices?.[i];
+        if (index === undefined || index > result.length) result.push(object);
+        else result.splice(index, 0, object);
+      });
+      return { objects: result, inverse: { type: 'remove', ids: command.objects.map((object) => object.id) } };
+    }
+    case 'remove':
+    case 'clear': {
+      const removed = objects
+        .map((object, index) => ({ object, index }))
+        .filter(({ object }) => command.type === 'clear' || command.ids.includes(object.id));
+      if (removed.length === 0) {
+        return { objects, inverse: null };
+      }
+      return {
+        objects: objects.filter((object) => !removed.some((entry) => entry.object === object)),
+        // Ascending indices, so re-inserting in order lands each object where it was
+        inverse: {
+          type: 'add',
+          objects: removed.map(({ object }) => object),
+          indices: removed.map(({ index }) => index),
+        },
+      };
+    }
+    case 'restyle': {
+      const target = objects.find((object) => object.id === command.id);
+      if (!target || target.data.color === command.color) {
+        return { objects, inverse: null };
+      }
+      return {
+        // A new object, so the canvas sees the change
+        objects: objects.map((object) =>
+          object === target ? { ...object, data: { ...object.data, color: command.color } } : object
+        ),
+        inverse: { type: 'restyle', id: command.id, color: target.data.color },
+      };
+    }
+    case 'set_parameters': {
+      const target = objects.find((object) => object.id === command.id);
+      const parameters = (target && objectParameters(target)) ?? [];
+      const previous: Record<string, number> = {};
+      for (const { name, value } of parameters) {
+        if (name in command.values && command.values[name] !== value) previous[name] = value;
+      }
+      if (!target || Object.keys(previous).length === 0) {
+        return { objects, inverse: null };
+      }
+      const data = { ...target.data, parameters: setParameterValues(parameters, command.values) };
+      return {
+        objects: objects.map((object) => (object === target ? { ...object, data } : object)),
+        inverse: { type: 'set_parameters', id: command.id, values: previous },
+      };
+    }
+  }
+}
+
+function applyAll(objects: DrawingCommand[], commands: SceneCommand[]) {
+  const inverse: SceneCommand[] = [];
+  for (const command of commands) {
+    const result = apply(objects, command);
+    objects = result.objects;
+    if (result.inverse) inverse.unshift(result.inverse); // Revert in reverse order
+  }
+  return { objects, inverse };
+}
+
+/**
+ * Run commands as one undoable step. A step that changes nothing is not
+ * recorded; any new step discards the redo stack. A step in the same `group`
+ * as the latest one joins it, so a response applied piece by piece still
+ * undoes together.
+ */
+export function execute(history: SceneHistory, commands: SceneCommand[], group?: string): SceneHistory {
+  const { objects, inverse } = applyAll(history.objects, commands);
+  if (inverse.length === 0) {
+    return history;
+  }
+  const last = history.undoStack[history.undoStack.length - 1];
+  const joins = group !== undefined && last?.group === group;
+  const entry: HistoryEntry = joins
+    ? { commands: [...last.commands, ...commands], inverse: [...inverse, ...last.inverse], group }
+    : { commands, inverse, group };
+  return {
+    objects,
+    undoStack: [...(joins ? history.undoStack.slice(0, -1) : history.undoStack), entry].slice(-MAX_HISTORY),
+    redoStack: [],
+  };
+}
+
+/**
+ * Apply commands without recording a step, for changes in progress (a slider
+ * drag, a parameter animation). Commit the end result with execute, after
+ * previewing back to the start so the step undoes to where it began.
+ */
+export function preview(history: SceneHistory, commands: SceneCommand[]): SceneHistory {
+  const { objects, inverse } = applyAll(history.objects, commands);
+  return inverse.length === 0 ? history : { ...history, objects };
+}
+
+export function undo(history: SceneHistory): SceneHistory {
+  const entry = history.undoStack[history.undoStack.length - 1];
+  if (!entry) {
+    return history;
+  }
+  return {
+    objects: applyAll(history.objects, entry.inverse).objects,
+    undoStack: history.undoStack.slice(0, -1),
+    redoStack: [...history.redoStack, entry],
+  };
+}
+
+export function redo(history: SceneHistory): SceneHistory {
+  const entry = history.redoStack[history.redoStack.length - 1];
+  if (!entry) {
+    return history;
+  }
+  return {
+    objects: applyAll(history.objects, entry.commands).objects,
+    undoStack: [...history.undoStack, entry],
+    redoStack: history.redoStack.slice(0, -1),
+  };
+}
@@ -1,3 +1,5 @@
+import { LanguageTag, isSupportedLanguage, resolveLanguage } from '../../shared/languages';
+
 const API_KEY_STORAGE_KEY = 'voiceboard_openai_api_key';
 
 export function getApiKey(): string | null {
@@ -27,6 +29,45 @@ export function setAnimationSpeed(speed: number): void {
   localStorage.setItem(ANIMATION_SPEED_STORAGE_KEY, speed.toString());
 }
 
+const SESSION_ID_STORAGE_KEY = 'voiceboard_session_id';
+
+// Session identity for the current board; the server keys conversation memory on it
+export function getSessionId(): string {
+  const stored = localStorage.getItem(SESSION_ID_STORAGE_KEY);
+  if (stored) return stored;
+  return rotateSessionId();
+}
+
+// Start a fresh session (New Chat/Board)
+export function rotateSessionId(): string {
+  const sessionId = crypto.randomUUID();
+  localStorage.setItem(SESSION_ID_STORAGE_KEY, sessionId);
+  return sessionId;
+}
+
+const STREAMING_STORAGE_KEY = 'voiceboard_streaming';
+
+export function getStreamingEnabled(): boolean {
+  return localStorage.getItem(STREAMING_STORAGE_KEY) !== 'false'; // Default: on
+}
+
+export function setStreamingEnabled(enabled: boolean): void {
+  localStorage.setItem(STREAMING_STORAGE_KEY, enabled.toString());
+}
+
+const LANGUAGE_STORAGE_KEY = 'voiceboard_language';
+
+// Session language for recognition, tutor replies and speech; defaults to the browser's
+export function getLanguage(): LanguageTag {
+  const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  if (stored && isSupportedLanguage(stored)) return stored;
+  return resolveLanguage(navigator.language);
+}
+
+export function setLanguage(language: LanguageTag): void {
+  localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+}
+
 const CHAT_HISTORY_STORAGE_KEY = 'voiceboard_chat_history';
 const MAX_HISTORY_SESSIONS = 10;
 
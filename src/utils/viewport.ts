@@ -0,0 +1,213 @@
+// Visible world rectangle of the canvas. The x and y ranges are independent,
+// so e^x, 100sin(x) or data around x = 1990 can all be framed.
+
+import { CurveKind } from '../../shared/mathParser';
+import { parseCurve, parseMathExpression } from './mathParser';
+import { curvePoint } from './curveSampler';
+import { GraphParameter, parameterNames, parameterValues } from './parameters';
+
+export const COORDINATE_RANGE = 10; // Default view: -10 to 10 on both axes
+
+export interface Viewport {
+  x: [number, number];
+  y: [number, number];
+}
+
+export const DEFAULT_VIEWPORT: Viewport = {
+  x: [-COORDINATE_RANGE, COORDINATE_RANGE],
+  y: [-COORDINATE_RANGE, COORDINATE_RANGE],
+};
+
+export const DEFAULT_T_RANGE: [number, number] = [0, 2 * Math.PI]; // Parametric t or polar theta
+
+const MIN_SPAN = 1e-3;
+const MAX_SPAN = 1e6;
+const MAX_CENTER = 1e7; // Beyond this, float precision makes the grid jitter
+const FIT_SAMPLES = 200;
+const FIT_PADDING = 0.1; // Fraction of the span added on each side when fitting
+
+// Keep a range usable: ordered, finite, and within the span and center limits
+function clampRange([min, max]: [number, number]): [number, number] {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    return [-COORDINATE_RANGE, COORDINATE_RANGE];
+  }
+  if (min > max) [min, max] = [max, min];
+  const center = Math.max(-MAX_CENTER, Math.min(MAX_CENTER, (min + max) / 2));
+  const half = Math.max(MIN_SPAN, Math.min(MAX_SPAN, max - min)) / 2;
+  return [center - half, center + half];
+}
+
+export function makeViewport(x: [number, number], y: [number, number]): Viewport {
+  return { x: clampRange(x), y: clampRange(y) };
+}
+
+export function viewportsEqual(a: Viewport, b: Viewport): boolean {
+  return a.x[0] === b.x[0] && a.x[1] === b.x[1] && a.y[0] === b.y[0] && a.y[1] === b.y[1];
+}
+
+/**
+ * Scale both ranges by factor (> 1 zooms out) around an anchor point, which
+ * stays put on screen. Defaults to the center of the view.
+ */
+export function zoomViewport(
+  viewport: Viewport,
+  factor: number,
+  anchor: { x: number; y: number } = {
+    x: (viewport.x[0] + viewport.x[1]) / 2,
+    y: (viewport.y[0] + viewport.y[1]) / 2,
+  }
+): Viewport {
+  const scale = ([min, max]: [number, number], at: number): [number, number] => [
+    at + (min - at) * factor,
+    at + (max - at) * factor,
+  ];
+  return makeViewport(scale(viewport.x, anchor.x), scale(viewport.y, anchor.y));
+}
+
+// Shift the view by a world-space offset
+export function panViewport(viewport: Viewport, dx: number, dy: number): Viewport {
+  return makeViewport(
+    [viewport.x[0] + dx, viewport.x[1] + dx],
+    [viewport.y[0] + dy, viewport.y[1] + dy]
+  );
+}
+
+// Range extended by half its span on each side: what is drawn before clipping
+function widen([min, max]: [number, number]): [number, number] {
+  const margin = (max - min) / 2;
+  return [min - margin, max + margin];
+}
+
+// y range that would be clipped away while drawing: half a view beyond each edge
+export function clipRange(viewport: Viewport): [number, number] {
+  return widen(viewport.y);
+}
+
+// Both ranges widened the same way, for curves that can leave the view sideways
+export function clipBox(viewport: Viewport): Viewport {
+  return { x: widen(viewport.x), y: widen(viewport.y) };
+}
+
+export interface FitTarget {
+  expression: string;
+  kind?: CurveKind; // function when omitted
+  domain?: [number, number];
+  tRange?: [number, number]; // Parametric t or polar theta
+  parameters?: GraphParameter[];
+}
+
+// Real y values of a graph with x inside xRange. Implicit curves have none to offer.
+function sampleYValues(graph: FitTarget, xRange: [number, number]): number[] {
+  const values: number[] = [];
+  const kind = graph.kind ?? 'function';
+  const names = parameterNames(graph.parameters);
+  const parameters = parameterValues(graph.parameters);
+  if (kind === 'function') {
+    const func = parseMathExpression(graph.expression, names);
+    const [minX, maxX] = graph.domain ?? xRange;
+    for (let i = 0; i <= FIT_SAMPLES; i++) {
+      const y = func(minX + ((maxX - minX) * i) / FIT_SAMPLES, ...parameters);
+      if (Number.isFinite(y)) values.push(y);
+    }
+    return values;
+  }
+
+  const curve = parseCurve(kind, graph.expression, names);
+  const point = curve && curvePoint(curve, parameters);
+  if (!point) {
+    return values;
+  }
+  const [minT, maxT] = graph.tRange ?? DEFAULT_T_RANGE;
+  const [minX, maxX] = graph.domain ?? xRange;
+  for (let i = 0; i <= FIT_SAMPLES; i++) {
+    const { x, y } = point(minT + ((maxT - minT) * i) / FIT_SAMPLES);
+    if (Number.isFinite(y) && x >= minX && x <= maxX) values.push(y);
+  }
+  return values;
+}
+
+// y range covering most values of the graphs over their domains, or null if none are real
+function fitYRange(graphs: FitTarget[], xRange: [number, number]): [number, number] | null {
+  const values = graphs.flatMap((graph) => sampleYValues(graph, xRange));
+  if (values.length === 0) {
+    return null;
+  }
+
+  // Ignore the extreme 2% at each end so asymptotes (tan, 1/x) do not flatten the curve
+  values.sort((a, b) => a - b);
+  let min = values[Math.floor(values.length * 0.02)];
+  let max = values[Math.ceil(values.length * 0.98) - 1];
+  if (max - min < MIN_SPAN) {
+    min -= 1;
+    max += 1;
+  }
+  if (max - min > MAX_SPAN) {
+    // Keep the end nearer zero, so e^x over [0, 50] still shows where it takes off
+    return Math.abs(min) <= Math.abs(max) ? [min, min + MAX_SPAN] : [max - MAX_SPAN, max];
+  }
+  const padding = (max - min) * FIT_PADDING;
+  return [min - padding, max + padding];
+}
+
+/**
+ * Frame graphs: x covers the union of their domains (or the current x range),
+ * y is yRange when given, otherwise fitted to the sampled values.
+ */
+export function fitViewport(graphs: FitTarget[], current: Viewport, yRange?: [number, number]): Viewport {
+  const domains = graphs.map((graph) => graph.domain).filter((domain): domain is [number, number] => !!domain);
+  const x: [number, number] =
+    domains.length > 0
+      ? [Math.min(...domains.map(([min]) => min)), Math.max(...domains.map(([, max]) => max))]
+      : current.x;
+  const y = yRange ?? fitYRange(graphs, x) ?? current.y;
+  return makeViewport(x, y);
+}
+
+export interface ZoomRequest {
+  content: string; // "in", "out", "reset", "fit" or "range"
+  meta?: { domain?: [number, number] | null; y_range?: [number, number] | null };
+}
+
+/**
+ * Viewport after a zoom action. Explicit meta ranges win over content; a new
+ * x range without a y range refits y to the graphs on the board.
+ */
+export function applyZoom(viewport: Viewport, zoom: ZoomRequest, graphs: FitTarget[]): Viewport {
+  const domain = zoom.meta?.domain ?? undefined;
+  const yRange = zoom.meta?.y_range ?? undefined;
+
+  if (domain || yRange) {
+    const x = domain ?? viewport.x;
+    const y = yRange ?? (domain ? fitYRange(graphs, domain) : null) ?? viewport.y;
+    return makeViewport(x, y);
+  }
+
+  switch (zoom.content) {
+    case 'in':
+      return zoomViewport(viewport, 0.5);
+    case 'out':
+      return zoomViewport(viewport, 2);
+    case 'reset':
+      return DEFAULT_VIEWPORT;
+    case 'fit':
+      return graphs.length > 0 ? fitViewport(graphs, viewport) : viewport;
+    default:
+      return viewport;
+  }
+}
+
+// Tick spacing of 1, 2 or 5 times a power of ten giving about maxTicks ticks
+export function tickStep(span: number, maxTicks: number): number {
+  const rough = span / Math.max(1, maxTicks);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const residual = rough / magnitude;
+  const nice = residual > 5 ? 10 : residual > 2 ? 5 : residual > 1 ? 2 : 1;
+  return nice * magnitude;
+}
+
+// Tick label with only as many decimals as the spacing needs
+export function formatTick(value: number, step: number): string {
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  const text = value.toFixed(Math.min(decimals, 10));
+  return Number(text) === 0 ? '0' : text; // No "-0"
+}